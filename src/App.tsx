@@ -2,9 +2,25 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { RoleGuard } from "@/components/RoleGuard";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import AuthCallback from "./pages/AuthCallback";
+import ResetPassword from "./pages/ResetPassword";
+import AcceptInvite from "./pages/AcceptInvite";
+import Dashboard from "./pages/Dashboard";
+import Shipments from "./pages/Shipments";
+import ShipmentDetail from "./pages/ShipmentDetail";
+import FleetMap from "./pages/FleetMap";
+import LiveTracking from "./pages/LiveTracking";
+import AssignedLoads from "./pages/AssignedLoads";
+import Inventory from "./pages/Inventory";
+import SeedLots from "./pages/SeedLots";
+import LotTrace from "./pages/LotTrace";
+import Reports from "./pages/Reports";
+import UserManagement from "./pages/UserManagement";
+import Security from "./pages/Security";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,8 +32,81 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
+          <Route path="/auth/callback" element={<AuthCallback />} />
+          <Route path="/auth/reset-password" element={<ResetPassword />} />
+          <Route path="/invite/:token" element={<AcceptInvite />} />
+          <Route element={<Index />}>
+            <Route path="/" element={<Navigate to="/dashboard" replace />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            <Route
+              path="/shipments"
+              element={
+                <RoleGuard allow={['farmer', 'administrator']}>
+                  <Shipments />
+                </RoleGuard>
+              }
+            />
+            <Route path="/shipments/:id" element={<ShipmentDetail />} />
+            <Route
+              path="/fleet"
+              element={
+                <RoleGuard allow={['administrator']}>
+                  <FleetMap />
+                </RoleGuard>
+              }
+            />
+            <Route
+              path="/assigned"
+              element={
+                <RoleGuard allow={['transporter']}>
+                  <AssignedLoads />
+                </RoleGuard>
+              }
+            />
+            <Route
+              path="/tracking"
+              element={
+                <RoleGuard allow={['transporter']}>
+                  <LiveTracking />
+                </RoleGuard>
+              }
+            />
+            <Route
+              path="/inventory"
+              element={
+                <RoleGuard allow={['administrator']}>
+                  <Inventory />
+                </RoleGuard>
+              }
+            />
+            <Route
+              path="/lots"
+              element={
+                <RoleGuard allow={['farmer', 'administrator']}>
+                  <SeedLots />
+                </RoleGuard>
+              }
+            />
+            <Route
+              path="/lots/trace/:lotCode?"
+              element={
+                <RoleGuard allow={['farmer', 'administrator']}>
+                  <LotTrace />
+                </RoleGuard>
+              }
+            />
+            <Route path="/reports" element={<Reports />} />
+            <Route
+              path="/users"
+              element={
+                <RoleGuard allow={['administrator']}>
+                  <UserManagement />
+                </RoleGuard>
+              }
+            />
+            <Route path="/security" element={<Security />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
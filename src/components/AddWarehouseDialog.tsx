@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface AddWarehouseDialogProps {
+  organizationId: string;
+  onAdded?: () => void;
+}
+
+export const AddWarehouseDialog = ({ organizationId, onAdded }: AddWarehouseDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [location, setLocation] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a warehouse name.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('warehouses')
+        .insert({ organization_id: organizationId, name: name.trim(), location: location.trim() || null });
+
+      if (error) throw error;
+
+      toast({
+        title: "Warehouse Added",
+        description: `"${name.trim()}" is ready to receive stock.`,
+      });
+      setOpen(false);
+      setName('');
+      setLocation('');
+      onAdded?.();
+    } catch (error) {
+      console.error('Error adding warehouse:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add warehouse.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Plus className="mr-1 h-4 w-4" />
+          Add Warehouse
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Warehouse</DialogTitle>
+          <DialogDescription>Stock can be received into and transferred between warehouses.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="warehouse-name">Name</Label>
+            <Input
+              id="warehouse-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Warehouse A"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="warehouse-location">Location</Label>
+            <Input
+              id="warehouse-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g., Jaipur mandi yard"
+              maxLength={200}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={submitting || !name.trim()}>
+            {submitting ? 'Adding...' : 'Add Warehouse'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { AddressSuggestion, loadGeocoder } from '@/lib/geocoding';
+import { cn } from '@/lib/utils';
+
+interface AddressAutocompleteProps {
+  id: string;
+  name?: string;
+  value: string;
+  placeholder?: string;
+  required?: boolean;
+  onChange: (value: string) => void;
+  // A suggestion was picked; the address and its coordinates go back together
+  onSelect: (address: string, lat: number, lng: number) => void;
+}
+
+// Wait for a pause in typing so hosted geocoders see one request per word rather than per key
+const SEARCH_DELAY_MS = 350;
+const MIN_QUERY_LENGTH = 3;
+
+export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
+  id,
+  name,
+  value,
+  placeholder,
+  required,
+  onChange,
+  onSelect
+}) => {
+  const [suggestions, setSuggestions] = useState<AddressSuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  // Geocoders that do not allow autocomplete, such as the public Nominatim server, only search on Enter
+  const [searchOnEnter, setSearchOnEnter] = useState(false);
+  // Only searches typed by the user run; addresses filled in from the map or a pick do not
+  const typedRef = useRef(false);
+  const listId = `${id}-suggestions`;
+
+  useEffect(() => {
+    loadGeocoder()
+      .then((geocoder) => setSearchOnEnter(!geocoder.searchAsYouType))
+      .catch(() => setSearchOnEnter(false));
+  }, []);
+
+  const search = async (query: string, isCancelled: () => boolean = () => false) => {
+    try {
+      const geocoder = await loadGeocoder();
+      const results = await geocoder.search(query);
+      if (isCancelled()) return;
+      setSuggestions(results);
+      setHighlighted(-1);
+      setOpen(true);
+    } catch (err) {
+      console.warn('Address search failed:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!typedRef.current) return;
+    const query = value.trim();
+    if (query.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const geocoder = await loadGeocoder().catch(() => null);
+      if (geocoder?.searchAsYouType) {
+        search(query, () => cancelled);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [value]);
+
+  const choose = async (suggestion: AddressSuggestion) => {
+    typedRef.current = false;
+    setOpen(false);
+    setSuggestions([]);
+    onChange(suggestion.label);
+
+    try {
+      const geocoder = await loadGeocoder();
+      const position = await geocoder.locate(suggestion);
+      if (position) {
+        onSelect(suggestion.label, position.lat, position.lng);
+      }
+    } catch (err) {
+      console.warn('Address lookup failed:', err);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (searchOnEnter && e.key === 'Enter' && !(open && highlighted >= 0)) {
+      // Looks the address up instead of submitting the form
+      e.preventDefault();
+      if (value.trim().length >= MIN_QUERY_LENGTH) {
+        search(value.trim());
+      }
+      return;
+    }
+
+    if (!open || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && highlighted >= 0) {
+      e.preventDefault();
+      choose(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && suggestions.length > 0;
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        name={name}
+        value={value}
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+        onChange={(e) => {
+          typedRef.current = true;
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        // Clicks on a suggestion land before the list closes
+        onBlur={() => window.setTimeout(() => setOpen(false), 150)}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full max-h-60 overflow-auto rounded-md border bg-popover text-popover-foreground shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              className={cn(
+                'cursor-pointer px-3 py-2 text-sm',
+                index === highlighted ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              )}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(suggestion)}
+            >
+              {suggestion.label}
+            </li>
+          ))}
+        </ul>
+      )}
+      {searchOnEnter && !showList && (
+        <p className="mt-1 text-xs text-muted-foreground">Press Enter to look up the address</p>
+      )}
+    </div>
+  );
+};
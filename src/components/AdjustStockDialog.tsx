@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { WeightInput } from '@/components/WeightInput';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { WeightUnit } from '@/lib/cargo';
+import { parseQuantity } from '@/lib/inventory';
+
+interface AdjustStockDialogProps {
+  inventoryItemId: string;
+  itemLabel: string;
+  onAdjusted?: () => void;
+}
+
+export const AdjustStockDialog = ({ inventoryItemId, itemLabel, onAdjusted }: AdjustStockDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [quantity, setQuantity] = useState('');
+  const [unit, setUnit] = useState<WeightUnit>('kg');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleAdjust = async () => {
+    const amount = parseQuantity(quantity);
+    if (amount === null || amount === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a non-zero quantity. Use a negative number to remove stock.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please give a reason for the adjustment.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('adjust_stock', {
+        _inventory_item_id: inventoryItemId,
+        _quantity: amount,
+        _unit: unit,
+        _note: reason.trim()
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Stock Adjusted",
+        description: `The balance for ${itemLabel} has been updated.`,
+      });
+      setOpen(false);
+      setQuantity('');
+      setReason('');
+      onAdjusted?.();
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to adjust stock.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Adjust stock">
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Adjust Stock</DialogTitle>
+          <DialogDescription>
+            Correct the balance of {itemLabel} after a stock count. Use a negative quantity to remove stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`adjust-quantity-${inventoryItemId}`}>Quantity</Label>
+            <WeightInput
+              id={`adjust-quantity-${inventoryItemId}`}
+              quantity={quantity}
+              unit={unit}
+              onQuantityChange={setQuantity}
+              onUnitChange={setUnit}
+              allowNegative
+              placeholder="e.g., -25"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`adjust-reason-${inventoryItemId}`}>Reason</Label>
+            <Textarea
+              id={`adjust-reason-${inventoryItemId}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Moisture loss found at monthly count"
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdjust} disabled={submitting || !quantity || !reason.trim()}>
+            {submitting ? 'Saving...' : 'Save Adjustment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Transporter } from '@/hooks/useTransporters';
+
+interface AssignTransporterDialogProps {
+  shipmentId: string;
+  shipmentTitle: string;
+  transporters: Transporter[];
+  onAssigned?: () => void;
+}
+
+export const AssignTransporterDialog = ({
+  shipmentId,
+  shipmentTitle,
+  transporters,
+  onAssigned
+}: AssignTransporterDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [transporterId, setTransporterId] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleAssign = async () => {
+    if (!transporterId) {
+      toast({
+        title: "Error",
+        description: "Please select a transporter.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('assign_shipment_transporter', {
+        _shipment_id: shipmentId,
+        _transporter_id: transporterId
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Shipment Offered",
+        description: "The transporter has been asked to accept this load.",
+      });
+      setOpen(false);
+      setTransporterId('');
+      onAssigned?.();
+    } catch (error) {
+      console.error('Error assigning transporter:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to assign transporter.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">Assign</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Assign Transporter</DialogTitle>
+          <DialogDescription>
+            Offer "{shipmentTitle}" to a transporter. They can accept or decline the load.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor={`transporter-${shipmentId}`}>Transporter</Label>
+          <Select value={transporterId} onValueChange={setTransporterId}>
+            <SelectTrigger id={`transporter-${shipmentId}`}>
+              <SelectValue placeholder={transporters.length ? 'Select a transporter' : 'No transporters available'} />
+            </SelectTrigger>
+            <SelectContent>
+              {transporters.map((transporter) => (
+                <SelectItem key={transporter.id} value={transporter.id}>
+                  {transporter.full_name || transporter.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={submitting || !transporterId}>
+            {submitting ? 'Assigning...' : 'Offer Shipment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
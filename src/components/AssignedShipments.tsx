@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+import { ShipmentStatusBadge } from '@/components/ShipmentStatusBadge';
+import { ShipmentStatusMenu } from '@/components/ShipmentStatusMenu';
+import { ShipmentHistorySheet } from '@/components/ShipmentHistorySheet';
+import { Check, X } from 'lucide-react';
+
+interface AssignedShipmentsProps {
+  userId: string;
+  organizationId: string;
+}
+
+export const AssignedShipments = ({ userId, organizationId }: AssignedShipmentsProps) => {
+  const [shipments, setShipments] = useState<Tables<'shipments'>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchAssignedShipments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('shipments')
+        .select('*')
+        .eq('assigned_transporter_id', userId)
+        .eq('organization_id', organizationId)
+        .order('assigned_at', { ascending: false });
+
+      if (error) throw error;
+      setShipments(data || []);
+    } catch (error) {
+      console.error('Error fetching assigned shipments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load assigned shipments. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, organizationId, toast]);
+
+  useEffect(() => {
+    fetchAssignedShipments();
+  }, [fetchAssignedShipments]);
+
+  const handleRespond = async (shipmentId: string, accept: boolean) => {
+    setRespondingId(shipmentId);
+    try {
+      const { error } = await supabase.rpc('respond_to_shipment_assignment', {
+        _shipment_id: shipmentId,
+        _accept: accept
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: accept ? "Load Accepted" : "Load Declined",
+        description: accept
+          ? "Mark the shipment as picked up once it is loaded."
+          : "The shipment has been returned to the sender.",
+      });
+      fetchAssignedShipments();
+    } catch (error) {
+      console.error('Error responding to assignment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to respond to assignment.",
+        variant: "destructive"
+      });
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const offered = shipments.filter(s => s.assignment_status === 'offered');
+  const active = shipments.filter(s => s.assignment_status === 'accepted');
+
+  return (
+    <div className="p-6 bg-background min-h-screen space-y-6">
+      <h1 className="text-3xl font-bold text-foreground">Assigned Shipments</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Offers</CardTitle>
+          <CardDescription>Loads offered to you that are waiting for a response</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {offered.length === 0 ? (
+            <p className="text-muted-foreground">No pending offers.</p>
+          ) : (
+            <div className="space-y-4">
+              {offered.map((shipment) => (
+                <div key={shipment.id} className="flex flex-col md:flex-row md:items-center gap-4 p-4 border rounded-lg">
+                  <div className="flex-1">
+                    <Link to={`/shipments/${shipment.id}`} className="block font-medium text-foreground hover:underline">
+                      {shipment.title}
+                    </Link>
+                    <p className="text-sm text-muted-foreground">
+                      {shipment.origin_address || 'N/A'} → {shipment.destination_address || 'N/A'}
+                    </p>
+                    {shipment.assigned_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Offered: {new Date(shipment.assigned_at).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleRespond(shipment.id, true)}
+                      disabled={respondingId === shipment.id}
+                    >
+                      <Check className="mr-1 h-4 w-4" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRespond(shipment.id, false)}
+                      disabled={respondingId === shipment.id}
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Loads</CardTitle>
+          <CardDescription>Accepted shipments and their delivery status</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {active.length === 0 ? (
+            <p className="text-muted-foreground">No accepted shipments yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left p-2 text-muted-foreground">Title</th>
+                    <th className="text-left p-2 text-muted-foreground">Origin</th>
+                    <th className="text-left p-2 text-muted-foreground">Destination</th>
+                    <th className="text-left p-2 text-muted-foreground">Status</th>
+                    <th className="text-right p-2 text-muted-foreground">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {active.map((shipment) => (
+                    <tr key={shipment.id} className="border-b border-border hover:bg-muted/50">
+                      <td className="p-2 font-medium text-foreground">
+                        <Link to={`/shipments/${shipment.id}`} className="hover:underline">
+                          {shipment.title}
+                        </Link>
+                      </td>
+                      <td className="p-2 text-muted-foreground">{shipment.origin_address || 'N/A'}</td>
+                      <td className="p-2 text-muted-foreground">{shipment.destination_address || 'N/A'}</td>
+                      <td className="p-2">
+                        <ShipmentStatusBadge status={shipment.status} />
+                      </td>
+                      <td className="p-2 text-right">
+                        <div className="flex justify-end gap-2">
+                          <ShipmentStatusMenu
+                            shipmentId={shipment.id}
+                            status={shipment.status}
+                            userRole="transporter"
+                            onStatusChange={() => fetchAssignedShipments()}
+                          />
+                          <ShipmentHistorySheet shipmentId={shipment.id} shipmentTitle={shipment.title} />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
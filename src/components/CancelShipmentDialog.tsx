@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface CancelShipmentDialogProps {
+  shipmentId: string;
+  shipmentTitle: string;
+  onCancelled?: () => void;
+}
+
+export const CancelShipmentDialog = ({ shipmentId, shipmentTitle, onCancelled }: CancelShipmentDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleCancel = async () => {
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please give a reason for cancelling.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('cancel_shipment', {
+        _shipment_id: shipmentId,
+        _reason: reason.trim()
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Shipment Cancelled",
+        description: `"${shipmentTitle}" has been cancelled.`,
+      });
+      setOpen(false);
+      setReason('');
+      onCancelled?.();
+    } catch (error) {
+      console.error('Error cancelling shipment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel shipment.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Cancel shipment">
+          <Ban className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Shipment</DialogTitle>
+          <DialogDescription>
+            Cancelling "{shipmentTitle}" cannot be undone. The reason is recorded in the shipment history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor={`cancel-reason-${shipmentId}`}>Reason</Label>
+          <Textarea
+            id={`cancel-reason-${shipmentId}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g., Buyer withdrew the order"
+            maxLength={500}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Keep Shipment
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={submitting || !reason.trim()}>
+            {submitting ? 'Cancelling...' : 'Cancel Shipment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,177 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CargoFormState, Commodity, WEIGHT_UNITS, WEIGHT_UNIT_LABELS, WeightUnit } from '@/lib/cargo';
+import { SeedLot } from '@/lib/seedLots';
+
+const NO_LOT = 'none';
+
+interface CargoFieldsProps {
+  idPrefix: string;
+  value: CargoFormState;
+  commodities: Commodity[];
+  lots?: SeedLot[];
+  onChange: (value: CargoFormState) => void;
+}
+
+export const CargoFields = ({ idPrefix, value, commodities, lots, onChange }: CargoFieldsProps) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value: fieldValue } = e.target;
+    onChange({ ...value, [name]: fieldValue });
+  };
+
+  // Picking a lot fixes the seed type; changing the seed type drops a lot that no longer matches
+  const handleCommodityChange = (commodity_code: string) => {
+    const lot = lots?.find((l) => l.id === value.lot_id);
+    onChange({
+      ...value,
+      commodity_code,
+      lot_id: lot && lot.commodity_code !== commodity_code ? '' : value.lot_id
+    });
+  };
+
+  const handleLotChange = (lotId: string) => {
+    if (lotId === NO_LOT) {
+      onChange({ ...value, lot_id: '' });
+      return;
+    }
+    const lot = lots?.find((l) => l.id === lotId);
+    onChange({ ...value, lot_id: lotId, commodity_code: lot?.commodity_code ?? value.commodity_code });
+  };
+
+  const lotOptions = (lots ?? []).filter(
+    (lot) => !value.commodity_code || lot.commodity_code === value.commodity_code || lot.id === value.lot_id
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="md:col-span-2">
+        <Label htmlFor={`${idPrefix}-commodity`}>Seed Type</Label>
+        <Select
+          value={value.commodity_code}
+          onValueChange={handleCommodityChange}
+        >
+          <SelectTrigger id={`${idPrefix}-commodity`}>
+            <SelectValue placeholder="Select seed type" />
+          </SelectTrigger>
+          <SelectContent>
+            {commodities.map((commodity) => (
+              <SelectItem key={commodity.code} value={commodity.code}>
+                {commodity.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {lots && (
+        <div className="md:col-span-2">
+          <Label htmlFor={`${idPrefix}-lot`}>Seed Lot</Label>
+          <Select value={value.lot_id || NO_LOT} onValueChange={handleLotChange}>
+            <SelectTrigger id={`${idPrefix}-lot`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_LOT}>No lot recorded</SelectItem>
+              {lotOptions.map((lot) => (
+                <SelectItem key={lot.id} value={lot.id}>
+                  {lot.lot_code}{lot.variety ? ` · ${lot.variety}` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor={`${idPrefix}-net_weight`}>Net Weight</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`${idPrefix}-net_weight`}
+            name="net_weight"
+            type="number"
+            min="0"
+            step="0.001"
+            value={value.net_weight}
+            onChange={handleInputChange}
+            placeholder="e.g., 40"
+            required
+          />
+          <Select
+            value={value.weight_unit}
+            onValueChange={(weight_unit) => onChange({ ...value, weight_unit: weight_unit as WeightUnit })}
+          >
+            <SelectTrigger className="w-32" aria-label="Weight unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEIGHT_UNITS.map((unit) => (
+                <SelectItem key={unit} value={unit}>
+                  {WEIGHT_UNIT_LABELS[unit]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-bag_count`}>Bags</Label>
+        <Input
+          id={`${idPrefix}-bag_count`}
+          name="bag_count"
+          type="number"
+          min="0"
+          step="1"
+          value={value.bag_count}
+          onChange={handleInputChange}
+          placeholder="e.g., 80"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-moisture_pct`}>Moisture (%)</Label>
+        <Input
+          id={`${idPrefix}-moisture_pct`}
+          name="moisture_pct"
+          type="number"
+          min="0"
+          max="100"
+          step="0.01"
+          value={value.moisture_pct}
+          onChange={handleInputChange}
+          placeholder="e.g., 8.5"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-oil_content_pct`}>Oil Content (%)</Label>
+        <Input
+          id={`${idPrefix}-oil_content_pct`}
+          name="oil_content_pct"
+          type="number"
+          min="0"
+          max="100"
+          step="0.01"
+          value={value.oil_content_pct}
+          onChange={handleInputChange}
+          placeholder="e.g., 42"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-rate_per_quintal`}>Rate (per quintal)</Label>
+        <Input
+          id={`${idPrefix}-rate_per_quintal`}
+          name="rate_per_quintal"
+          type="number"
+          min="0"
+          step="0.01"
+          value={value.rate_per_quintal}
+          onChange={handleInputChange}
+          placeholder="e.g., 5650"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import { ReactNode, useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface CreateOrganizationDialogProps {
+  trigger?: ReactNode;
+  onCreated?: (organizationId: string) => void;
+}
+
+// Platform operators only; the database rejects everyone else
+export const CreateOrganizationDialog = ({ trigger, onCreated }: CreateOrganizationDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleCreate = async () => {
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('create_organization', { _name: name.trim() });
+
+      if (error) throw error;
+
+      toast({
+        title: "Organization Created",
+        description: `Appoint an administrator for "${name.trim()}" from the Users page.`,
+      });
+      setOpen(false);
+      setName('');
+      onCreated?.(data);
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create organization.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button variant="ghost" size="sm" className="h-7 px-2" title="New organization">
+            <Plus className="h-4 w-4" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Organization</DialogTitle>
+          <DialogDescription>
+            Each organization has its own members, shipments, warehouses and reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="organization-name">Name</Label>
+          <Input
+            id="organization-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Sikar Mustard Growers FPO"
+            maxLength={120}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={submitting || !name.trim()}>
+            {submitting ? 'Creating...' : 'Create Organization'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
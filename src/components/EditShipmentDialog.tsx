@@ -0,0 +1,275 @@
+import { useState, useRef, useCallback, useMemo } from 'react';
+import { Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import MapView from '@/components/MapView';
+import { AddressAutocomplete } from '@/components/AddressAutocomplete';
+import { CargoFields } from '@/components/CargoFields';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAddressLookup } from '@/hooks/useAddressLookup';
+import { Commodity, cargoFromShipment, toCargoPayload, validateCargo } from '@/lib/cargo';
+import { SeedLot } from '@/lib/seedLots';
+import { RouteEnd, routeEndIcon } from '@/lib/shipmentStatus';
+
+interface EditShipmentDialogProps {
+  shipment: Tables<'shipments'>;
+  commodities: Commodity[];
+  lots?: SeedLot[];
+  onSaved?: () => void;
+}
+
+const toFormState = (shipment: Tables<'shipments'>) => ({
+  title: shipment.title,
+  origin_address: shipment.origin_address || '',
+  destination_address: shipment.destination_address || '',
+  origin_lat: shipment.origin_lat,
+  origin_lng: shipment.origin_lng,
+  destination_lat: shipment.destination_lat,
+  destination_lng: shipment.destination_lng
+});
+
+export const EditShipmentDialog = ({ shipment, commodities, lots, onSaved }: EditShipmentDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(() => toFormState(shipment));
+  const [cargo, setCargo] = useState(() => cargoFromShipment(shipment));
+  const [pointMode, setPointMode] = useState<RouteEnd>('origin');
+  const [saving, setSaving] = useState(false);
+  const pointModeRef = useRef<RouteEnd>('origin');
+  const { toast } = useToast();
+  const lookupAddress = useAddressLookup();
+
+  const selectPointMode = (mode: RouteEnd) => {
+    pointModeRef.current = mode;
+    setPointMode(mode);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setForm(toFormState(shipment));
+      setCargo(cargoFromShipment(shipment));
+      selectPointMode('origin');
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddressChange = (mode: RouteEnd) => (address: string) => {
+    setForm((prev) => ({ ...prev, [`${mode}_address`]: address }));
+  };
+
+  const handleAddressSelect = (mode: RouteEnd) => (address: string, lat: number, lng: number) => {
+    setForm((prev) => ({ ...prev, [`${mode}_address`]: address, [`${mode}_lat`]: lat, [`${mode}_lng`]: lng }));
+  };
+
+  // Moves one end of the route, then fills in the address found at the new point
+  const movePoint = useCallback(async (mode: RouteEnd, lat: number, lng: number) => {
+    setForm((prev) => ({ ...prev, [`${mode}_lat`]: lat, [`${mode}_lng`]: lng }));
+    const address = await lookupAddress(mode, { lat, lng });
+    if (address) {
+      setForm((prev) => ({ ...prev, [`${mode}_address`]: address }));
+    }
+  }, [lookupAddress]);
+
+  // Stable so the map is not re-initialised on every keystroke
+  const handleMapClick = useCallback((lat: number, lng: number) => {
+    movePoint(pointModeRef.current, lat, lng);
+  }, [movePoint]);
+
+  const handleMarkerDrag = useCallback((id: string, lat: number, lng: number) => {
+    if (id === 'origin' || id === 'destination') {
+      movePoint(id, lat, lng);
+    }
+  }, [movePoint]);
+
+  const mapMarkers = useMemo(() => {
+    const markers = [];
+    if (form.origin_lat !== null && form.origin_lng !== null) {
+      markers.push({ id: 'origin', draggable: true, icon: routeEndIcon('origin', shipment.status), lat: Number(form.origin_lat), lng: Number(form.origin_lng), title: "Origin", info: "Pickup location" });
+    }
+    if (form.destination_lat !== null && form.destination_lng !== null) {
+      markers.push({ id: 'destination', draggable: true, icon: routeEndIcon('destination', shipment.status), lat: Number(form.destination_lat), lng: Number(form.destination_lng), title: "Destination", info: "Drop-off location" });
+    }
+    return markers;
+  }, [form.origin_lat, form.origin_lng, form.destination_lat, form.destination_lng, shipment.status]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.title.trim() || !form.origin_address.trim() || !form.destination_address.trim()) {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const cargoError = validateCargo(cargo);
+    if (cargoError) {
+      toast({
+        title: "Error",
+        description: cargoError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('shipments')
+        .update({
+          title: form.title.trim(),
+          origin_address: form.origin_address.trim(),
+          destination_address: form.destination_address.trim(),
+          origin_lat: form.origin_lat,
+          origin_lng: form.origin_lng,
+          destination_lat: form.destination_lat,
+          destination_lng: form.destination_lng,
+          ...toCargoPayload(cargo)
+        })
+        .eq('id', shipment.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Shipment updated successfully!",
+      });
+      setOpen(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Error updating shipment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update shipment. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Edit shipment">
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Shipment</DialogTitle>
+          <DialogDescription>
+            Shipments can be edited until they are assigned to a transporter.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor={`edit-title-${shipment.id}`}>Shipment Title</Label>
+            <Input
+              id={`edit-title-${shipment.id}`}
+              name="title"
+              value={form.title}
+              onChange={handleInputChange}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`edit-origin-${shipment.id}`}>Origin Address</Label>
+              <AddressAutocomplete
+                id={`edit-origin-${shipment.id}`}
+                name="origin_address"
+                value={form.origin_address}
+                onChange={handleAddressChange('origin')}
+                onSelect={handleAddressSelect('origin')}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor={`edit-destination-${shipment.id}`}>Destination Address</Label>
+              <AddressAutocomplete
+                id={`edit-destination-${shipment.id}`}
+                name="destination_address"
+                value={form.destination_address}
+                onChange={handleAddressChange('destination')}
+                onSelect={handleAddressSelect('destination')}
+                required
+              />
+            </div>
+          </div>
+
+          <CargoFields
+            idPrefix={`edit-${shipment.id}`}
+            value={cargo}
+            commodities={commodities}
+            lots={lots}
+            onChange={setCargo}
+          />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">Click the map to move the selected point, or drag a marker.</p>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={pointMode === 'origin' ? 'default' : 'outline'}
+                  onClick={() => selectPointMode('origin')}
+                >
+                  Origin
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={pointMode === 'destination' ? 'default' : 'outline'}
+                  onClick={() => selectPointMode('destination')}
+                >
+                  Destination
+                </Button>
+              </div>
+            </div>
+            {open && (
+              <MapView
+                height="300px"
+                markers={mapMarkers}
+                onMapClick={handleMapClick}
+                onMarkerDrag={handleMarkerDrag}
+                center={{ lat: 20.5937, lng: 78.9629 }}
+                zoom={5}
+              />
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
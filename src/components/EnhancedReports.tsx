@@ -1,77 +1,224 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { flushSync } from 'react-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { UserRole } from '@/hooks/useUserRole';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
-import { TrendingUp, Package, Truck, Users, MapPin, Clock } from 'lucide-react';
+import { ShipmentStatusBadge } from '@/components/ShipmentStatusBadge';
+import { ReportFilterBar } from '@/components/ReportFilterBar';
+import { ExportMenu } from '@/components/ExportMenu';
+import { SHIPMENT_STATUSES, SHIPMENT_STATUS_COLORS, SHIPMENT_STATUS_LABELS, ShipmentStatus } from '@/lib/shipmentStatus';
+import { describeShipmentEvent } from '@/lib/shipmentEvents';
+import { useCommodities } from '@/hooks/useCommodities';
+import { useFarmers } from '@/hooks/useFarmers';
+import { useTransporters } from '@/hooks/useTransporters';
+import { CURRENCY, formatCurrency, formatTonnes } from '@/lib/cargo';
+import { ExportChart, ExportFormat, exportDocument, exportFilename } from '@/lib/exporters';
+import {
+  ReportFilters,
+  describeReportFilters,
+  hasReportFilters,
+  parseReportFilters,
+  sanitizeRegion,
+  toReportFilterArgs,
+  toReportSearchParams
+} from '@/lib/reportFilters';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { addDays, format, parseISO } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
+import { TrendingUp, Package, Truck, Users, MapPin, Clock, Scale, IndianRupee } from 'lucide-react';
+
+type ReportPeriod = 'month' | 'week';
+
+const REPORT_PERIODS: Record<ReportPeriod, { label: string; count: number; format: string }> = {
+  month: { label: 'Monthly', count: 6, format: 'MMM yyyy' },
+  week: { label: 'Weekly', count: 12, format: 'dd MMM' }
+};
+
+interface PeriodStat {
+  label: string;
+  shipments: number;
+  delivered: number;
+  tonnes: number;
+  revenue: number;
+}
+
+interface ChartSize {
+  width: number;
+  height: number;
+}
+
+const EXPORT_CHART_SIZE: ChartSize = { width: 900, height: 360 };
+
+interface CommodityTotal {
+  code: string;
+  tonnes: number;
+  shipments: number;
+}
+
+interface RecentActivity {
+  id: string;
+  title: string;
+  description: string;
+  actor_name: string | null;
+  status: ShipmentStatus;
+  note: string | null;
+  created_at: string;
+}
 
 interface EnhancedReportsProps {
   userRole: UserRole;
   userId: string;
+  organizationId: string;
 }
 
-export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
+export const EnhancedReports = ({ userRole, userId, organizationId }: EnhancedReportsProps) => {
   const [reportData, setReportData] = useState<any>({
     totalShipments: 0,
     pendingShipments: 0,
     completedShipments: 0,
     inTransitShipments: 0,
-    monthlyStats: [],
+    totalWeightKg: 0,
+    deliveredValue: 0,
+    commodityTotals: [],
     statusDistribution: [],
     recentActivity: []
   });
+  const [period, setPeriod] = useState<ReportPeriod>('month');
+  const [periodStats, setPeriodStats] = useState<PeriodStat[]>([]);
   const [loading, setLoading] = useState(true);
+  const [exportingCharts, setExportingCharts] = useState(false);
+  const exportChartsRef = useRef<HTMLDivElement>(null);
+  const { commodities, getCommodityName } = useCommodities();
+  const { farmers, getFarmerName } = useFarmers(organizationId, userRole === 'administrator');
+  const { transporters, getTransporterName } = useTransporters(organizationId, userRole !== 'transporter');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseReportFilters(searchParams), [searchParams]);
+  const filterKey = toReportSearchParams(filters).toString();
+
+  const setFilters = (next: ReportFilters) => setSearchParams(toReportSearchParams(next), { replace: true });
 
   useEffect(() => {
     fetchReportData();
-  }, [userId, userRole]);
+  }, [userId, userRole, organizationId, filterKey]);
 
-  const fetchReportData = async () => {
-    try {
-      setLoading(true);
-      
-      // Fetch shipments based on user role
-      let shipmentsQuery = supabase.from('shipments').select('*');
-      
-      // Role-based filtering
-      if (userRole !== 'administrator') {
-        shipmentsQuery = shipmentsQuery.eq('user_id', userId);
+  useEffect(() => {
+    const fetchPeriodStats = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_shipment_period_stats', {
+          ...toReportFilterArgs(filters),
+          _organization_id: organizationId,
+          _role: userRole,
+          _period: period,
+          _periods: REPORT_PERIODS[period].count
+        });
+
+        if (error) throw error;
+
+        setPeriodStats((data || []).map(row => ({
+          label: format(parseISO(row.period_start), REPORT_PERIODS[period].format),
+          shipments: Number(row.shipments),
+          delivered: Number(row.delivered),
+          tonnes: Math.round(Number(row.delivered_kg) / 10) / 100,
+          revenue: Number(row.revenue)
+        })));
+      } catch (error) {
+        console.error('Error fetching period stats:', error);
+        setPeriodStats([]);
       }
+    };
+
+    fetchPeriodStats();
+  }, [userId, userRole, organizationId, period, filters]);
 
-      const { data: shipments, error } = await shipmentsQuery;
+  const fetchReportData = async () => {
+    try {
+      // Aggregated server-side for the active role, like the activity below
+      const { data: summary, error } = await supabase.rpc('get_shipment_report_summary', {
+        ...toReportFilterArgs(filters),
+        _organization_id: organizationId,
+        _role: userRole
+      });
 
       if (error) throw error;
 
-      // Process data for reports
-      const totalShipments = shipments?.length || 0;
-      const pendingShipments = shipments?.filter(s => s.status === 'pending').length || 0;
-      const completedShipments = shipments?.filter(s => s.status === 'completed').length || 0;
-      const inTransitShipments = shipments?.filter(s => s.status === 'in-transit').length || 0;
+      const rows = summary || [];
+      const countByStatus = (...statuses: string[]) =>
+        rows.filter(row => statuses.includes(row.status)).reduce((sum, row) => sum + Number(row.shipments), 0);
+      const totalShipments = rows.reduce((sum, row) => sum + Number(row.shipments), 0);
+      const pendingShipments = countByStatus('pending', 'assigned');
+      const completedShipments = countByStatus('delivered', 'completed');
+      const inTransitShipments = countByStatus('picked-up', 'in-transit');
+      const deliveredValue = rows
+        .filter(row => ['delivered', 'completed'].includes(row.status))
+        .reduce((sum, row) => sum + Number(row.cargo_value), 0);
 
       // Status distribution for pie chart
-      const statusDistribution = [
-        { name: 'Pending', value: pendingShipments, color: '#f59e0b' },
-        { name: 'In Transit', value: inTransitShipments, color: '#3b82f6' },
-        { name: 'Completed', value: completedShipments, color: '#10b981' }
-      ].filter(item => item.value > 0);
-
-      // Monthly statistics (mock data for demonstration)
-      const monthlyStats = [
-        { month: 'Jan', shipments: Math.floor(totalShipments * 0.1), revenue: 12000 },
-        { month: 'Feb', shipments: Math.floor(totalShipments * 0.15), revenue: 15000 },
-        { month: 'Mar', shipments: Math.floor(totalShipments * 0.2), revenue: 18000 },
-        { month: 'Apr', shipments: Math.floor(totalShipments * 0.25), revenue: 22000 },
-        { month: 'May', shipments: Math.floor(totalShipments * 0.3), revenue: 28000 }
-      ];
-
-      // Recent activity
-      const recentActivity = shipments?.slice(0, 5).map(shipment => ({
-        id: shipment.id,
-        title: shipment.title,
-        status: shipment.status,
-        created_at: shipment.created_at
+      const statusDistribution = SHIPMENT_STATUSES.map(status => ({
+        name: SHIPMENT_STATUS_LABELS[status],
+        value: countByStatus(status),
+        color: SHIPMENT_STATUS_COLORS[status]
+      })).filter(item => item.value > 0);
+
+      // Cargo totals exclude shipments that will never move
+      const activeCargo = rows.filter(row => !['cancelled', 'rejected'].includes(row.status));
+      const totalWeightKg = activeCargo.reduce((sum, row) => sum + Number(row.net_weight_kg), 0);
+
+      const commodityTotalsMap = new Map<string, CommodityTotal>();
+      activeCargo.forEach(row => {
+        if (!row.commodity_code) return;
+        const entry = commodityTotalsMap.get(row.commodity_code) ?? { code: row.commodity_code, tonnes: 0, shipments: 0 };
+        entry.tonnes += Number(row.net_weight_kg) / 1000;
+        entry.shipments += Number(row.shipments);
+        commodityTotalsMap.set(row.commodity_code, entry);
+      });
+      const commodityTotals = Array.from(commodityTotalsMap.values())
+        .map(entry => ({ ...entry, tonnes: Math.round(entry.tonnes * 100) / 100 }))
+        .sort((a, b) => b.tonnes - a.tonnes);
+
+      // Recent activity from the shipment event history
+      let eventsQuery = supabase
+        .from('shipment_events')
+        .select('*, shipments!inner(title, status, user_id, assigned_transporter_id, commodity_code, created_at)')
+        .eq('shipments.organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (userRole === 'transporter') {
+        eventsQuery = eventsQuery.eq('shipments.assigned_transporter_id', userId);
+      } else if (userRole !== 'administrator') {
+        eventsQuery = eventsQuery.eq('shipments.user_id', userId);
+      }
+
+      // Only show activity on shipments that match the report filters
+      if (filters.from) eventsQuery = eventsQuery.gte('shipments.created_at', filters.from);
+      if (filters.to) eventsQuery = eventsQuery.lt('shipments.created_at', format(addDays(parseISO(filters.to), 1), 'yyyy-MM-dd'));
+      if (filters.statuses.length > 0) eventsQuery = eventsQuery.in('shipments.status', filters.statuses);
+      if (filters.commodity) eventsQuery = eventsQuery.eq('shipments.commodity_code', filters.commodity);
+      if (filters.farmer) eventsQuery = eventsQuery.eq('shipments.user_id', filters.farmer);
+      if (filters.transporter) eventsQuery = eventsQuery.eq('shipments.assigned_transporter_id', filters.transporter);
+      const region = sanitizeRegion(filters.region);
+      if (region) {
+        eventsQuery = eventsQuery.or(
+          `origin_address.ilike.*${region}*,destination_address.ilike.*${region}*`,
+          { referencedTable: 'shipments' }
+        );
+      }
+
+      const { data: events, error: eventsError } = await eventsQuery;
+
+      if (eventsError) throw eventsError;
+
+      const recentActivity = events?.map(event => ({
+        id: event.id,
+        title: event.shipments.title,
+        description: describeShipmentEvent(event),
+        actor_name: event.actor_name,
+        status: event.shipments.status,
+        note: event.note,
+        created_at: event.created_at
       })) || [];
 
       setReportData({
@@ -79,7 +226,9 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
         pendingShipments,
         completedShipments,
         inTransitShipments,
-        monthlyStats,
+        totalWeightKg,
+        deliveredValue,
+        commodityTotals,
         statusDistribution,
         recentActivity
       });
@@ -96,8 +245,8 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
       <div className="p-6 bg-background min-h-screen">
         <div className="animate-pulse space-y-4">
           <div className="h-8 bg-muted rounded w-64"></div>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {[1, 2, 3, 4].map(i => (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
+            {[1, 2, 3, 4, 5, 6].map(i => (
               <div key={i} className="h-32 bg-muted rounded"></div>
             ))}
           </div>
@@ -119,6 +268,162 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
     }
   };
 
+  // Charts take a fixed size when drawn offscreen for the PDF export, otherwise they fill their container
+  const renderStatusChart = (size?: ChartSize) => (
+    <PieChart {...size}>
+      <Pie
+        data={reportData.statusDistribution}
+        cx="50%"
+        cy="50%"
+        labelLine={false}
+        label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+        outerRadius={80}
+        fill="#8884d8"
+        dataKey="value"
+        isAnimationActive={!size}
+      >
+        {reportData.statusDistribution.map((entry: any, index: number) => (
+          <Cell key={`cell-${index}`} fill={entry.color} />
+        ))}
+      </Pie>
+      <Tooltip />
+    </PieChart>
+  );
+
+  const renderPeriodChart = (size?: ChartSize) => (
+    <BarChart {...size} data={periodStats}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis dataKey="label" />
+      <YAxis allowDecimals={false} />
+      <Tooltip />
+      <Legend />
+      <Bar dataKey="shipments" name="Created" fill="hsl(var(--primary))" isAnimationActive={!size} />
+      <Bar dataKey="delivered" name="Delivered" fill={SHIPMENT_STATUS_COLORS.delivered} isAnimationActive={!size} />
+    </BarChart>
+  );
+
+  const renderCommodityChart = (size?: ChartSize) => (
+    <BarChart
+      {...size}
+      data={reportData.commodityTotals.map((entry: CommodityTotal) => ({
+        ...entry,
+        name: getCommodityName(entry.code)
+      }))}
+    >
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis dataKey="name" />
+      <YAxis />
+      <Tooltip />
+      <Bar dataKey="tonnes" name="Tonnes" fill="hsl(var(--primary))" isAnimationActive={!size} />
+    </BarChart>
+  );
+
+  const renderTrendChart = (size?: ChartSize) => (
+    <LineChart {...size} data={periodStats}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis dataKey="label" />
+      <YAxis yAxisId="volume" />
+      <YAxis
+        yAxisId="revenue"
+        orientation="right"
+        tickFormatter={(value: number) => formatCurrency(value)}
+        width={90}
+      />
+      <Tooltip
+        formatter={(value: number, name: string) => (name === 'Delivered value' ? formatCurrency(value) : value)}
+      />
+      <Legend />
+      <Line yAxisId="volume" type="monotone" dataKey="shipments" name="Shipments" stroke="hsl(var(--secondary))" strokeWidth={2} isAnimationActive={!size} />
+      <Line yAxisId="volume" type="monotone" dataKey="tonnes" name="Delivered (t)" stroke={SHIPMENT_STATUS_COLORS.delivered} strokeWidth={2} isAnimationActive={!size} />
+      <Line yAxisId="revenue" type="monotone" dataKey="revenue" name="Delivered value" stroke="hsl(var(--primary))" strokeWidth={2} isAnimationActive={!size} />
+    </LineChart>
+  );
+
+  const exportCharts = [
+    ...(reportData.statusDistribution.length > 0
+      ? [{ title: 'Shipment Status Distribution', render: renderStatusChart }]
+      : []),
+    { title: `${REPORT_PERIODS[period].label} Shipments`, render: renderPeriodChart },
+    ...(reportData.commodityTotals.length > 0
+      ? [{ title: 'Volume by Seed Type', render: renderCommodityChart }]
+      : []),
+    { title: 'Performance Trends', render: renderTrendChart }
+  ];
+
+  // Inactive tabs are not mounted, so the PDF draws every chart offscreen at a fixed size
+  const captureCharts = (): ExportChart[] => {
+    flushSync(() => setExportingCharts(true));
+    const containers = Array.from(
+      exportChartsRef.current?.querySelectorAll<HTMLElement>('[data-export-chart]') ?? []
+    );
+    return containers.flatMap((container) => {
+      const svg = container.querySelector<SVGSVGElement>('svg.recharts-surface');
+      return svg ? [{ title: container.dataset.exportChart ?? '', svg }] : [];
+    });
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      await exportDocument({
+        filename: exportFilename('shipment-report'),
+        title: getRoleBasedTitle(),
+        subtitle: describeReportFilters(filters, {
+          commodity: getCommodityName(filters.commodity),
+          farmer: filters.farmer ? getFarmerName(filters.farmer) : null,
+          transporter: filters.transporter ? getTransporterName(filters.transporter) : null
+        }),
+        charts: format === 'pdf' ? captureCharts() : [],
+        tables: [
+          {
+            title: 'Summary',
+            columns: ['Metric', 'Value'],
+            rows: [
+              ['Total shipments', reportData.totalShipments],
+              ['In transit', reportData.inTransitShipments],
+              ['Completed', reportData.completedShipments],
+              ['Pending', reportData.pendingShipments],
+              ['Net weight (t)', Math.round(reportData.totalWeightKg / 10) / 100],
+              [`Delivered value (${CURRENCY})`, reportData.deliveredValue]
+            ]
+          },
+          {
+            title: 'Status Distribution',
+            columns: ['Status', 'Shipments'],
+            rows: reportData.statusDistribution.map((entry: { name: string; value: number }) => [entry.name, entry.value])
+          },
+          {
+            title: 'Volume by Seed Type',
+            columns: ['Seed type', 'Shipments', 'Net weight (t)'],
+            rows: reportData.commodityTotals.map((entry: CommodityTotal) => [
+              getCommodityName(entry.code),
+              entry.shipments,
+              entry.tonnes
+            ])
+          },
+          {
+            title: `${REPORT_PERIODS[period].label} Trends`,
+            columns: ['Period', 'Created', 'Delivered', 'Delivered (t)', `Delivered value (${CURRENCY})`],
+            rows: periodStats.map((stat) => [stat.label, stat.shipments, stat.delivered, stat.tonnes, stat.revenue])
+          },
+          {
+            title: 'Recent Activity',
+            columns: ['Date', 'Shipment', 'Activity', 'By', 'Status', 'Note'],
+            rows: reportData.recentActivity.map((activity: RecentActivity) => [
+              new Date(activity.created_at).toLocaleString(),
+              activity.title,
+              activity.description,
+              activity.actor_name,
+              SHIPMENT_STATUS_LABELS[activity.status],
+              activity.note
+            ])
+          }
+        ]
+      }, format);
+    } finally {
+      setExportingCharts(false);
+    }
+  };
+
   return (
     <div className="p-6 bg-background min-h-screen space-y-6">
       <div className="flex justify-between items-center">
@@ -133,10 +438,20 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
             )}
           </div>
         </div>
+        <ExportMenu onExport={handleExport} />
       </div>
 
+      <ReportFilterBar
+        userRole={userRole}
+        filters={filters}
+        commodities={commodities}
+        farmers={farmers}
+        transporters={transporters}
+        onChange={setFilters}
+      />
+
       {/* Key Metrics Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Shipments</CardTitle>
@@ -145,7 +460,9 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
           <CardContent>
             <div className="text-2xl font-bold">{reportData.totalShipments}</div>
             <p className="text-xs text-muted-foreground">
-              {userRole === 'administrator' ? 'All shipments' : 'Your shipments'}
+              {hasReportFilters(filters)
+                ? 'Matching the filters'
+                : userRole === 'administrator' ? 'All shipments' : 'Your shipments'}
             </p>
           </CardContent>
         </Card>
@@ -182,6 +499,28 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
             <p className="text-xs text-muted-foreground">Awaiting dispatch</p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Net Weight</CardTitle>
+            <Scale className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatTonnes(reportData.totalWeightKg)}</div>
+            <p className="text-xs text-muted-foreground">Excluding cancelled and rejected</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Delivered Value</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(reportData.deliveredValue)}</div>
+            <p className="text-xs text-muted-foreground">Shipments with an agreed rate</p>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Charts and Analytics */}
@@ -206,23 +545,7 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
               <CardContent>
                 {reportData.statusDistribution.length > 0 ? (
                   <ResponsiveContainer width="100%" height={300}>
-                    <PieChart>
-                      <Pie
-                        data={reportData.statusDistribution}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={false}
-                        label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
-                        outerRadius={80}
-                        fill="#8884d8"
-                        dataKey="value"
-                      >
-                        {reportData.statusDistribution.map((entry: any, index: number) => (
-                          <Cell key={`cell-${index}`} fill={entry.color} />
-                        ))}
-                      </Pie>
-                      <Tooltip />
-                    </PieChart>
+                    {renderStatusChart()}
                   </ResponsiveContainer>
                 ) : (
                   <div className="flex items-center justify-center h-[300px] text-muted-foreground">
@@ -232,43 +555,62 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
               </CardContent>
             </Card>
 
-            {/* Monthly Statistics */}
+            {/* Shipments per period */}
             <Card>
               <CardHeader>
-                <CardTitle>Monthly Shipments</CardTitle>
-                <CardDescription>Shipment volume over time</CardDescription>
+                <CardTitle>{REPORT_PERIODS[period].label} Shipments</CardTitle>
+                <CardDescription>Shipments created and delivered per {period}</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={reportData.monthlyStats}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="month" />
-                    <YAxis />
-                    <Tooltip />
-                    <Bar dataKey="shipments" fill="hsl(var(--primary))" />
-                  </BarChart>
+                  {renderPeriodChart()}
                 </ResponsiveContainer>
               </CardContent>
             </Card>
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Volume by Seed Type</CardTitle>
+              <CardDescription>Net weight in tonnes per commodity</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {reportData.commodityTotals.length > 0 ? (
+                <ResponsiveContainer width="100%" height={300}>
+                  {renderCommodityChart()}
+                </ResponsiveContainer>
+              ) : (
+                <div className="flex items-center justify-center h-[300px] text-muted-foreground">
+                  No cargo data available
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="trends" className="space-y-4">
           <Card>
-            <CardHeader>
-              <CardTitle>Performance Trends</CardTitle>
-              <CardDescription>Revenue and shipment trends over time</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Performance Trends</CardTitle>
+                <CardDescription>Shipments created, tonnes delivered and delivered value per {period}</CardDescription>
+              </div>
+              <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+                <SelectTrigger className="w-32" aria-label="Report period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REPORT_PERIODS) as ReportPeriod[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {REPORT_PERIODS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={400}>
-                <LineChart data={reportData.monthlyStats}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="month" />
-                  <YAxis />
-                  <Tooltip />
-                  <Line type="monotone" dataKey="revenue" stroke="hsl(var(--primary))" strokeWidth={2} />
-                  <Line type="monotone" dataKey="shipments" stroke="hsl(var(--secondary))" strokeWidth={2} />
-                </LineChart>
+                {renderTrendChart()}
               </ResponsiveContainer>
             </CardContent>
           </Card>
@@ -278,7 +620,7 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
           <Card>
             <CardHeader>
               <CardTitle>Recent Activity</CardTitle>
-              <CardDescription>Latest shipments and updates</CardDescription>
+              <CardDescription>Latest shipment status, assignment and location changes</CardDescription>
             </CardHeader>
             <CardContent>
               {reportData.recentActivity.length > 0 ? (
@@ -288,19 +630,16 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
                       <MapPin className="h-5 w-5 text-muted-foreground" />
                       <div className="flex-1">
                         <p className="font-medium">{activity.title}</p>
+                        <p className="text-sm text-foreground">{activity.description}</p>
                         <p className="text-sm text-muted-foreground">
-                          Created: {new Date(activity.created_at).toLocaleDateString()}
+                          {new Date(activity.created_at).toLocaleString()}
+                          {activity.actor_name && ` · by ${activity.actor_name}`}
                         </p>
+                        {activity.note && (
+                          <p className="text-sm text-muted-foreground italic">"{activity.note}"</p>
+                        )}
                       </div>
-                      <Badge 
-                        variant={
-                          activity.status === 'completed' ? 'default' : 
-                          activity.status === 'in-transit' ? 'secondary' : 
-                          'outline'
-                        }
-                      >
-                        {activity.status}
-                      </Badge>
+                      <ShipmentStatusBadge status={activity.status} />
                     </div>
                   ))}
                 </div>
@@ -322,11 +661,11 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div className="p-4 border rounded-lg">
+                  <Link to="/users" className="p-4 border rounded-lg hover:bg-muted/50 transition-colors">
                     <Users className="h-8 w-8 text-primary mb-2" />
                     <h3 className="font-semibold">User Management</h3>
                     <p className="text-sm text-muted-foreground">Manage user roles and permissions</p>
-                  </div>
+                  </Link>
                   <div className="p-4 border rounded-lg">
                     <Package className="h-8 w-8 text-primary mb-2" />
                     <h3 className="font-semibold">System Reports</h3>
@@ -343,6 +682,16 @@ export const EnhancedReports = ({ userRole, userId }: EnhancedReportsProps) => {
           </TabsContent>
         )}
       </Tabs>
+
+      {exportingCharts && (
+        <div ref={exportChartsRef} aria-hidden="true" className="fixed top-0 -left-[10000px] bg-white">
+          {exportCharts.map((chart) => (
+            <div key={chart.title} data-export-chart={chart.title}>
+              {chart.render(EXPORT_CHART_SIZE)}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { EXPORT_FORMAT_LABELS, ExportFormat } from '@/lib/exporters';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  disabled?: boolean;
+}
+
+export const ExportMenu = ({ onExport, disabled = false }: ExportMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await onExport(format);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export data.",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || exporting}>
+          <Download className="mr-2 h-4 w-4" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
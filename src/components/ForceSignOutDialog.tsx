@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+
+interface ForceSignOutDialogProps {
+  userId: string;
+  userName: string;
+  onSignedOut?: () => void;
+}
+
+export const ForceSignOutDialog = ({ userId, userName, onSignedOut }: ForceSignOutDialogProps) => {
+  const [signingOut, setSigningOut] = useState(false);
+  const { toast } = useToast();
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    try {
+      await invokeEdgeFunction('admin-users', { action: 'sign_out', user_id: userId });
+
+      toast({
+        title: "Sessions Revoked",
+        description: `${userName} will be signed out on every device within the hour.`,
+      });
+      onSignedOut?.();
+    } catch (error) {
+      console.error('Error signing out user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out user.",
+        variant: "destructive"
+      });
+    } finally {
+      setSigningOut(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Sign out everywhere">
+          <LogOut className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Sign out {userName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This revokes every session for this account. Open tabs stop working once their current access token expires.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleSignOut} disabled={signingOut}>
+            {signingOut ? 'Signing out...' : 'Sign Out'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Copy, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { RequestableRole } from '@/hooks/useRoleRequest';
+import { USER_ROLE_LABELS } from '@/lib/adminUsers';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { SentInvitation } from '@/lib/invitations';
+
+type ContactMethod = 'email' | 'phone';
+
+const INVITABLE_ROLES: RequestableRole[] = ['farmer', 'transporter'];
+
+interface InviteUserDialogProps {
+  organizationId: string;
+  onInvited?: () => void;
+}
+
+export const InviteUserDialog = ({ organizationId, onInvited }: InviteUserDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [method, setMethod] = useState<ContactMethod>('email');
+  const [contact, setContact] = useState('');
+  const [role, setRole] = useState<RequestableRole>('farmer');
+  const [submitting, setSubmitting] = useState(false);
+  // Links that were not delivered stay on screen for the administrator to pass on
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setContact('');
+      setShareUrl(null);
+    }
+  };
+
+  const handleInvite = async () => {
+    setSubmitting(true);
+    try {
+      const result = await invokeEdgeFunction<SentInvitation>('send-invitation', {
+        organization_id: organizationId,
+        role,
+        [method]: contact.trim()
+      });
+
+      onInvited?.();
+      if (result.delivered) {
+        toast({
+          title: "Invitation Sent",
+          description: `${contact.trim()} will join as a ${USER_ROLE_LABELS[role].toLowerCase()} once they accept.`,
+        });
+        handleOpenChange(false);
+      } else {
+        setShareUrl(result.invite_url);
+      }
+    } catch (error) {
+      console.error('Error sending invitation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send invitation.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    toast({
+      title: "Link Copied",
+      description: "Send it to the invitee by email, SMS or a messaging app.",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Mail className="mr-2 h-4 w-4" />
+          Invite
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite a Member</DialogTitle>
+          <DialogDescription>
+            The invitee joins this organization with the role you choose as soon as they accept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {shareUrl ? (
+          <div className="space-y-2">
+            <Label htmlFor="invite-link">Invitation link</Label>
+            <div className="flex gap-2">
+              <Input id="invite-link" value={shareUrl} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={handleCopy} aria-label="Copy invitation link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {method === 'email'
+                ? 'The invitation email could not be sent.'
+                : 'Text messages are not sent automatically.'}{' '}
+              Share this link with {contact.trim()}; it expires in 7 days.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="invite-method">Send to</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as ContactMethod)}>
+                  <SelectTrigger id="invite-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="email">Email</SelectItem>
+                    <SelectItem value="phone">Phone</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="invite-contact">{method === 'email' ? 'Email address' : 'Phone number'}</Label>
+                <Input
+                  id="invite-contact"
+                  type={method === 'email' ? 'email' : 'tel'}
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  placeholder={method === 'email' ? 'name@example.com' : '+91 98765 43210'}
+                  maxLength={254}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-role">Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as RequestableRole)}>
+                <SelectTrigger id="invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITABLE_ROLES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {USER_ROLE_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {shareUrl ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleInvite} disabled={submitting || !contact.trim()}>
+                {submitting ? 'Sending...' : 'Send Invitation'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
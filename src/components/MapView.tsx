@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LatLng, MapBounds, MapHandle, MapMarker, MapPath, MapRoute, loadMapProvider } from '@/lib/maps';
+
+interface MapViewProps {
+  height?: string;
+  markers?: MapMarker[];
+  routes?: MapRoute[];
+  paths?: MapPath[];
+  center?: LatLng;
+  zoom?: number;
+  // Frame every marker whenever they change, instead of holding center and zoom
+  fitToMarkers?: boolean;
+  // Group nearby markers; read once when the map is created
+  cluster?: boolean;
+  onMapClick?: (lat: number, lng: number) => void;
+  onBoundsChange?: (bounds: MapBounds) => void;
+  // Markers with an id and draggable set report where they were dropped
+  onMarkerDrag?: (id: string, lat: number, lng: number) => void;
+  onMarkerClick?: (id: string) => void;
+  className?: string;
+}
+
+// Draws with whichever map provider loaded (Google Maps or OpenStreetMap through Leaflet)
+const MapView: React.FC<MapViewProps> = ({
+  height = '400px',
+  markers = [],
+  routes = [],
+  paths = [],
+  center = { lat: 39.8283, lng: -98.5795 }, // Center of USA
+  zoom = 4,
+  fitToMarkers = false,
+  cluster = false,
+  onMapClick,
+  onBoundsChange,
+  onMarkerDrag,
+  onMarkerClick,
+  className = ''
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const initialOptions = useRef({ center, zoom, cluster });
+  const [map, setMap] = useState<MapHandle | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Callers usually build these arrays during render, so compare contents rather than identity
+  const markersKey = JSON.stringify(markers);
+  const routesKey = JSON.stringify(routes);
+  const pathsKey = JSON.stringify(paths);
+
+  // The map is created once; the effects below keep it in step with the props
+  useEffect(() => {
+    let mounted = true;
+    let created: MapHandle | null = null;
+
+    loadMapProvider()
+      .then((provider) => {
+        if (!mounted || !containerRef.current) return;
+        created = provider.createMap(containerRef.current, initialOptions.current);
+        setMap(created);
+      })
+      .catch((err) => {
+        if (!mounted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load map');
+      });
+
+    return () => {
+      mounted = false;
+      created?.destroy();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!map || fitToMarkers) return;
+    map.setView({ lat: center.lat, lng: center.lng }, zoom);
+  }, [map, fitToMarkers, center.lat, center.lng, zoom]);
+
+  useEffect(() => {
+    if (!map) return;
+    const current: MapMarker[] = JSON.parse(markersKey);
+    map.setMarkers(current);
+    if (fitToMarkers) {
+      map.fitBounds(current);
+    }
+  }, [map, markersKey, fitToMarkers]);
+
+  useEffect(() => {
+    map?.setRoutes(JSON.parse(routesKey));
+  }, [map, routesKey]);
+
+  useEffect(() => {
+    map?.setPaths(JSON.parse(pathsKey));
+  }, [map, pathsKey]);
+
+  useEffect(() => {
+    map?.onClick(onMapClick ? (position) => onMapClick(position.lat, position.lng) : null);
+  }, [map, onMapClick]);
+
+  useEffect(() => {
+    map?.onBoundsChange(onBoundsChange ?? null);
+  }, [map, onBoundsChange]);
+
+  useEffect(() => {
+    map?.onMarkerDrag(onMarkerDrag ? (id, position) => onMarkerDrag(id, position.lat, position.lng) : null);
+  }, [map, onMarkerDrag]);
+
+  useEffect(() => {
+    map?.onMarkerClick(onMarkerClick ?? null);
+  }, [map, onMarkerClick]);
+
+  if (error) {
+    return (
+      <div
+        className="flex items-center justify-center bg-muted rounded-lg border-2 border-dashed border-muted-foreground/25"
+        style={{ height }}
+      >
+        <div className="text-center p-4">
+          <p className="text-destructive font-medium">Map Error</p>
+          <p className="text-muted-foreground text-sm mt-1">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`relative w-full rounded-lg shadow-card border overflow-hidden ${className}`} style={{ height }}>
+      {/* Leaflet panes stack up to z-index 1000, so the map gets its own stacking context */}
+      <div ref={containerRef} className="absolute inset-0 z-0" />
+      {!map && (
+        <div className="absolute inset-0 flex items-center justify-center bg-muted">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+            <p className="text-muted-foreground">Loading map...</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MapView;
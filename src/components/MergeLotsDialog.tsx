@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Merge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatTonnes } from '@/lib/cargo';
+import { SeedLot } from '@/lib/seedLots';
+
+interface MergeLotsDialogProps {
+  lots: SeedLot[];
+  onMerged?: () => void;
+}
+
+export const MergeLotsDialog = ({ lots, onMerged }: MergeLotsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [lotCode, setLotCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const sameCommodity = new Set(lots.map((lot) => lot.commodity_code)).size === 1;
+  const totalKg = lots.reduce((sum, lot) => sum + Number(lot.quantity_kg ?? 0), 0);
+
+  const handleMerge = async () => {
+    if (!lotCode.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a code for the merged lot.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('merge_seed_lots', {
+        _lot_ids: lots.map((lot) => lot.id),
+        _lot_code: lotCode.trim()
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Lots Merged",
+        description: `${lots.length} lots were merged into ${lotCode.trim()}.`,
+      });
+      setOpen(false);
+      setLotCode('');
+      onMerged?.();
+    } catch (error) {
+      console.error('Error merging lots:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to merge lots.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={lots.length < 2}>
+          <Merge className="mr-1 h-4 w-4" />
+          Merge Selected ({lots.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Merge Lots</DialogTitle>
+          <DialogDescription>
+            {lots.map((lot) => lot.lot_code).join(', ')} will be combined into one lot of {formatTonnes(totalKg)}.
+            The original lots stay in the genealogy for tracing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sameCommodity ? (
+          <div className="space-y-2">
+            <Label htmlFor="merge-lot-code">New Lot Code</Label>
+            <Input
+              id="merge-lot-code"
+              value={lotCode}
+              onChange={(e) => setLotCode(e.target.value)}
+              placeholder="e.g., MUS-2025-M01"
+              maxLength={64}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-destructive">Only lots of the same seed type can be merged.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={submitting || !sameCommodity || !lotCode.trim()}>
+            {submitting ? 'Merging...' : 'Merge Lots'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { KeyRound, LogOut, ShieldCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+interface MfaChallengeProps {
+  onVerified: () => void;
+  onSignOut: () => void;
+}
+
+// Second step of signing in for accounts with an authenticator app
+export const MfaChallenge = ({ onVerified, onSignOut }: MfaChallengeProps) => {
+  const { verifyMfa, isMfaVerifyBlocked } = useAuth();
+  const [code, setCode] = useState('');
+  const [backupCode, setBackupCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const { error } = await verifyMfa(code);
+    setSubmitting(false);
+
+    if (error) {
+      setError(error.message);
+      setCode('');
+    } else {
+      onVerified();
+    }
+  };
+
+  // A backup code removes the lost authenticator, leaving a password-only session that can enroll again
+  const handleBackupCode = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await invokeEdgeFunction('mfa-recovery', { code: backupCode.trim() });
+      await supabase.auth.refreshSession();
+      onVerified();
+    } catch (err) {
+      console.error('Error redeeming backup code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to redeem backup code.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setUseBackupCode(!useBackupCode);
+    setError(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-4 p-3 bg-primary/10 rounded-full w-fit">
+          {useBackupCode ? <KeyRound className="h-8 w-8 text-primary" /> : <ShieldCheck className="h-8 w-8 text-primary" />}
+        </div>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          {useBackupCode
+            ? 'Enter one of the backup codes you saved when you set up two-factor authentication. Your authenticator app will be removed so you can set up a new one.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={useBackupCode ? handleBackupCode : handleVerify}>
+        <CardContent className="space-y-4">
+          {useBackupCode ? (
+            <div className="space-y-2">
+              <Label htmlFor="mfa-backup-code">Backup code</Label>
+              <Input
+                id="mfa-backup-code"
+                value={backupCode}
+                onChange={(e) => setBackupCode(e.target.value)}
+                placeholder="xxxxx-xxxxx"
+                autoComplete="off"
+                maxLength={11}
+                required
+              />
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+          {!useBackupCode && isMfaVerifyBlocked() && (
+            <Alert variant="destructive">
+              <AlertDescription>Too many attempts. Wait 15 minutes or use a backup code.</AlertDescription>
+            </Alert>
+          )}
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+        <CardFooter className="flex flex-col gap-2">
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={submitting || (useBackupCode ? !backupCode.trim() : code.length !== 6)}
+          >
+            {submitting ? 'Verifying...' : 'Verify'}
+          </Button>
+          <Button type="button" variant="link" className="w-full" onClick={toggleMode}>
+            {useBackupCode ? 'Use your authenticator app' : 'Lost your device? Use a backup code'}
+          </Button>
+          <Button type="button" variant="ghost" className="w-full" onClick={onSignOut}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { Copy, Download, ShieldCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+type EnrollmentStep = 'start' | 'verify' | 'codes';
+
+interface PendingFactor {
+  id: string;
+  qrCode: string;
+  secret: string;
+}
+
+interface MfaEnrollmentProps {
+  onEnrolled: () => void;
+  onCancel?: () => void;
+  // Verifying raises the session to aal2 before the backup codes are shown, so screens that
+  // gate on the level use this to stay open until onEnrolled
+  onStarted?: () => void;
+}
+
+// Older auth servers return bare SVG markup rather than a data URL
+const toImageSource = (qrCode: string) =>
+  qrCode.startsWith('data:') ? qrCode : `data:image/svg+xml;utf-8,${encodeURIComponent(qrCode)}`;
+
+// Sets up an authenticator app: scan the QR code, confirm a code, then save the backup codes
+export const MfaEnrollment = ({ onEnrolled, onCancel, onStarted }: MfaEnrollmentProps) => {
+  const { verifyMfa } = useAuth();
+  const [step, setStep] = useState<EnrollmentStep>('start');
+  const [factor, setFactor] = useState<PendingFactor | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleStart = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      // An enrollment abandoned before its first code would otherwise block a new one
+      const { data: existing, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      for (const stale of existing.all.filter((f) => f.factor_type === 'totp' && f.status === 'unverified')) {
+        const { error: unenrollError } = await supabase.auth.mfa.unenroll({ factorId: stale.id });
+        if (unenrollError) throw unenrollError;
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: `Authenticator ${new Date().toLocaleDateString()}`
+      });
+      if (error) throw error;
+
+      setFactor({ id: data.id, qrCode: toImageSource(data.totp.qr_code), secret: data.totp.secret });
+      setStep('verify');
+      onStarted?.();
+    } catch (err) {
+      console.error('Error enrolling authenticator:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start two-factor setup.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!factor) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const { error: verifyError } = await verifyMfa(code, factor.id);
+      if (verifyError) {
+        setError(verifyError.message);
+        setCode('');
+        return;
+      }
+
+      // The session is aal2 now, which generating backup codes requires
+      const { data, error } = await supabase.rpc('generate_mfa_backup_codes');
+      if (error) throw error;
+
+      setBackupCodes(data ?? []);
+      setStep('codes');
+    } catch (err) {
+      console.error('Error verifying authenticator:', err);
+      setError(err instanceof Error ? err.message : 'Failed to verify code.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (factor) {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
+    setFactor(null);
+    setCode('');
+    setStep('start');
+    onCancel?.();
+  };
+
+  const handleCopyCodes = async () => {
+    await navigator.clipboard.writeText(backupCodes.join('\n'));
+    toast({
+      title: "Backup Codes Copied",
+      description: "Keep them somewhere safe, away from your phone.",
+    });
+  };
+
+  const handleDownloadCodes = () => {
+    const blob = new Blob([`Seed Track Flow backup codes\n\n${backupCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'seed-track-flow-backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderError = () =>
+    error && (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+
+  if (step === 'codes') {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Save Your Backup Codes</CardTitle>
+          <CardDescription>
+            Each code signs you in once if you lose your authenticator app. They will not be shown again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+            {backupCodes.map((backupCode) => (
+              <span key={backupCode}>{backupCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={handleCopyCodes}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+            <Button variant="outline" className="flex-1" onClick={handleDownloadCodes}>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" onClick={onEnrolled}>I've Saved My Codes</Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  if (step === 'verify' && factor) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Scan the QR Code</CardTitle>
+          <CardDescription>
+            Scan it with an authenticator app such as Google Authenticator or 1Password, then enter the code it shows.
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleVerify}>
+          <CardContent className="space-y-4">
+            <div className="flex justify-center">
+              <img src={factor.qrCode} alt="QR code for your authenticator app" className="h-48 w-48 rounded-md bg-white p-2" />
+            </div>
+            <div className="text-center space-y-1">
+              <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead</p>
+              <code className="text-sm font-mono break-all">{factor.secret}</code>
+            </div>
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            {renderError()}
+          </CardContent>
+          <CardFooter className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={submitting || code.length !== 6}>
+              {submitting ? 'Verifying...' : 'Verify and Enable'}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="mb-2 p-3 bg-primary/10 rounded-full w-fit">
+          <ShieldCheck className="h-6 w-6 text-primary" />
+        </div>
+        <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Signing in will ask for a code from an authenticator app on your phone as well as your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>{renderError()}</CardContent>
+      <CardFooter className="flex gap-2">
+        {onCancel && (
+          <Button variant="outline" className="flex-1" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button className="flex-1" onClick={handleStart} disabled={submitting}>
+          {submitting ? 'Starting...' : 'Get Started'}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -0,0 +1,35 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Organization } from '@/hooks/useOrganizations';
+import { CreateOrganizationDialog } from '@/components/CreateOrganizationDialog';
+
+interface OrganizationSwitcherProps {
+  organizations: Organization[];
+  activeOrganizationId: string;
+  isSuperAdmin: boolean;
+  onSwitch: (organizationId: string) => void;
+  onCreated?: (organizationId: string) => void;
+}
+
+export const OrganizationSwitcher = ({
+  organizations,
+  activeOrganizationId,
+  isSuperAdmin,
+  onSwitch,
+  onCreated
+}: OrganizationSwitcherProps) => (
+  <div className="flex items-center gap-1 min-w-0">
+    <Select value={activeOrganizationId} onValueChange={onSwitch}>
+      <SelectTrigger className="h-7 text-xs min-w-0" aria-label="Switch organization">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {organizations.map((org) => (
+          <SelectItem key={org.id} value={org.id}>
+            {org.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    {isSuperAdmin && <CreateOrganizationDialog onCreated={onCreated} />}
+  </div>
+);
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RoleRequest } from '@/hooks/useRoleRequest';
+import { USER_ROLE_LABELS } from '@/lib/adminUsers';
+import { Clock, LogOut, Undo2 } from 'lucide-react';
+
+interface PendingApprovalProps {
+  request: RoleRequest;
+  organizationName: string | null;
+  onWithdraw: () => Promise<void>;
+  onSignOut: () => void;
+}
+
+export const PendingApproval = ({ request, organizationName, onWithdraw, onSignOut }: PendingApprovalProps) => {
+  const [withdrawing, setWithdrawing] = useState(false);
+  const roleLabel = USER_ROLE_LABELS[request.requested_role];
+
+  const handleWithdraw = async () => {
+    setWithdrawing(true);
+    try {
+      await onWithdraw();
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="max-w-lg w-full">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 p-3 bg-primary/10 rounded-full w-fit">
+            <Clock className="h-8 w-8 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Awaiting Approval</CardTitle>
+          <CardDescription>
+            Your request for {roleLabel.toLowerCase()} access{organizationName && ` to ${organizationName}`} was sent on {new Date(request.created_at).toLocaleString()}.
+            This page opens your dashboard as soon as an administrator approves it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {request.note && (
+            <div className="rounded-md bg-muted p-3">
+              <p className="text-sm font-medium text-muted-foreground">Your note</p>
+              <p className="text-sm text-foreground whitespace-pre-wrap">{request.note}</p>
+            </div>
+          )}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" className="flex-1" onClick={handleWithdraw} disabled={withdrawing}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              {withdrawing ? 'Withdrawing...' : 'Withdraw Request'}
+            </Button>
+            <Button variant="ghost" className="flex-1" onClick={onSignOut}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface RejectRoleRequestDialogProps {
+  requestId: string;
+  userName: string;
+  roleLabel: string;
+  disabled?: boolean;
+  onRejected?: () => void;
+}
+
+export const RejectRoleRequestDialog = ({ requestId, userName, roleLabel, disabled, onRejected }: RejectRoleRequestDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleReject = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('review_role_request', {
+        _request_id: requestId,
+        _approve: false,
+        _note: reason.trim() || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Request Rejected",
+        description: `${userName} can send a new request.`,
+      });
+      setOpen(false);
+      setReason('');
+      onRejected?.();
+    } catch (error) {
+      console.error('Error rejecting role request:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reject role request.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          Reject
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reject Role Request</DialogTitle>
+          <DialogDescription>
+            {userName} asked for {roleLabel.toLowerCase()} access. They will see your reason and can request again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor={`reject-reason-${requestId}`}>Reason (optional)</Label>
+          <Textarea
+            id={`reject-reason-${requestId}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g., Please register with your cooperative email"
+            maxLength={500}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleReject} disabled={submitting}>
+            {submitting ? 'Rejecting...' : 'Reject Request'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
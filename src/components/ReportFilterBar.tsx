@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarIcon, ChevronDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserRole } from '@/hooks/useUserRole';
+import { Farmer } from '@/hooks/useFarmers';
+import { Transporter } from '@/hooks/useTransporters';
+import { Commodity } from '@/lib/cargo';
+import { SHIPMENT_STATUSES, SHIPMENT_STATUS_LABELS, ShipmentStatus } from '@/lib/shipmentStatus';
+import { EMPTY_REPORT_FILTERS, ReportFilters, hasReportFilters } from '@/lib/reportFilters';
+
+const ALL = 'all';
+
+interface ReportFilterBarProps {
+  userRole: UserRole;
+  filters: ReportFilters;
+  commodities: Commodity[];
+  farmers: Farmer[];
+  transporters: Transporter[];
+  onChange: (filters: ReportFilters) => void;
+}
+
+export const ReportFilterBar = ({
+  userRole,
+  filters,
+  commodities,
+  farmers,
+  transporters,
+  onChange
+}: ReportFilterBarProps) => {
+  const [region, setRegion] = useState(filters.region);
+
+  useEffect(() => {
+    setRegion(filters.region);
+  }, [filters.region]);
+
+  const update = (changes: Partial<ReportFilters>) => onChange({ ...filters, ...changes });
+
+  const commitRegion = () => {
+    if (region.trim() !== filters.region) {
+      update({ region: region.trim() });
+    }
+  };
+
+  const toggleStatus = (status: ShipmentStatus, checked: boolean) =>
+    update({
+      statuses: checked
+        ? SHIPMENT_STATUSES.filter((s) => s === status || filters.statuses.includes(s))
+        : filters.statuses.filter((s) => s !== status)
+    });
+
+  const dateLabel = () => {
+    if (!filters.from && !filters.to) return 'Any date';
+    const from = filters.from ? format(parseISO(filters.from), 'dd MMM yyyy') : '…';
+    const to = filters.to ? format(parseISO(filters.to), 'dd MMM yyyy') : '…';
+    return `${from} – ${to}`;
+  };
+
+  const statusLabel = () => {
+    if (filters.statuses.length === 0) return 'All statuses';
+    if (filters.statuses.length === 1) return SHIPMENT_STATUS_LABELS[filters.statuses[0]];
+    return `${filters.statuses.length} statuses`;
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Created</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-60 justify-start font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {dateLabel()}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="range"
+                  numberOfMonths={2}
+                  selected={{
+                    from: filters.from ? parseISO(filters.from) : undefined,
+                    to: filters.to ? parseISO(filters.to) : undefined
+                  }}
+                  onSelect={(range) =>
+                    update({
+                      from: range?.from ? format(range.from, 'yyyy-MM-dd') : '',
+                      to: range?.to ? format(range.to, 'yyyy-MM-dd') : ''
+                    })
+                  }
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-44 justify-between font-normal">
+                  {statusLabel()}
+                  <ChevronDown className="h-4 w-4 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-52" align="start">
+                <div className="space-y-2">
+                  {SHIPMENT_STATUSES.map((status) => (
+                    <div key={status} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`report-status-${status}`}
+                        checked={filters.statuses.includes(status)}
+                        onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+                      />
+                      <Label htmlFor={`report-status-${status}`} className="font-normal">
+                        {SHIPMENT_STATUS_LABELS[status]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-commodity">Seed Type</Label>
+            <Select
+              value={filters.commodity || ALL}
+              onValueChange={(value) => update({ commodity: value === ALL ? '' : value })}
+            >
+              <SelectTrigger id="report-commodity" className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All seed types</SelectItem>
+                {commodities.map((commodity) => (
+                  <SelectItem key={commodity.code} value={commodity.code}>
+                    {commodity.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {userRole === 'administrator' && (
+            <div className="space-y-2">
+              <Label htmlFor="report-farmer">Farmer</Label>
+              <Select
+                value={filters.farmer || ALL}
+                onValueChange={(value) => update({ farmer: value === ALL ? '' : value })}
+              >
+                <SelectTrigger id="report-farmer" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All farmers</SelectItem>
+                  {farmers.map((farmer) => (
+                    <SelectItem key={farmer.id} value={farmer.id}>
+                      {farmer.full_name || farmer.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {userRole !== 'transporter' && (
+            <div className="space-y-2">
+              <Label htmlFor="report-transporter">Transporter</Label>
+              <Select
+                value={filters.transporter || ALL}
+                onValueChange={(value) => update({ transporter: value === ALL ? '' : value })}
+              >
+                <SelectTrigger id="report-transporter" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All transporters</SelectItem>
+                  {transporters.map((transporter) => (
+                    <SelectItem key={transporter.id} value={transporter.id}>
+                      {transporter.full_name || transporter.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="report-region">Region</Label>
+            <Input
+              id="report-region"
+              value={region}
+              onChange={(e) => setRegion(e.target.value)}
+              onBlur={commitRegion}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRegion();
+              }}
+              placeholder="District, town or state"
+              className="w-48"
+              maxLength={100}
+            />
+          </div>
+
+          {hasReportFilters(filters) && (
+            <Button variant="ghost" onClick={() => onChange(EMPTY_REPORT_FILTERS)}>
+              <X className="mr-1 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAppContext } from '@/hooks/useAppContext';
+import { UserRole } from '@/hooks/useUserRole';
+
+interface RoleGuardProps {
+  allow: UserRole[];
+  children: React.ReactNode;
+}
+
+export const RoleGuard = ({ allow, children }: RoleGuardProps) => {
+  const { userRole } = useAppContext();
+  const location = useLocation();
+
+  if (!allow.includes(userRole)) {
+    return (
+      <Navigate
+        to="/dashboard"
+        replace
+        state={{ accessDenied: `Your ${userRole} role does not have access to ${location.pathname}.` }}
+      />
+    );
+  }
+
+  return <>{children}</>;
+};
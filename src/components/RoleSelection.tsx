@@ -2,44 +2,51 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { UserRole } from '@/hooks/useUserRole';
-import { Truck, Wheat, Shield } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { OrganizationListing } from '@/hooks/useOrganizationDirectory';
+import { RequestableRole, RoleRequest } from '@/hooks/useRoleRequest';
+import { USER_ROLE_LABELS } from '@/lib/adminUsers';
+import { Truck, Wheat, XCircle } from 'lucide-react';
 
 interface RoleSelectionProps {
-  onRoleSelect: (role: UserRole) => Promise<void>;
-  loading: boolean;
+  organizations: OrganizationListing[];
+  onRoleRequest: (organizationId: string, role: RequestableRole, note: string) => Promise<void>;
+  submitting: boolean;
+  previousRequest?: RoleRequest | null;
 }
 
-export const RoleSelection = ({ onRoleSelect, loading }: RoleSelectionProps) => {
-  const [selectedRole, setSelectedRole] = useState<UserRole | null>(null);
+// Administrator access is never requested here; an existing administrator grants it from User Management
+export const RoleSelection = ({ organizations, onRoleRequest, submitting, previousRequest }: RoleSelectionProps) => {
+  const [organizationId, setOrganizationId] = useState<string | undefined>(
+    previousRequest?.organization_id ?? (organizations.length === 1 ? organizations[0].id : undefined)
+  );
+  const [selectedRole, setSelectedRole] = useState<RequestableRole | null>(null);
+  const [note, setNote] = useState('');
 
   const roles = [
     {
-      role: 'farmer' as UserRole,
+      role: 'farmer' as RequestableRole,
       icon: Wheat,
       title: 'Farmer',
       description: 'Create and manage oil seed shipments, track deliveries from your farm',
       permissions: ['Create shipments', 'View own shipments', 'Track deliveries']
     },
     {
-      role: 'transporter' as UserRole,
+      role: 'transporter' as RequestableRole,
       icon: Truck,
       title: 'Transporter',
       description: 'Handle transportation of oil seeds, update delivery status and locations',
       permissions: ['View assigned shipments', 'Update delivery status', 'Track routes']
-    },
-    {
-      role: 'administrator' as UserRole,
-      icon: Shield,
-      title: 'Administrator',
-      description: 'Full system access, manage all users and shipments, view comprehensive reports',
-      permissions: ['Full system access', 'Manage users', 'View all reports', 'System administration']
     }
   ];
 
-  const handleRoleSelect = async (role: UserRole) => {
+  const handleRoleRequest = async (role: RequestableRole) => {
+    if (!organizationId) return;
     setSelectedRole(role);
-    await onRoleSelect(role);
+    await onRoleRequest(organizationId, role, note);
   };
 
   return (
@@ -48,11 +55,37 @@ export const RoleSelection = ({ onRoleSelect, loading }: RoleSelectionProps) =>
         <div className="text-center space-y-2">
           <h1 className="text-3xl font-bold text-foreground">Choose Your Role</h1>
           <p className="text-muted-foreground">
-            Select your role in the oil seed supply chain to access relevant features
+            Request your role in the oil seed supply chain. An administrator reviews every request before access is granted.
           </p>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {previousRequest?.status === 'rejected' && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>Your {USER_ROLE_LABELS[previousRequest.requested_role].toLowerCase()} request was not approved</AlertTitle>
+            <AlertDescription>
+              {previousRequest.review_note || 'No reason was given.'} You can send a new request below.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2 max-w-md mx-auto">
+          <Label htmlFor="role-request-organization">Organization</Label>
+          <Select value={organizationId} onValueChange={setOrganizationId}>
+            <SelectTrigger id="role-request-organization">
+              <SelectValue placeholder={organizations.length ? 'Choose your organization' : 'No organizations available'} />
+            </SelectTrigger>
+            <SelectContent>
+              {organizations.map((org) => (
+                <SelectItem key={org.id} value={org.id}>
+                  {org.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {roles.map(({ role, icon: Icon, title, description, permissions }) => (
             <Card 
               key={role} 
@@ -79,17 +112,28 @@ export const RoleSelection = ({ onRoleSelect, loading }: RoleSelectionProps) =>
                   </div>
                 </div>
                 <Button
-                  onClick={() => handleRoleSelect(role)}
+                  onClick={() => handleRoleRequest(role)}
                   className="w-full"
-                  disabled={loading && selectedRole === role}
+                  disabled={submitting || !organizationId}
                   variant={selectedRole === role ? "default" : "outline"}
                 >
-                  {loading && selectedRole === role ? "Assigning..." : `Select ${title}`}
+                  {submitting && selectedRole === role ? "Sending request..." : `Request ${title} Access`}
                 </Button>
               </CardContent>
             </Card>
           ))}
         </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="role-request-note">Note for the administrator (optional)</Label>
+          <Textarea
+            id="role-request-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g., Farm name and village, or your transport company"
+            maxLength={500}
+          />
+        </div>
       </div>
     </div>
   );
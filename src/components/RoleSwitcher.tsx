@@ -0,0 +1,25 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserRole } from '@/hooks/useUserRole';
+import { USER_ROLE_LABELS } from '@/lib/adminUsers';
+
+interface RoleSwitcherProps {
+  roles: UserRole[];
+  activeRole: UserRole;
+  onSwitch: (role: UserRole) => void;
+}
+
+// Members with more than one role in the organization pick which one menus and pages follow
+export const RoleSwitcher = ({ roles, activeRole, onSwitch }: RoleSwitcherProps) => (
+  <Select value={activeRole} onValueChange={(role) => onSwitch(role as UserRole)}>
+    <SelectTrigger className="mt-2 h-7 text-xs" aria-label="Switch role">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {roles.map((role) => (
+        <SelectItem key={role} value={role}>
+          Acting as {USER_ROLE_LABELS[role].toLowerCase()}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
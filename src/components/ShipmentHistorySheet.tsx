@@ -0,0 +1,33 @@
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { ShipmentTimeline } from '@/components/ShipmentTimeline';
+
+interface ShipmentHistorySheetProps {
+  shipmentId: string;
+  shipmentTitle: string;
+}
+
+export const ShipmentHistorySheet = ({ shipmentId, shipmentTitle }: ShipmentHistorySheetProps) => (
+  <Sheet>
+    <SheetTrigger asChild>
+      <Button variant="ghost" size="sm" title="View history">
+        <History className="h-4 w-4" />
+      </Button>
+    </SheetTrigger>
+    <SheetContent className="overflow-y-auto">
+      <SheetHeader className="mb-6">
+        <SheetTitle>Shipment History</SheetTitle>
+        <SheetDescription>{shipmentTitle}</SheetDescription>
+      </SheetHeader>
+      <ShipmentTimeline shipmentId={shipmentId} />
+    </SheetContent>
+  </Sheet>
+);
@@ -0,0 +1,13 @@
+import { Badge } from '@/components/ui/badge';
+import { ShipmentStatus, SHIPMENT_STATUS_LABELS, getStatusBadgeVariant } from '@/lib/shipmentStatus';
+
+interface ShipmentStatusBadgeProps {
+  status: ShipmentStatus;
+  className?: string;
+}
+
+export const ShipmentStatusBadge = ({ status, className }: ShipmentStatusBadgeProps) => (
+  <Badge variant={getStatusBadgeVariant(status)} className={className}>
+    {SHIPMENT_STATUS_LABELS[status] ?? status}
+  </Badge>
+);
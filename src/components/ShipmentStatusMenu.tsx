@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { UserRole } from '@/hooks/useUserRole';
+import { ShipmentStatus, SHIPMENT_STATUS_LABELS, getAllowedTransitions, hasDedicatedAction } from '@/lib/shipmentStatus';
+
+interface ShipmentStatusMenuProps {
+  shipmentId: string;
+  status: ShipmentStatus;
+  userRole: UserRole;
+  onStatusChange?: (status: ShipmentStatus) => void;
+}
+
+export const ShipmentStatusMenu = ({ shipmentId, status, userRole, onStatusChange }: ShipmentStatusMenuProps) => {
+  const [updating, setUpdating] = useState(false);
+  const { toast } = useToast();
+  const nextStatuses = getAllowedTransitions(status, userRole)
+    .filter((nextStatus) => !hasDedicatedAction(status, nextStatus, userRole));
+
+  if (nextStatuses.length === 0) {
+    return null;
+  }
+
+  const handleTransition = async (nextStatus: ShipmentStatus) => {
+    setUpdating(true);
+    try {
+      const { error } = await supabase.rpc('update_shipment_status', {
+        _shipment_id: shipmentId,
+        _status: nextStatus
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Status Updated",
+        description: `Shipment marked as ${SHIPMENT_STATUS_LABELS[nextStatus]}.`,
+      });
+      onStatusChange?.(nextStatus);
+    } catch (error) {
+      console.error('Error updating shipment status:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update shipment status.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={updating}>
+          {updating ? 'Updating...' : 'Update Status'}
+          <ChevronDown className="ml-1 h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Move to</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {nextStatuses.map((nextStatus) => (
+          <DropdownMenuItem key={nextStatus} onSelect={() => handleTransition(nextStatus)}>
+            {SHIPMENT_STATUS_LABELS[nextStatus]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ShipmentEvent, describeShipmentEvent } from '@/lib/shipmentEvents';
+import { CircleDot, MapPin, Truck, PlusCircle } from 'lucide-react';
+
+interface ShipmentTimelineProps {
+  shipmentId: string;
+  refreshKey?: unknown;
+}
+
+const eventIcons = {
+  created: PlusCircle,
+  status_changed: CircleDot,
+  assignment_changed: Truck,
+  location_changed: MapPin
+};
+
+export const ShipmentTimeline = ({ shipmentId, refreshKey }: ShipmentTimelineProps) => {
+  const [events, setEvents] = useState<ShipmentEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('shipment_events')
+          .select('*')
+          .eq('shipment_id', shipmentId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setEvents(data || []);
+      } catch (error) {
+        console.error('Error fetching shipment events:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [shipmentId, refreshKey]);
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        {[1, 2, 3].map(i => (
+          <div key={i} className="h-12 bg-muted rounded"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-muted-foreground">No history recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3">
+      {events.map((event) => {
+        const Icon = eventIcons[event.event_type] ?? CircleDot;
+        return (
+          <li key={event.id} className="mb-6 ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary/10 ring-4 ring-background">
+              <Icon className="h-3 w-3 text-primary" />
+            </span>
+            <p className="font-medium text-foreground">{describeShipmentEvent(event)}</p>
+            <p className="text-xs text-muted-foreground">
+              {new Date(event.created_at).toLocaleString()}
+              {event.actor_name && ` · by ${event.actor_name}`}
+            </p>
+            {event.note && (
+              <p className="mt-1 text-sm text-muted-foreground italic">"{event.note}"</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
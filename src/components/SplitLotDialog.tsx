@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Scissors, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { WeightInput } from '@/components/WeightInput';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { WeightUnit, formatTonnes, toKilograms } from '@/lib/cargo';
+import { parseQuantity } from '@/lib/inventory';
+import { SeedLot } from '@/lib/seedLots';
+
+interface SplitLotDialogProps {
+  lot: SeedLot;
+  onSplit?: () => void;
+}
+
+const EMPTY_PARTS = ['', ''];
+
+export const SplitLotDialog = ({ lot, onSplit }: SplitLotDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [parts, setParts] = useState<string[]>(EMPTY_PARTS);
+  const [unit, setUnit] = useState<WeightUnit>('quintal');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const available = Number(lot.quantity_kg ?? 0);
+
+  const handleSplit = async () => {
+    const quantities = parts.map(parseQuantity);
+    if (quantities.some((q) => q === null || q <= 0)) {
+      toast({
+        title: "Error",
+        description: "Every part needs a weight greater than zero.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const quantitiesKg = quantities.map((q) => toKilograms(q as number, unit));
+    if (quantitiesKg.reduce((sum, q) => sum + q, 0) > available) {
+      toast({
+        title: "Error",
+        description: `The parts weigh more than the ${formatTonnes(available)} held by this lot.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data: childIds, error } = await supabase.rpc('split_seed_lot', {
+        _lot_id: lot.id,
+        _quantities_kg: quantitiesKg
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Lot Split",
+        description: `${lot.lot_code} was split into ${childIds?.length ?? parts.length} lots.`,
+      });
+      setOpen(false);
+      setParts(EMPTY_PARTS);
+      onSplit?.();
+    } catch (error) {
+      console.error('Error splitting lot:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to split lot.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Split lot">
+          <Scissors className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Split Lot {lot.lot_code}</DialogTitle>
+          <DialogDescription>
+            Each part becomes a new lot ({lot.lot_code}-1, {lot.lot_code}-2, …) that keeps this lot's farm and
+            harvest details, and any weight left over becomes one more. The lot holds {formatTonnes(available)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {parts.map((part, index) => (
+            <div key={index} className="space-y-1">
+              <Label htmlFor={`split-${lot.id}-${index}`}>Part {index + 1}</Label>
+              <div className="flex items-center gap-2">
+                <div className="flex-1">
+                  <WeightInput
+                    id={`split-${lot.id}-${index}`}
+                    quantity={part}
+                    unit={unit}
+                    onQuantityChange={(value) => setParts(parts.map((p, i) => (i === index ? value : p)))}
+                    onUnitChange={setUnit}
+                  />
+                </div>
+                {parts.length > 2 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Remove part"
+                    onClick={() => setParts(parts.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setParts([...parts, ''])}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Part
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSplit} disabled={submitting}>
+            {submitting ? 'Splitting...' : 'Split Lot'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
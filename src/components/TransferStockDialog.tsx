@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WeightInput } from '@/components/WeightInput';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { WeightUnit } from '@/lib/cargo';
+import { Warehouse, parseQuantity } from '@/lib/inventory';
+import { SeedLot } from '@/lib/seedLots';
+
+const NO_LOT = 'none';
+
+interface TransferStockDialogProps {
+  inventoryItemId: string;
+  itemLabel: string;
+  fromWarehouseId: string;
+  warehouses: Warehouse[];
+  lots?: SeedLot[];
+  onTransferred?: () => void;
+}
+
+export const TransferStockDialog = ({
+  inventoryItemId,
+  itemLabel,
+  fromWarehouseId,
+  warehouses,
+  lots = [],
+  onTransferred
+}: TransferStockDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [toWarehouseId, setToWarehouseId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [unit, setUnit] = useState<WeightUnit>('quintal');
+  const [lotId, setLotId] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const destinations = warehouses.filter((w) => w.is_active && w.id !== fromWarehouseId);
+
+  const handleTransfer = async () => {
+    const amount = parseQuantity(quantity);
+    if (!toWarehouseId || amount === null || amount <= 0) {
+      toast({
+        title: "Error",
+        description: "Choose a destination and a quantity greater than zero.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('transfer_stock', {
+        _inventory_item_id: inventoryItemId,
+        _to_warehouse_id: toWarehouseId,
+        _quantity: amount,
+        _unit: unit,
+        _note: note.trim() || undefined,
+        _lot_id: lotId || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Stock Transferred",
+        description: `${itemLabel} has been moved.`,
+      });
+      setOpen(false);
+      setToWarehouseId('');
+      setQuantity('');
+      setLotId('');
+      setNote('');
+      onTransferred?.();
+    } catch (error) {
+      console.error('Error transferring stock:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to transfer stock.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Transfer stock" disabled={destinations.length === 0}>
+          <ArrowRightLeft className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer Stock</DialogTitle>
+          <DialogDescription>Move {itemLabel} to another warehouse.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`transfer-warehouse-${inventoryItemId}`}>Destination</Label>
+            <Select value={toWarehouseId} onValueChange={setToWarehouseId}>
+              <SelectTrigger id={`transfer-warehouse-${inventoryItemId}`}>
+                <SelectValue placeholder="Select warehouse" />
+              </SelectTrigger>
+              <SelectContent>
+                {destinations.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`transfer-quantity-${inventoryItemId}`}>Quantity</Label>
+            <WeightInput
+              id={`transfer-quantity-${inventoryItemId}`}
+              quantity={quantity}
+              unit={unit}
+              onQuantityChange={setQuantity}
+              onUnitChange={setUnit}
+            />
+          </div>
+          {lots.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor={`transfer-lot-${inventoryItemId}`}>Seed Lot</Label>
+              <Select value={lotId || NO_LOT} onValueChange={(value) => setLotId(value === NO_LOT ? '' : value)}>
+                <SelectTrigger id={`transfer-lot-${inventoryItemId}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LOT}>No lot recorded</SelectItem>
+                  {lots.map((lot) => (
+                    <SelectItem key={lot.id} value={lot.id}>
+                      {lot.lot_code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor={`transfer-note-${inventoryItemId}`}>Note</Label>
+            <Input
+              id={`transfer-note-${inventoryItemId}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleTransfer} disabled={submitting || !toWarehouseId || !quantity}>
+            {submitting ? 'Transferring...' : 'Transfer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
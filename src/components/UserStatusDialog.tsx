@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { UserCheck, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AdminUserAction } from '@/lib/adminUsers';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+
+interface UserStatusDialogProps {
+  userId: string;
+  userName: string;
+  isActive: boolean;
+  onChanged?: () => void;
+}
+
+export const UserStatusDialog = ({ userId, userName, isActive, onChanged }: UserStatusDialogProps) => {
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const action: AdminUserAction = isActive ? 'deactivate' : 'reactivate';
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      await invokeEdgeFunction('admin-users', { action, user_id: userId });
+
+      toast({
+        title: isActive ? "User Deactivated" : "User Reactivated",
+        description: isActive
+          ? `${userName} has been signed out and can no longer sign in.`
+          : `${userName} can sign in again.`,
+      });
+      onChanged?.();
+    } catch (error) {
+      console.error('Error changing user status:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change user status.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        {isActive ? (
+          <Button variant="ghost" size="sm" title="Deactivate user" className="text-destructive hover:text-destructive">
+            <UserX className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="ghost" size="sm" title="Reactivate user">
+            <UserCheck className="h-4 w-4" />
+          </Button>
+        )}
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{isActive ? 'Deactivate user?' : 'Reactivate user?'}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {isActive
+              ? `${userName} will be signed out everywhere and blocked from signing in until reactivated. Their shipments and history are kept.`
+              : `${userName} will be able to sign in again with their existing role.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={saving}
+            className={isActive ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : undefined}
+          >
+            {saving ? 'Saving...' : isActive ? 'Deactivate' : 'Reactivate'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,47 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WEIGHT_UNITS, WEIGHT_UNIT_LABELS, WeightUnit } from '@/lib/cargo';
+
+interface WeightInputProps {
+  id: string;
+  quantity: string;
+  unit: WeightUnit;
+  onQuantityChange: (quantity: string) => void;
+  onUnitChange: (unit: WeightUnit) => void;
+  allowNegative?: boolean;
+  placeholder?: string;
+}
+
+export const WeightInput = ({
+  id,
+  quantity,
+  unit,
+  onQuantityChange,
+  onUnitChange,
+  allowNegative = false,
+  placeholder = 'e.g., 40'
+}: WeightInputProps) => (
+  <div className="flex gap-2">
+    <Input
+      id={id}
+      type="number"
+      min={allowNegative ? undefined : '0'}
+      step="0.001"
+      value={quantity}
+      onChange={(e) => onQuantityChange(e.target.value)}
+      placeholder={placeholder}
+    />
+    <Select value={unit} onValueChange={(value) => onUnitChange(value as WeightUnit)}>
+      <SelectTrigger className="w-32" aria-label="Weight unit">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WEIGHT_UNITS.map((weightUnit) => (
+          <SelectItem key={weightUnit} value={weightUnit}>
+            {WEIGHT_UNIT_LABELS[weightUnit]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
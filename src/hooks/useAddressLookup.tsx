@@ -0,0 +1,17 @@
+import { useCallback, useRef } from 'react';
+import { LatLng } from '@/lib/maps';
+import { reverseGeocode } from '@/lib/geocoding';
+
+// Reverse geocodes points picked on a map. Each key (such as 'origin') keeps only its latest lookup,
+// so a slow reply for a marker that has since been dragged again is dropped rather than overwriting the newer address.
+export const useAddressLookup = () => {
+  const latest = useRef<Record<string, number>>({});
+
+  return useCallback(async (key: string, position: LatLng): Promise<string | null> => {
+    const request = (latest.current[key] ?? 0) + 1;
+    latest.current[key] = request;
+
+    const address = await reverseGeocode(position);
+    return latest.current[key] === request ? address : null;
+  }, []);
+};
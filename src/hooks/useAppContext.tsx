@@ -0,0 +1,13 @@
+import { useOutletContext } from 'react-router-dom';
+import { UserRole } from './useUserRole';
+
+export interface AppContext {
+  userId: string;
+  userRole: UserRole;
+  organizationId: string;
+  // Opens another of the user's organizations; false when they do not belong to it
+  switchOrganization: (id: string) => boolean;
+}
+
+// Signed-in user, the role they are acting as and the active organization provided by the layout in pages/Index.tsx
+export const useAppContext = () => useOutletContext<AppContext>();
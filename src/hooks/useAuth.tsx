@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { GatewaySession, callAuthGateway } from '@/lib/authGateway';
 import { useRateLimiter } from './useRateLimiter';
 import { useInputValidation } from './useInputValidation';
 
@@ -9,21 +10,75 @@ export const useAuth = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   
-  // Rate limiting for auth attempts
+  // Mirrors of the limits the auth-gateway edge function enforces, for UI feedback
   const signInLimiter = useRateLimiter('signIn', {
     maxAttempts: 5,
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    blockDurationMs: 15 * 60 * 1000 // 15 minutes
+    windowMs: 15 * 60 * 1000 // 15 minutes
   });
   
   const signUpLimiter = useRateLimiter('signUp', {
     maxAttempts: 3,
-    windowMs: 60 * 60 * 1000, // 1 hour
-    blockDurationMs: 60 * 60 * 1000 // 1 hour
+    windowMs: 60 * 60 * 1000 // 1 hour
+  });
+
+  // Each of these sends an email, so they are held to the sign up limits
+  const passwordResetLimiter = useRateLimiter('passwordReset', {
+    maxAttempts: 3,
+    windowMs: 60 * 60 * 1000 // 1 hour
+  });
+
+  const magicLinkLimiter = useRateLimiter('magicLink', {
+    maxAttempts: 3,
+    windowMs: 60 * 60 * 1000 // 1 hour
+  });
+
+  const resendVerificationLimiter = useRateLimiter('resendVerification', {
+    maxAttempts: 3,
+    windowMs: 60 * 60 * 1000 // 1 hour
+  });
+
+  const updatePasswordLimiter = useRateLimiter('updatePassword', {
+    maxAttempts: 5,
+    windowMs: 15 * 60 * 1000 // 15 minutes
+  });
+
+  // Six digit codes are easy to guess without a limit
+  const mfaVerifyLimiter = useRateLimiter('mfaVerify', {
+    maxAttempts: 5,
+    windowMs: 15 * 60 * 1000 // 15 minutes
   });
   
   const { validateField, sanitizeInput } = useInputValidation();
 
+  // Links in auth emails come back through the callback route, which finishes signing in
+  const callbackUrl = `${window.location.origin}/auth/callback`;
+
+  // Skips a request the gateway is known to refuse; the gateway still checks every one
+  const blockedError = (limiter: ReturnType<typeof useRateLimiter>, action: string) => {
+    if (!limiter.isBlocked()) return null;
+
+    const remaining = limiter.getBlockedTimeRemaining();
+    const minutes = Math.ceil(remaining / (60 * 1000));
+    return { message: `Too many ${action} attempts. Please try again in ${minutes} minutes.` };
+  };
+
+  const validateEmail = (email: string) => validateField(email, {
+    required: true,
+    email: true,
+    maxLength: 254
+  });
+
+  // Sign ins and verifications done by the gateway hand their session to this client
+  const adoptSession = async (session: GatewaySession | null | undefined) => {
+    if (!session) return { error: null };
+
+    const { error } = await supabase.auth.setSession({
+      access_token: session.access_token,
+      refresh_token: session.refresh_token
+    });
+    return { error };
+  };
+
   useEffect(() => {
     // Set up auth state listener first
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -44,18 +99,10 @@ export const useAuth = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email: string, password: string, fullName?: string) => {
-    // Rate limiting check
-    const clientId = 'user'; // In a real app, you might use IP address or session ID
-    if (signUpLimiter.isBlocked(clientId)) {
-      const remaining = signUpLimiter.getBlockedTimeRemaining(clientId);
-      const minutes = Math.ceil(remaining / (60 * 1000));
-      return { 
-        error: { 
-          message: `Too many signup attempts. Please try again in ${minutes} minutes.` 
-        } 
-      };
-    }
+  // An invitation token lets handle_new_user add the new account to the inviting organization
+  const signUp = async (email: string, password: string, fullName?: string, inviteToken?: string) => {
+    const blocked = blockedError(signUpLimiter, 'signup');
+    if (blocked) return { error: blocked };
     
     // Input validation
     const emailValidation = validateField(email, { 
@@ -86,40 +133,29 @@ export const useAuth = () => {
       }
     }
     
-    // Record attempt
-    signUpLimiter.recordAttempt(clientId);
-    
     // Sanitize inputs
     const sanitizedEmail = sanitizeInput(email.trim().toLowerCase());
     const sanitizedFullName = fullName ? sanitizeInput(fullName.trim()) : '';
     
-    const redirectUrl = `${window.location.origin}/`;
-    
-    const { error } = await supabase.auth.signUp({
+    const { data, error, rateLimit } = await callAuthGateway<{ session: GatewaySession | null }>('signUp', {
       email: sanitizedEmail,
       password, // Don't sanitize password as it may contain special characters intentionally
-      options: {
-        emailRedirectTo: redirectUrl,
-        data: {
-          full_name: sanitizedFullName
-        }
+      redirect_to: callbackUrl,
+      data: {
+        full_name: sanitizedFullName,
+        ...(inviteToken && { invite_token: inviteToken })
       }
     });
-    return { error };
+    signUpLimiter.sync(rateLimit);
+    if (error) return { error };
+
+    // Projects without email confirmation sign the new account straight in
+    return adoptSession(data?.session);
   };
 
   const signIn = async (email: string, password: string) => {
-    // Rate limiting check
-    const clientId = 'user'; // In a real app, you might use IP address or session ID
-    if (signInLimiter.isBlocked(clientId)) {
-      const remaining = signInLimiter.getBlockedTimeRemaining(clientId);
-      const minutes = Math.ceil(remaining / (60 * 1000));
-      return { 
-        error: { 
-          message: `Too many login attempts. Please try again in ${minutes} minutes.` 
-        } 
-      };
-    }
+    const blocked = blockedError(signInLimiter, 'login');
+    if (blocked) return { error: blocked };
     
     // Input validation
     const emailValidation = validateField(email, { 
@@ -139,24 +175,137 @@ export const useAuth = () => {
       return { error: { message: passwordValidation.error } };
     }
     
-    // Record attempt
-    signInLimiter.recordAttempt(clientId);
-    
     // Sanitize email input
     const sanitizedEmail = sanitizeInput(email.trim().toLowerCase());
     
-    const { error } = await supabase.auth.signInWithPassword({
+    const { data, error, rateLimit } = await callAuthGateway<{ session: GatewaySession }>('signIn', {
       email: sanitizedEmail,
       password, // Don't sanitize password
     });
+    signInLimiter.sync(rateLimit);
+    if (error) return { error };
+
+    return adoptSession(data?.session);
+  };
+
+  // True after a password or link sign in when the account has an authenticator to check
+  const needsMfaChallenge = async () => {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (error) return false;
+    return data.nextLevel === 'aal2' && data.currentLevel !== 'aal2';
+  };
+
+  // Checks a code from the authenticator app, raising the session to aal2. Enrollment passes
+  // the new factor; sign in uses the account's verified one.
+  const verifyMfa = async (code: string, factorId?: string) => {
+    const blocked = blockedError(mfaVerifyLimiter, 'verification');
+    if (blocked) return { error: blocked };
+
+    const codeValidation = validateField(code, {
+      required: true,
+      pattern: /^\d{6}$/
+    });
+    if (!codeValidation.isValid) {
+      return { error: { message: 'Enter the 6-digit code from your authenticator app' } };
+    }
+
+    let verifyFactorId = factorId;
+    if (!verifyFactorId) {
+      const { data, error: factorsError } = await supabase.auth.mfa.listFactors();
+      if (factorsError) return { error: factorsError };
+      verifyFactorId = data.totp[0]?.id;
+    }
+    if (!verifyFactorId) {
+      return { error: { message: 'No authenticator app is set up for this account' } };
+    }
+
+    const { data, error, rateLimit } = await callAuthGateway<{ session: GatewaySession }>('mfaVerify', {
+      factor_id: verifyFactorId,
+      code
+    });
+    mfaVerifyLimiter.sync(rateLimit);
+    if (error) return { error };
+
+    // The verified session is aal2
+    return adoptSession(data?.session);
+  };
+
+  const signInWithMagicLink = async (email: string) => {
+    const blocked = blockedError(magicLinkLimiter, 'sign-in link');
+    if (blocked) return { error: blocked };
+
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.isValid) {
+      return { error: { message: emailValidation.error } };
+    }
+
+    // Only existing accounts get a link; new users still sign up with a password
+    const { error, rateLimit } = await callAuthGateway('magicLink', {
+      email: sanitizeInput(email.trim().toLowerCase()),
+      redirect_to: callbackUrl
+    });
+    magicLinkLimiter.sync(rateLimit);
+    return { error };
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    const blocked = blockedError(passwordResetLimiter, 'password reset');
+    if (blocked) return { error: blocked };
+
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.isValid) {
+      return { error: { message: emailValidation.error } };
+    }
+
+    const { error, rateLimit } = await callAuthGateway('passwordReset', {
+      email: sanitizeInput(email.trim().toLowerCase()),
+      redirect_to: `${window.location.origin}/auth/reset-password`
+    });
+    passwordResetLimiter.sync(rateLimit);
+    return { error };
+  };
+
+  const resendVerification = async (email: string) => {
+    const blocked = blockedError(resendVerificationLimiter, 'verification email');
+    if (blocked) return { error: blocked };
+
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.isValid) {
+      return { error: { message: emailValidation.error } };
+    }
+
+    const { error, rateLimit } = await callAuthGateway('resendVerification', {
+      email: sanitizeInput(email.trim().toLowerCase()),
+      redirect_to: callbackUrl
+    });
+    resendVerificationLimiter.sync(rateLimit);
+    return { error };
+  };
+
+  // Sets a new password for the signed-in user, including sessions opened from a reset link
+  const updatePassword = async (password: string) => {
+    const blocked = blockedError(updatePasswordLimiter, 'password change');
+    if (blocked) return { error: blocked };
+
+    const passwordValidation = validateField(password, {
+      required: true,
+      strongPassword: true,
+      maxLength: 128
+    });
+    if (!passwordValidation.isValid) {
+      return { error: { message: passwordValidation.error } };
+    }
+
+    const { error, rateLimit } = await callAuthGateway('updatePassword', { password });
+    updatePasswordLimiter.sync(rateLimit);
     return { error };
   };
 
   const signOut = async () => {
     const cleanupAuthState = () => {
-      // Clear auth state and rate limiting data
+      // Clear auth state; rate limit mirrors stay, since signing out does not lift a server-side block
       Object.keys(localStorage).forEach((key) => {
-        if (key.startsWith('supabase.auth.') || key.includes('sb-') || key.startsWith('rateLimit_')) {
+        if (key.startsWith('supabase.auth.') || key.includes('sb-')) {
           localStorage.removeItem(key);
         }
       });
@@ -183,11 +332,22 @@ export const useAuth = () => {
     loading,
     signUp,
     signIn,
+    signInWithMagicLink,
+    requestPasswordReset,
+    resendVerification,
+    updatePassword,
+    needsMfaChallenge,
+    verifyMfa,
     signOut,
     // Expose rate limiting info for UI feedback
-    getSignInAttemptsRemaining: () => signInLimiter.getRemainingAttempts('user'),
-    getSignUpAttemptsRemaining: () => signUpLimiter.getRemainingAttempts('user'),
-    isSignInBlocked: () => signInLimiter.isBlocked('user'),
-    isSignUpBlocked: () => signUpLimiter.isBlocked('user')
+    getSignInAttemptsRemaining: () => signInLimiter.getRemainingAttempts(),
+    getSignUpAttemptsRemaining: () => signUpLimiter.getRemainingAttempts(),
+    isSignInBlocked: () => signInLimiter.isBlocked(),
+    isSignUpBlocked: () => signUpLimiter.isBlocked(),
+    isMagicLinkBlocked: () => magicLinkLimiter.isBlocked(),
+    isPasswordResetBlocked: () => passwordResetLimiter.isBlocked(),
+    isResendVerificationBlocked: () => resendVerificationLimiter.isBlocked(),
+    isUpdatePasswordBlocked: () => updatePasswordLimiter.isBlocked(),
+    isMfaVerifyBlocked: () => mfaVerifyLimiter.isBlocked()
   };
 };
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Commodity } from '@/lib/cargo';
+
+export const useCommodities = () => {
+  const [commodities, setCommodities] = useState<Commodity[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCommodities = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('commodities')
+          .select('*')
+          .order('name');
+
+        if (error) throw error;
+        setCommodities(data || []);
+      } catch (err) {
+        console.error('Error fetching commodities:', err);
+        setCommodities([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCommodities();
+  }, []);
+
+  const getCommodityName = (code: string | null) => {
+    if (!code) return null;
+    return commodities.find((c) => c.code === code)?.name ?? code;
+  };
+
+  return {
+    commodities,
+    activeCommodities: commodities.filter((c) => c.is_active),
+    loading,
+    getCommodityName
+  };
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Farmer {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+export const useFarmers = (organizationId: string, enabled: boolean = true) => {
+  const [farmers, setFarmers] = useState<Farmer[]>([]);
+  const [loading, setLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled) {
+      setFarmers([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchFarmers = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase.rpc('list_farmers', { _organization_id: organizationId });
+
+        if (error) throw error;
+        setFarmers(data || []);
+      } catch (err) {
+        console.error('Error fetching farmers:', err);
+        setFarmers([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFarmers();
+  }, [organizationId, enabled]);
+
+  const getFarmerName = (id: string | null) => {
+    if (!id) return null;
+    const farmer = farmers.find((f) => f.id === id);
+    return farmer?.full_name || farmer?.email || 'Unknown farmer';
+  };
+
+  return {
+    farmers,
+    loading,
+    getFarmerName
+  };
+};
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback, useId } from 'react';
+import {
+  RealtimePostgresDeletePayload,
+  RealtimePostgresInsertPayload,
+  RealtimePostgresUpdatePayload
+} from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { FLEET_STATUSES, FleetShipment } from '@/lib/fleet';
+
+// Trucks report their position every minute or so, so changes are applied to the list rather than refetching it
+const applyChange = (
+  current: FleetShipment[],
+  payload: RealtimePostgresInsertPayload<FleetShipment> | RealtimePostgresUpdatePayload<FleetShipment>
+) => {
+  const changed = payload.new;
+  const others = current.filter((shipment) => shipment.id !== changed.id);
+  return FLEET_STATUSES.includes(changed.status) ? [changed, ...others] : others;
+};
+
+// An organization's active shipments, kept current through Realtime as they are created, assigned and moved along.
+// Row-level security still decides which of them the viewer sees.
+export const useFleetShipments = (organizationId: string) => {
+  const [shipments, setShipments] = useState<FleetShipment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const channelId = useId();
+
+  const fetchShipments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('shipments')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .in('status', FLEET_STATUSES)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setShipments(data || []);
+    } catch (err) {
+      console.error('Error fetching fleet shipments:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchShipments();
+
+    const filter = `organization_id=eq.${organizationId}`;
+    const channel = supabase
+      .channel(`fleet-shipments-${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'shipments', filter },
+        (payload: RealtimePostgresInsertPayload<FleetShipment>) => setShipments((current) => applyChange(current, payload))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'shipments', filter },
+        (payload: RealtimePostgresUpdatePayload<FleetShipment>) => setShipments((current) => applyChange(current, payload))
+      )
+      // Deletes only carry the primary key, so they cannot be filtered by organization. Ids that are not in
+      // the list belong to other organizations and are ignored.
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'shipments' },
+        (payload: RealtimePostgresDeletePayload<FleetShipment>) =>
+          setShipments((current) => current.filter((shipment) => shipment.id !== payload.old.id))
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organizationId, channelId, fetchShipments]);
+
+  return {
+    shipments,
+    loading,
+    refetch: fetchShipments
+  };
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Invitation } from '@/lib/invitations';
+
+// An organization's open invitations, newest first
+export const useInvitations = (organizationId: string) => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invitations')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (err) {
+      console.error('Error fetching invitations:', err);
+      setInvitations([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const revokeInvitation = async (invitationId: string) => {
+    const { error } = await supabase.rpc('revoke_invitation', { _invitation_id: invitationId });
+
+    if (error) throw error;
+    await fetchInvitations();
+  };
+
+  return {
+    invitations,
+    loading,
+    revokeInvitation,
+    refetch: fetchInvitations
+  };
+};
@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { LatLng } from '@/lib/maps';
+import { LocationFix, hasMoved, isBatteryLow, nextFixDelay, toLocationFix } from '@/lib/tracking';
+
+// Fixes kept for later while offline; older ones are dropped past this
+const MAX_QUEUED_FIXES = 500;
+// The server refuses the shipment outright: it is no longer on the way or no longer this transporter's
+const REFUSED_CODES = ['23514', '42501', 'P0002'];
+
+const takeFix = () =>
+  new Promise<GeolocationPosition>((resolve, reject) =>
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      enableHighAccuracy: true,
+      timeout: 30_000,
+      maximumAge: 15_000
+    })
+  );
+
+// Posts the browser's position for a shipment while tracking is on.
+// Readings are spaced out to spare the battery, and queued while the connection is down.
+export const useLocationTracking = (shipmentId: string | null) => {
+  const [active, setActive] = useState(false);
+  const [lastFix, setLastFix] = useState<LocationFix | null>(null);
+  const [nextFixAt, setNextFixAt] = useState<number | null>(null);
+  const [queued, setQueued] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const queueRef = useRef<LocationFix[]>([]);
+  const flushingRef = useRef(false);
+
+  const start = useCallback(() => {
+    if (!('geolocation' in navigator)) {
+      setError('This browser cannot share its location.');
+      return;
+    }
+    setError(null);
+    setActive(true);
+  }, []);
+
+  const stop = useCallback(() => {
+    setActive(false);
+    setNextFixAt(null);
+  }, []);
+
+  // A different shipment starts from scratch
+  useEffect(() => {
+    queueRef.current = [];
+    setQueued(0);
+    setLastFix(null);
+    setActive(false);
+    setNextFixAt(null);
+  }, [shipmentId]);
+
+  useEffect(() => {
+    if (!active || !shipmentId) return;
+
+    let cancelled = false;
+    let timer: number | undefined;
+    let lastPoint: LatLng | null = null;
+
+    const flush = async () => {
+      if (flushingRef.current) return;
+      flushingRef.current = true;
+      try {
+        while (queueRef.current.length > 0 && !cancelled) {
+          const fix = queueRef.current[0];
+          const { error: rpcError } = await supabase.rpc('record_shipment_location', {
+            _shipment_id: shipmentId,
+            _lat: fix.lat,
+            _lng: fix.lng,
+            _accuracy_m: fix.accuracy_m ?? undefined,
+            _speed_mps: fix.speed_mps ?? undefined,
+            _heading: fix.heading ?? undefined,
+            _recorded_at: fix.recorded_at
+          });
+
+          if (rpcError) {
+            if (REFUSED_CODES.includes(rpcError.code)) {
+              queueRef.current = [];
+              setError(rpcError.message);
+              setActive(false);
+            }
+            // Anything else is most likely the connection; the fix stays queued for the next reading
+            break;
+          }
+          queueRef.current.shift();
+        }
+      } finally {
+        flushingRef.current = false;
+        setQueued(queueRef.current.length);
+      }
+    };
+
+    const tick = async () => {
+      let moving = true;
+      try {
+        const fix = toLocationFix(await takeFix());
+        if (cancelled) return;
+
+        moving = hasMoved(lastPoint, fix);
+        lastPoint = fix;
+        queueRef.current = [...queueRef.current, fix].slice(-MAX_QUEUED_FIXES);
+        setLastFix(fix);
+        setError(null);
+        await flush();
+      } catch (err) {
+        if (cancelled) return;
+        if (err instanceof GeolocationPositionError && err.code === err.PERMISSION_DENIED) {
+          setError('Location access was denied. Allow it in the browser settings to share your position.');
+          setActive(false);
+          return;
+        }
+        const message = err instanceof GeolocationPositionError || err instanceof Error ? err.message : '';
+        setError(message || 'Could not read your location.');
+      }
+
+      if (cancelled) return;
+      const delay = nextFixDelay(moving, await isBatteryLow());
+      setNextFixAt(Date.now() + delay);
+      timer = window.setTimeout(tick, delay);
+    };
+
+    tick();
+    window.addEventListener('online', flush);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      window.removeEventListener('online', flush);
+    };
+  }, [active, shipmentId]);
+
+  return {
+    active,
+    lastFix,
+    nextFixAt,
+    queued,
+    error,
+    start,
+    stop
+  };
+};
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AuthenticatorAssuranceLevels, Factor, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// The user's TOTP factors and how far the current session has been verified
+export const useMfa = (user: User | null) => {
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [currentLevel, setCurrentLevel] = useState<AuthenticatorAssuranceLevels | null>(null);
+  const [nextLevel, setNextLevel] = useState<AuthenticatorAssuranceLevels | null>(null);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const fetchMfa = useCallback(async () => {
+    if (!user) {
+      setFactors([]);
+      setCurrentLevel(null);
+      setNextLevel(null);
+      setLoadedFor(null);
+      return;
+    }
+
+    try {
+      const [factorsResult, levelResult] = await Promise.all([
+        supabase.auth.mfa.listFactors(),
+        supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+      ]);
+
+      if (factorsResult.error) throw factorsResult.error;
+      if (levelResult.error) throw levelResult.error;
+
+      // Verified authenticators only; abandoned enrollments are left out
+      setFactors(factorsResult.data.totp);
+      setCurrentLevel(levelResult.data.currentLevel);
+      setNextLevel(levelResult.data.nextLevel);
+    } catch (err) {
+      console.error('Error fetching two-factor status:', err);
+      setFactors([]);
+    } finally {
+      setLoadedFor(user.id);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchMfa();
+  }, [fetchMfa]);
+
+  return {
+    factors,
+    isVerified: currentLevel === 'aal2',
+    // A factor exists but this session has not been checked against it yet
+    needsChallenge: nextLevel === 'aal2' && currentLevel !== 'aal2',
+    loading: !!user && loadedFor !== user.id,
+    refetch: fetchMfa
+  };
+};
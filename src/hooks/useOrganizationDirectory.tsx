@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface OrganizationListing {
+  id: string;
+  name: string;
+}
+
+// Every organization's name, for people choosing which one to join
+export const useOrganizationDirectory = (enabled: boolean = true) => {
+  const [organizations, setOrganizations] = useState<OrganizationListing[]>([]);
+  const [loading, setLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled) {
+      setOrganizations([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchOrganizations = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase.rpc('list_organizations');
+
+        if (error) throw error;
+        setOrganizations(data || []);
+      } catch (err) {
+        console.error('Error fetching organizations:', err);
+        setOrganizations([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOrganizations();
+  }, [enabled]);
+
+  const getOrganizationName = (id: string | null) => {
+    if (!id) return null;
+    return organizations.find((org) => org.id === id)?.name || 'Unknown organization';
+  };
+
+  return {
+    organizations,
+    loading,
+    getOrganizationName
+  };
+};
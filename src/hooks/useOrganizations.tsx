@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { User } from '@supabase/supabase-js';
+
+export type Organization = Database['public']['Tables']['organizations']['Row'];
+
+const ACTIVE_ORGANIZATION_KEY = 'activeOrganizationId';
+
+// Organizations the user belongs to (every organization for super admins) and the one they are working in
+export const useOrganizations = (user: User | null) => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_ORGANIZATION_KEY));
+  const [loading, setLoading] = useState(true);
+
+  const fetchOrganizations = useCallback(async () => {
+    if (!user) {
+      setOrganizations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setOrganizations(data || []);
+    } catch (err) {
+      console.error('Error fetching organizations:', err);
+      setOrganizations([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  const setActiveOrganization = useCallback((id: string) => {
+    localStorage.setItem(ACTIVE_ORGANIZATION_KEY, id);
+    setActiveId(id);
+  }, []);
+
+  // A stored choice the user no longer belongs to falls back to their first organization
+  const activeOrganization = organizations.find((org) => org.id === activeId) ?? organizations[0] ?? null;
+
+  return {
+    organizations,
+    activeOrganization,
+    setActiveOrganization,
+    loading,
+    refetch: fetchOrganizations
+  };
+};
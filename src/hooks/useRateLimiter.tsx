@@ -1,136 +1,73 @@
 import { useState, useCallback } from 'react';
+import { RateLimitState } from '@/lib/authGateway';
 
 interface RateLimiterConfig {
   maxAttempts: number;
   windowMs: number;
-  blockDurationMs: number;
 }
 
-interface AttemptRecord {
-  count: number;
-  firstAttempt: number;
-  blocked: boolean;
-  blockedUntil?: number;
+interface MirrorRecord {
+  remaining: number;
+  blockedUntil: number | null;
+  recordedAt: number;
 }
 
+// Mirrors the limits the auth-gateway edge function enforces so forms can warn before a request is refused.
+// The server decides; this only remembers what it last reported, so clearing storage just hides the warning.
 export const useRateLimiter = (key: string, config: RateLimiterConfig) => {
-  const [attempts, setAttempts] = useState<Map<string, AttemptRecord>>(new Map());
-
-  const isBlocked = useCallback((identifier: string = 'default'): boolean => {
-    const storageKey = `rateLimit_${key}_${identifier}`;
-    const now = Date.now();
-    
-    // Check localStorage for persistence across page reloads
-    const stored = localStorage.getItem(storageKey);
-    if (stored) {
-      try {
-        const parsed: AttemptRecord = JSON.parse(stored);
-        if (parsed.blocked && parsed.blockedUntil && now < parsed.blockedUntil) {
-          return true;
-        }
-        if (parsed.blocked && parsed.blockedUntil && now >= parsed.blockedUntil) {
-          // Block expired, clean up
-          localStorage.removeItem(storageKey);
-          setAttempts(prev => {
-            const newMap = new Map(prev);
-            newMap.delete(identifier);
-            return newMap;
-          });
-          return false;
-        }
-      } catch (e) {
-        // Invalid stored data, clean up
-        localStorage.removeItem(storageKey);
-      }
-    }
-
-    const attempt = attempts.get(identifier);
-    if (!attempt) return false;
-
-    if (attempt.blocked && attempt.blockedUntil && now < attempt.blockedUntil) {
-      return true;
-    }
-
-    return false;
-  }, [key, attempts, config.blockDurationMs]);
-
-  const recordAttempt = useCallback((identifier: string = 'default'): boolean => {
-    const storageKey = `rateLimit_${key}_${identifier}`;
-    const now = Date.now();
-
-    if (isBlocked(identifier)) {
-      return false; // Already blocked
+  const storageKey = `rateLimit_${key}`;
+  // Re-renders forms when the state changes; reads go to storage so callers see a reply they just synced
+  const [, setRecord] = useState<MirrorRecord | null>(null);
+
+  // Kept in localStorage so a lockout still shows after a reload
+  const readRecord = useCallback((): MirrorRecord | null => {
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+      localStorage.removeItem(storageKey);
+      return null;
     }
+  }, [storageKey]);
 
-    setAttempts(prev => {
-      const newMap = new Map(prev);
-      const existing = newMap.get(identifier);
-      
-      if (!existing || (now - existing.firstAttempt) > config.windowMs) {
-        // First attempt or outside window, reset
-        const newRecord: AttemptRecord = {
-          count: 1,
-          firstAttempt: now,
-          blocked: false
-        };
-        newMap.set(identifier, newRecord);
-        localStorage.setItem(storageKey, JSON.stringify(newRecord));
-        return newMap;
-      }
-
-      // Within window, increment
-      const newCount = existing.count + 1;
-      if (newCount >= config.maxAttempts) {
-        // Block the identifier
-        const blockedRecord: AttemptRecord = {
-          ...existing,
-          count: newCount,
-          blocked: true,
-          blockedUntil: now + config.blockDurationMs
-        };
-        newMap.set(identifier, blockedRecord);
-        localStorage.setItem(storageKey, JSON.stringify(blockedRecord));
-      } else {
-        const updatedRecord: AttemptRecord = {
-          ...existing,
-          count: newCount
-        };
-        newMap.set(identifier, updatedRecord);
-        localStorage.setItem(storageKey, JSON.stringify(updatedRecord));
-      }
+  // Record the state the gateway returned with its last reply
+  const sync = useCallback((state: RateLimitState | null) => {
+    if (!state) return;
 
-      return newMap;
-    });
-
-    return true; // Attempt recorded successfully
-  }, [key, attempts, config, isBlocked]);
-
-  const getRemainingAttempts = useCallback((identifier: string = 'default'): number => {
-    if (isBlocked(identifier)) return 0;
-    
-    const attempt = attempts.get(identifier);
-    if (!attempt) return config.maxAttempts;
-    
     const now = Date.now();
-    if ((now - attempt.firstAttempt) > config.windowMs) {
-      return config.maxAttempts; // Outside window
+    const next: MirrorRecord = {
+      remaining: state.remaining,
+      blockedUntil: state.retry_after > 0 ? now + state.retry_after * 1000 : null,
+      recordedAt: now
+    };
+    localStorage.setItem(storageKey, JSON.stringify(next));
+    setRecord(next);
+  }, [storageKey]);
+
+  const getBlockedTimeRemaining = useCallback((): number => {
+    const record = readRecord();
+    if (!record?.blockedUntil) return 0;
+    return Math.max(0, record.blockedUntil - Date.now());
+  }, [readRecord]);
+
+  const isBlocked = useCallback((): boolean => getBlockedTimeRemaining() > 0, [getBlockedTimeRemaining]);
+
+  const getRemainingAttempts = useCallback((): number => {
+    if (isBlocked()) return 0;
+
+    const record = readRecord();
+    // A lockout that ended or a window that ran out starts the count again
+    if (!record || record.blockedUntil || (Date.now() - record.recordedAt) > config.windowMs) {
+      return config.maxAttempts;
     }
-    
-    return Math.max(0, config.maxAttempts - attempt.count);
-  }, [attempts, config, isBlocked]);
 
-  const getBlockedTimeRemaining = useCallback((identifier: string = 'default'): number => {
-    const attempt = attempts.get(identifier);
-    if (!attempt || !attempt.blocked || !attempt.blockedUntil) return 0;
-    
-    const now = Date.now();
-    return Math.max(0, attempt.blockedUntil - now);
-  }, [attempts]);
+    return record.remaining;
+  }, [config, isBlocked, readRecord]);
 
   return {
     isBlocked,
-    recordAttempt,
+    sync,
     getRemainingAttempts,
     getBlockedTimeRemaining
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { User } from '@supabase/supabase-js';
+import { UserRole } from './useUserRole';
+
+export type RoleRequest = Database['public']['Tables']['role_requests']['Row'];
+export type RequestableRole = Exclude<UserRole, 'administrator'>;
+
+// The signed-in user's most recent role request, kept live so approval lands without a reload
+export const useRoleRequest = (user: User | null) => {
+  const [request, setRequest] = useState<RoleRequest | null>(null);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const fetchRequest = useCallback(async () => {
+    if (!user) {
+      setRequest(null);
+      setLoadedFor(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('role_requests')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setRequest(data);
+    } catch (err) {
+      console.error('Error fetching role request:', err);
+      setRequest(null);
+    } finally {
+      setLoadedFor(user.id);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchRequest();
+
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`role-requests-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'role_requests', filter: `user_id=eq.${user.id}` },
+        () => fetchRequest()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchRequest]);
+
+  const submitRequest = async (organizationId: string, role: RequestableRole, note: string) => {
+    const { error } = await supabase.rpc('request_role', {
+      _organization_id: organizationId,
+      _role: role,
+      _note: note.trim() || undefined
+    });
+
+    if (error) throw error;
+    await fetchRequest();
+  };
+
+  const withdrawRequest = async () => {
+    if (!request) return;
+
+    const { error } = await supabase.rpc('withdraw_role_request', { _request_id: request.id });
+
+    if (error) throw error;
+    await fetchRequest();
+  };
+
+  return {
+    request,
+    loading: !!user && loadedFor !== user.id,
+    submitRequest,
+    withdrawRequest,
+    refetch: fetchRequest
+  };
+};
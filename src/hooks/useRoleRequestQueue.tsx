@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback, useId } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type PendingRoleRequest = Database['public']['Functions']['list_role_requests']['Returns'][number];
+
+// An organization's pending role requests, refreshed as requests are made or settled
+export const useRoleRequestQueue = (organizationId: string, enabled: boolean = true) => {
+  const [requests, setRequests] = useState<PendingRoleRequest[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const channelId = useId();
+
+  const fetchRequests = useCallback(async () => {
+    if (!enabled) {
+      setRequests([]);
+      setLoadedFor(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('list_role_requests', { _organization_id: organizationId });
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (err) {
+      console.error('Error fetching role requests:', err);
+      setRequests([]);
+    } finally {
+      setLoadedFor(organizationId);
+    }
+  }, [organizationId, enabled]);
+
+  useEffect(() => {
+    fetchRequests();
+
+    if (!enabled) return;
+
+    // Each consumer needs its own channel; a shared name would be torn down by whichever unmounts first
+    const channel = supabase
+      .channel(`role-request-queue-${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'role_requests', filter: `organization_id=eq.${organizationId}` },
+        () => fetchRequests()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organizationId, enabled, channelId, fetchRequests]);
+
+  return {
+    requests,
+    // Derived rather than stored so the render that enables or switches the queue already reports loading
+    loading: enabled && loadedFor !== organizationId,
+    refetch: fetchRequests
+  };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SeedLot } from '@/lib/seedLots';
+
+export const useSeedLots = (organizationId: string, enabled: boolean = true) => {
+  const [lots, setLots] = useState<SeedLot[]>([]);
+  const [loading, setLoading] = useState(enabled);
+
+  const fetchLots = useCallback(async () => {
+    if (!enabled) {
+      setLots([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('seed_lots')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setLots(data || []);
+    } catch (err) {
+      console.error('Error fetching seed lots:', err);
+      setLots([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, enabled]);
+
+  useEffect(() => {
+    fetchLots();
+  }, [fetchLots]);
+
+  return {
+    lots,
+    activeLots: lots.filter((lot) => lot.status === 'active'),
+    loading,
+    refetch: fetchLots
+  };
+};
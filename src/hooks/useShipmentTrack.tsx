@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useId } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ShipmentLocation } from '@/lib/tracking';
+
+// The breadcrumbs recorded for a shipment, oldest first, growing as the transporter reports in
+export const useShipmentTrack = (shipmentId: string | undefined) => {
+  const [locations, setLocations] = useState<ShipmentLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const channelId = useId();
+
+  const fetchLocations = useCallback(async () => {
+    if (!shipmentId) {
+      setLocations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('shipment_locations')
+        .select('*')
+        .eq('shipment_id', shipmentId)
+        .order('recorded_at', { ascending: true });
+
+      if (error) throw error;
+      setLocations(data || []);
+    } catch (err) {
+      console.error('Error fetching shipment locations:', err);
+      setLocations([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    fetchLocations();
+
+    if (!shipmentId) return;
+
+    const channel = supabase
+      .channel(`shipment-track-${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'shipment_locations', filter: `shipment_id=eq.${shipmentId}` },
+        (payload) => {
+          const location = payload.new as ShipmentLocation;
+          // Fixes queued offline can arrive after newer ones, so keep the trail in recorded order
+          setLocations((current) =>
+            [...current.filter((l) => l.id !== location.id), location]
+              .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [shipmentId, channelId, fetchLocations]);
+
+  return {
+    locations,
+    lastLocation: locations.length > 0 ? locations[locations.length - 1] : null,
+    loading,
+    refetch: fetchLocations
+  };
+};
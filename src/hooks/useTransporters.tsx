@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Transporter {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+export const useTransporters = (organizationId: string, enabled: boolean = true) => {
+  const [transporters, setTransporters] = useState<Transporter[]>([]);
+  const [loading, setLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled) {
+      setTransporters([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchTransporters = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase.rpc('list_transporters', { _organization_id: organizationId });
+
+        if (error) throw error;
+        setTransporters(data || []);
+      } catch (err) {
+        console.error('Error fetching transporters:', err);
+        setTransporters([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTransporters();
+  }, [organizationId, enabled]);
+
+  const getTransporterName = (id: string | null) => {
+    if (!id) return null;
+    const transporter = transporters.find((t) => t.id === id);
+    return transporter?.full_name || transporter?.email || 'Unknown transporter';
+  };
+
+  return {
+    transporters,
+    loading,
+    getTransporterName
+  };
+};
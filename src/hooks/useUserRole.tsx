@@ -1,84 +1,95 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
 
 export type UserRole = 'administrator' | 'farmer' | 'transporter';
 
-export const useUserRole = (user: User | null) => {
-  const [userRole, setUserRole] = useState<UserRole | null>(null);
-  const [loading, setLoading] = useState(true);
+// Stored per user and organization, so the choice made in one workspace does not carry over to another
+const activeRoleStorageKey = (key: string) => `activeRole_${key}`;
+
+// Roles held in the active organization and the one the user is acting as.
+// Super admins act as administrators in every organization.
+export const useUserRole = (user: User | null, organizationId: string | null) => {
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [storedRole, setStoredRole] = useState<{ key: string; role: UserRole } | null>(null);
+  const [isSuperAdmin, setIsSuperAdmin] = useState(false);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const key = user ? `${user.id}:${organizationId ?? ''}` : null;
+  const activeRole = !key
+    ? null
+    : storedRole?.key === key
+      ? storedRole.role
+      : (localStorage.getItem(activeRoleStorageKey(key)) as UserRole | null);
 
-  useEffect(() => {
+  const fetchUserRole = useCallback(async () => {
     if (!user) {
-      setUserRole(null);
-      setLoading(false);
+      setRoles([]);
+      setIsSuperAdmin(false);
+      setLoadedKey(null);
       return;
     }
 
-    const fetchUserRole = async () => {
-      try {
-        setLoading(true);
-        const { data, error } = await supabase
-          .from('user_roles')
-          .select('role')
+    try {
+      const [rolesResult, superAdminResult] = await Promise.all([
+        organizationId
+          ? supabase.rpc('get_current_user_roles', { _organization_id: organizationId })
+          : Promise.resolve({ data: [] as UserRole[], error: null }),
+        supabase
+          .from('super_admins')
+          .select('user_id')
           .eq('user_id', user.id)
-          .single();
+          .maybeSingle()
+      ]);
 
-        if (error && error.code !== 'PGRST116') {
-          throw error;
-        }
+      if (rolesResult.error) throw rolesResult.error;
+      if (superAdminResult.error) throw superAdminResult.error;
 
-        setUserRole(data?.role || null);
-        setError(null);
-      } catch (err) {
-        console.error('Error fetching user role:', err);
-        setError('Failed to fetch user role');
-        setUserRole(null);
-      } finally {
-        setLoading(false);
-      }
-    };
+      const superAdmin = !!superAdminResult.data;
+      const held = rolesResult.data || [];
+      setIsSuperAdmin(superAdmin);
+      setRoles(superAdmin && organizationId && !held.includes('administrator') ? ['administrator', ...held] : held);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching user role:', err);
+      setError('Failed to fetch user role');
+      setRoles([]);
+    } finally {
+      setLoadedKey(`${user.id}:${organizationId ?? ''}`);
+    }
+  }, [user, organizationId]);
 
+  useEffect(() => {
     fetchUserRole();
-  }, [user]);
+  }, [fetchUserRole]);
 
-  const assignRole = async (role: UserRole) => {
-    if (!user) return { error: 'No authenticated user' };
+  const setActiveRole = useCallback((role: UserRole) => {
+    if (!key) return;
+    localStorage.setItem(activeRoleStorageKey(key), role);
+    setStoredRole({ key, role });
+  }, [key]);
 
-    try {
-      const { error } = await supabase
-        .from('user_roles')
-        .upsert({ 
-          user_id: user.id, 
-          role 
-        }, { 
-          onConflict: 'user_id' 
-        });
-
-      if (error) throw error;
-
-      setUserRole(role);
-      return { error: null };
-    } catch (err) {
-      console.error('Error assigning role:', err);
-      return { error: 'Failed to assign role' };
-    }
-  };
+  // A stored choice the user no longer holds here falls back to the role they were granted first
+  const userRole = roles.find((role) => role === activeRole) ?? roles[0] ?? null;
 
-  const hasRole = (role: UserRole) => userRole === role;
+  // Checks every held role, as row level security does, not just the active one
+  const hasRole = (role: UserRole) => roles.includes(role);
   const isAdmin = () => hasRole('administrator');
   const isFarmer = () => hasRole('farmer');
   const isTransporter = () => hasRole('transporter');
 
   return {
     userRole,
-    loading,
+    roles,
+    setActiveRole,
+    isSuperAdmin,
+    // Derived so switching organization reports loading in the same render
+    loading: key !== null && loadedKey !== key,
     error,
-    assignRole,
+    refetch: fetchUserRole,
     hasRole,
     isAdmin,
     isFarmer,
     isTransporter
   };
-};
\ No newline at end of file
+};
@@ -14,72 +14,720 @@ export type Database = {
   }
   public: {
     Tables: {
+      auth_rate_limits: {
+        Row: {
+          action: string
+          attempts: number
+          blocked_until: string | null
+          identifier: string
+          last_lockout_at: string | null
+          lockouts: number
+          updated_at: string
+          window_started_at: string
+        }
+        Insert: {
+          action: string
+          attempts?: number
+          blocked_until?: string | null
+          identifier: string
+          last_lockout_at?: string | null
+          lockouts?: number
+          updated_at?: string
+          window_started_at?: string
+        }
+        Update: {
+          action?: string
+          attempts?: number
+          blocked_until?: string | null
+          identifier?: string
+          last_lockout_at?: string | null
+          lockouts?: number
+          updated_at?: string
+          window_started_at?: string
+        }
+        Relationships: []
+      }
+      commodities: {
+        Row: {
+          code: string
+          created_at: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      inventory_items: {
+        Row: {
+          commodity_code: string
+          created_at: string
+          id: string
+          quantity_kg: number
+          updated_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          commodity_code: string
+          created_at?: string
+          id?: string
+          quantity_kg?: number
+          updated_at?: string
+          warehouse_id: string
+        }
+        Update: {
+          commodity_code?: string
+          created_at?: string
+          id?: string
+          quantity_kg?: number
+          updated_at?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_items_commodity_code_fkey"
+            columns: ["commodity_code"]
+            isOneToOne: false
+            referencedRelation: "commodities"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "inventory_items_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string | null
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          phone: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          status: Database["public"]["Enums"]["invitation_status"]
+          token: string
+          updated_at: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          phone?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          status?: Database["public"]["Enums"]["invitation_status"]
+          token?: string
+          updated_at?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          status?: Database["public"]["Enums"]["invitation_status"]
+          token?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_backup_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          require_admin_mfa: boolean
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          require_admin_mfa?: boolean
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          require_admin_mfa?: boolean
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
+          deactivated_at: string | null
           email: string | null
           full_name: string | null
           id: string
+          is_active: boolean
           updated_at: string
         }
         Insert: {
           created_at?: string
+          deactivated_at?: string | null
           email?: string | null
           full_name?: string | null
           id: string
+          is_active?: boolean
           updated_at?: string
         }
         Update: {
           created_at?: string
+          deactivated_at?: string | null
           email?: string | null
           full_name?: string | null
           id?: string
+          is_active?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      role_requests: {
+        Row: {
+          created_at: string
+          id: string
+          note: string | null
+          organization_id: string
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["role_request_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          organization_id: string
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["role_request_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          organization_id?: string
+          requested_role?: Database["public"]["Enums"]["app_role"]
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["role_request_status"]
           updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_requests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seed_lot_links: {
+        Row: {
+          child_lot_id: string
+          created_at: string
+          created_by: string | null
+          link_type: Database["public"]["Enums"]["seed_lot_link_type"]
+          parent_lot_id: string
+          quantity_kg: number
+        }
+        Insert: {
+          child_lot_id: string
+          created_at?: string
+          created_by?: string | null
+          link_type: Database["public"]["Enums"]["seed_lot_link_type"]
+          parent_lot_id: string
+          quantity_kg: number
+        }
+        Update: {
+          child_lot_id?: string
+          created_at?: string
+          created_by?: string | null
+          link_type?: Database["public"]["Enums"]["seed_lot_link_type"]
+          parent_lot_id?: string
+          quantity_kg?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seed_lot_links_child_lot_id_fkey"
+            columns: ["child_lot_id"]
+            isOneToOne: false
+            referencedRelation: "seed_lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seed_lot_links_parent_lot_id_fkey"
+            columns: ["parent_lot_id"]
+            isOneToOne: false
+            referencedRelation: "seed_lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seed_lots: {
+        Row: {
+          commodity_code: string
+          created_at: string
+          created_by: string | null
+          farmer_id: string | null
+          harvest_date: string | null
+          id: string
+          lot_code: string
+          organization_id: string
+          origin_address: string | null
+          origin_lat: number | null
+          origin_lng: number | null
+          quantity: number
+          quantity_kg: number | null
+          status: Database["public"]["Enums"]["seed_lot_status"]
+          unit: Database["public"]["Enums"]["weight_unit"]
+          updated_at: string
+          variety: string | null
+        }
+        Insert: {
+          commodity_code: string
+          created_at?: string
+          created_by?: string | null
+          farmer_id?: string | null
+          harvest_date?: string | null
+          id?: string
+          lot_code: string
+          organization_id: string
+          origin_address?: string | null
+          origin_lat?: number | null
+          origin_lng?: number | null
+          quantity: number
+          quantity_kg?: number | null
+          status?: Database["public"]["Enums"]["seed_lot_status"]
+          unit?: Database["public"]["Enums"]["weight_unit"]
+          updated_at?: string
+          variety?: string | null
+        }
+        Update: {
+          commodity_code?: string
+          created_at?: string
+          created_by?: string | null
+          farmer_id?: string | null
+          harvest_date?: string | null
+          id?: string
+          lot_code?: string
+          organization_id?: string
+          origin_address?: string | null
+          origin_lat?: number | null
+          origin_lng?: number | null
+          quantity?: number
+          quantity_kg?: number | null
+          status?: Database["public"]["Enums"]["seed_lot_status"]
+          unit?: Database["public"]["Enums"]["weight_unit"]
+          updated_at?: string
+          variety?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seed_lots_commodity_code_fkey"
+            columns: ["commodity_code"]
+            isOneToOne: false
+            referencedRelation: "commodities"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "seed_lots_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipment_events: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          created_at: string
+          event_type: Database["public"]["Enums"]["shipment_event_type"]
+          id: string
+          new_value: Json | null
+          note: string | null
+          old_value: Json | null
+          shipment_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          created_at?: string
+          event_type: Database["public"]["Enums"]["shipment_event_type"]
+          id?: string
+          new_value?: Json | null
+          note?: string | null
+          old_value?: Json | null
+          shipment_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          created_at?: string
+          event_type?: Database["public"]["Enums"]["shipment_event_type"]
+          id?: string
+          new_value?: Json | null
+          note?: string | null
+          old_value?: Json | null
+          shipment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipment_events_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipment_locations: {
+        Row: {
+          accuracy_m: number | null
+          created_at: string
+          heading: number | null
+          id: string
+          lat: number
+          lng: number
+          recorded_at: string
+          shipment_id: string
+          speed_mps: number | null
+          transporter_id: string | null
+        }
+        Insert: {
+          accuracy_m?: number | null
+          created_at?: string
+          heading?: number | null
+          id?: string
+          lat: number
+          lng: number
+          recorded_at: string
+          shipment_id: string
+          speed_mps?: number | null
+          transporter_id?: string | null
+        }
+        Update: {
+          accuracy_m?: number | null
+          created_at?: string
+          heading?: number | null
+          id?: string
+          lat?: number
+          lng?: number
+          recorded_at?: string
+          shipment_id?: string
+          speed_mps?: number | null
+          transporter_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipment_locations_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipment_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["shipment_status"]
+          role: Database["public"]["Enums"]["app_role"]
+          to_status: Database["public"]["Enums"]["shipment_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["shipment_status"]
+          role: Database["public"]["Enums"]["app_role"]
+          to_status: Database["public"]["Enums"]["shipment_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["shipment_status"]
+          role?: Database["public"]["Enums"]["app_role"]
+          to_status?: Database["public"]["Enums"]["shipment_status"]
         }
         Relationships: []
       }
       shipments: {
         Row: {
+          assigned_at: string | null
+          assigned_transporter_id: string | null
+          assignment_status:
+            | Database["public"]["Enums"]["assignment_status"]
+            | null
+          bag_count: number | null
+          cancellation_reason: string | null
+          cargo_value: number | null
+          commodity_code: string | null
           created_at: string
+          delivered_at: string | null
           destination_address: string | null
           destination_lat: number | null
           destination_lng: number | null
           id: string
+          last_lat: number | null
+          last_located_at: string | null
+          last_lng: number | null
+          lot_id: string | null
+          moisture_pct: number | null
+          net_weight: number | null
+          net_weight_kg: number | null
+          oil_content_pct: number | null
+          organization_id: string
           origin_address: string | null
           origin_lat: number | null
           origin_lng: number | null
-          status: string | null
+          rate_per_quintal: number | null
+          status: Database["public"]["Enums"]["shipment_status"]
           title: string
           updated_at: string
           user_id: string
+          weight_unit: Database["public"]["Enums"]["weight_unit"]
         }
         Insert: {
+          assigned_at?: string | null
+          assigned_transporter_id?: string | null
+          assignment_status?:
+            | Database["public"]["Enums"]["assignment_status"]
+            | null
+          bag_count?: number | null
+          cancellation_reason?: string | null
+          cargo_value?: number | null
+          commodity_code?: string | null
           created_at?: string
+          delivered_at?: string | null
           destination_address?: string | null
           destination_lat?: number | null
           destination_lng?: number | null
           id?: string
+          last_lat?: number | null
+          last_located_at?: string | null
+          last_lng?: number | null
+          lot_id?: string | null
+          moisture_pct?: number | null
+          net_weight?: number | null
+          net_weight_kg?: number | null
+          oil_content_pct?: number | null
+          organization_id: string
           origin_address?: string | null
           origin_lat?: number | null
           origin_lng?: number | null
-          status?: string | null
+          rate_per_quintal?: number | null
+          status?: Database["public"]["Enums"]["shipment_status"]
           title: string
           updated_at?: string
           user_id: string
+          weight_unit?: Database["public"]["Enums"]["weight_unit"]
         }
         Update: {
+          assigned_at?: string | null
+          assigned_transporter_id?: string | null
+          assignment_status?:
+            | Database["public"]["Enums"]["assignment_status"]
+            | null
+          bag_count?: number | null
+          cancellation_reason?: string | null
+          cargo_value?: number | null
+          commodity_code?: string | null
           created_at?: string
+          delivered_at?: string | null
           destination_address?: string | null
           destination_lat?: number | null
           destination_lng?: number | null
           id?: string
+          last_lat?: number | null
+          last_located_at?: string | null
+          last_lng?: number | null
+          lot_id?: string | null
+          moisture_pct?: number | null
+          net_weight?: number | null
+          net_weight_kg?: number | null
+          oil_content_pct?: number | null
+          organization_id?: string
           origin_address?: string | null
           origin_lat?: number | null
           origin_lng?: number | null
-          status?: string | null
+          rate_per_quintal?: number | null
+          status?: Database["public"]["Enums"]["shipment_status"]
           title?: string
           updated_at?: string
           user_id?: string
+          weight_unit?: Database["public"]["Enums"]["weight_unit"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipments_commodity_code_fkey"
+            columns: ["commodity_code"]
+            isOneToOne: false
+            referencedRelation: "commodities"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "shipments_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "seed_lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          id: string
+          inventory_item_id: string
+          lot_id: string | null
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          note: string | null
+          quantity: number
+          quantity_kg: number | null
+          transfer_id: string | null
+          unit: Database["public"]["Enums"]["weight_unit"]
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          inventory_item_id: string
+          lot_id?: string | null
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          note?: string | null
+          quantity: number
+          quantity_kg?: number | null
+          transfer_id?: string | null
+          unit: Database["public"]["Enums"]["weight_unit"]
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          inventory_item_id?: string
+          lot_id?: string | null
+          movement_type?: Database["public"]["Enums"]["stock_movement_type"]
+          note?: string | null
+          quantity?: number
+          quantity_kg?: number | null
+          transfer_id?: string | null
+          unit?: Database["public"]["Enums"]["weight_unit"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "seed_lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      super_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -87,6 +735,7 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          organization_id: string
           role: Database["public"]["Enums"]["app_role"]
           updated_at: string
           user_id: string
@@ -94,6 +743,7 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          organization_id: string
           role: Database["public"]["Enums"]["app_role"]
           updated_at?: string
           user_id: string
@@ -101,20 +751,287 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          organization_id?: string
           role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      warehouses: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          location: string | null
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          name: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warehouses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      get_current_user_role: {
+      accept_invitation: {
+        Args: {
+          _token: string
+        }
+        Returns: string
+      }
+      adjust_stock: {
+        Args: {
+          _inventory_item_id: string
+          _note: string
+          _quantity: number
+          _unit: Database["public"]["Enums"]["weight_unit"]
+        }
+        Returns: undefined
+      }
+      apply_invitation: {
+        Args: {
+          _invitation_id: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      assert_lot_commodity: {
+        Args: {
+          _commodity_code: string
+          _lot_id: string
+        }
+        Returns: undefined
+      }
+      assign_shipment_transporter: {
+        Args: {
+          _shipment_id: string
+          _transporter_id: string
+        }
+        Returns: undefined
+      }
+      can_manage_user: {
+        Args: {
+          _admin_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_transition_shipment: {
+        Args: {
+          _from: Database["public"]["Enums"]["shipment_status"]
+          _organization_id: string
+          _to: Database["public"]["Enums"]["shipment_status"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_manage_seed_lot: {
+        Args: {
+          _lot: Database["public"]["Tables"]["seed_lots"]["Row"]
+        }
+        Returns: boolean
+      }
+      cancel_shipment: {
+        Args: {
+          _reason: string
+          _shipment_id: string
+        }
+        Returns: undefined
+      }
+      check_auth_attempt: {
+        Args: {
+          _action: string
+          _identifier: string
+          _valid: boolean
+        }
+        Returns: Json
+      }
+      count_mfa_backup_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      create_organization: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      ensure_inventory_item: {
+        Args: {
+          _commodity_code: string
+          _warehouse_id: string
+        }
+        Returns: string
+      }
+      filter_report_shipments: {
+        Args: {
+          _commodity_code?: string
+          _farmer_id?: string
+          _from?: string
+          _organization_id?: string
+          _region?: string
+          _role?: Database["public"]["Enums"]["app_role"]
+          _statuses?: Database["public"]["Enums"]["shipment_status"][]
+          _to?: string
+          _transporter_id?: string
+        }
+        Returns: {
+          assigned_at: string | null
+          assigned_transporter_id: string | null
+          assignment_status:
+            | Database["public"]["Enums"]["assignment_status"]
+            | null
+          bag_count: number | null
+          cancellation_reason: string | null
+          cargo_value: number | null
+          commodity_code: string | null
+          created_at: string
+          delivered_at: string | null
+          destination_address: string | null
+          destination_lat: number | null
+          destination_lng: number | null
+          id: string
+          last_lat: number | null
+          last_located_at: string | null
+          last_lng: number | null
+          lot_id: string | null
+          moisture_pct: number | null
+          net_weight: number | null
+          net_weight_kg: number | null
+          oil_content_pct: number | null
+          origin_address: string | null
+          origin_lat: number | null
+          origin_lng: number | null
+          rate_per_quintal: number | null
+          status: Database["public"]["Enums"]["shipment_status"]
+          title: string
+          updated_at: string
+          user_id: string
+          weight_unit: Database["public"]["Enums"]["weight_unit"]
+        }[]
+      }
+      generate_mfa_backup_codes: {
         Args: Record<PropertyKey, never>
-        Returns: Database["public"]["Enums"]["app_role"]
+        Returns: string[]
+      }
+      get_current_user_roles: {
+        Args: {
+          _organization_id: string
+        }
+        Returns: Database["public"]["Enums"]["app_role"][]
+      }
+      get_invitation: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          email: string
+          expires_at: string
+          organization_id: string
+          organization_name: string
+          phone: string
+          role: Database["public"]["Enums"]["app_role"]
+          status: Database["public"]["Enums"]["invitation_status"]
+        }[]
+      }
+      get_shipment_parties: {
+        Args: {
+          _shipment_id: string
+        }
+        Returns: {
+          owner_email: string
+          owner_id: string
+          owner_name: string
+          transporter_email: string
+          transporter_id: string
+          transporter_name: string
+        }[]
+      }
+      get_shipment_period_stats: {
+        Args: {
+          _commodity_code?: string
+          _farmer_id?: string
+          _from?: string
+          _organization_id?: string
+          _period?: string
+          _periods?: number
+          _region?: string
+          _role?: Database["public"]["Enums"]["app_role"]
+          _statuses?: Database["public"]["Enums"]["shipment_status"][]
+          _to?: string
+          _transporter_id?: string
+        }
+        Returns: {
+          delivered: number
+          delivered_kg: number
+          period_start: string
+          revenue: number
+          shipments: number
+        }[]
+      }
+      get_shipment_report_summary: {
+        Args: {
+          _commodity_code?: string
+          _farmer_id?: string
+          _from?: string
+          _organization_id?: string
+          _region?: string
+          _role?: Database["public"]["Enums"]["app_role"]
+          _statuses?: Database["public"]["Enums"]["shipment_status"][]
+          _to?: string
+          _transporter_id?: string
+        }
+        Returns: {
+          cargo_value: number
+          commodity_code: string
+          net_weight_kg: number
+          shipments: number
+          status: Database["public"]["Enums"]["shipment_status"]
+        }[]
+      }
+      has_org_role: {
+        Args: {
+          _organization_id: string
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
       }
       has_role: {
         Args: {
@@ -123,9 +1040,295 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_aal2: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      hook_mfa_verification_attempt: {
+        Args: {
+          event: Json
+        }
+        Returns: Json
+      }
+      hook_password_verification_attempt: {
+        Args: {
+          event: Json
+        }
+        Returns: Json
+      }
+      is_org_admin: {
+        Args: {
+          _organization_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_org_member: {
+        Args: {
+          _organization_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_super_admin: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      list_farmers: {
+        Args: {
+          _organization_id: string
+        }
+        Returns: {
+          email: string
+          full_name: string
+          id: string
+        }[]
+      }
+      list_organizations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          name: string
+        }[]
+      }
+      list_role_requests: {
+        Args: {
+          _organization_id: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          note: string
+          requested_role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      list_transporters: {
+        Args: {
+          _organization_id: string
+        }
+        Returns: {
+          email: string
+          full_name: string
+          id: string
+        }[]
+      }
+      list_users: {
+        Args: {
+          _organization_id: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          is_active: boolean
+          last_sign_in_at: string
+          roles: Database["public"]["Enums"]["app_role"][]
+          shipment_count: number
+        }[]
+      }
+      meets_admin_mfa: {
+        Args: {
+          _organization_id: string
+        }
+        Returns: boolean
+      }
+      merge_seed_lots: {
+        Args: {
+          _lot_code: string
+          _lot_ids: string[]
+        }
+        Returns: string
+      }
+      receive_stock: {
+        Args: {
+          _commodity_code: string
+          _lot_id?: string
+          _note?: string
+          _quantity: number
+          _unit: Database["public"]["Enums"]["weight_unit"]
+          _warehouse_id: string
+        }
+        Returns: string
+      }
+      record_auth_attempt: {
+        Args: {
+          _action: string
+          _block_seconds: number
+          _identifier: string
+          _max_attempts: number
+          _window_seconds: number
+        }
+        Returns: {
+          locked_out: boolean
+          remaining: number
+          retry_at: string
+        }[]
+      }
+      record_shipment_location: {
+        Args: {
+          _accuracy_m?: number
+          _heading?: number
+          _lat: number
+          _lng: number
+          _recorded_at?: string
+          _shipment_id: string
+          _speed_mps?: number
+        }
+        Returns: undefined
+      }
+      redeem_mfa_backup_code: {
+        Args: {
+          _code: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      request_role: {
+        Args: {
+          _note?: string
+          _organization_id: string
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: string
+      }
+      respond_to_shipment_assignment: {
+        Args: {
+          _accept: boolean
+          _shipment_id: string
+        }
+        Returns: undefined
+      }
+      review_role_request: {
+        Args: {
+          _approve: boolean
+          _note?: string
+          _request_id: string
+        }
+        Returns: undefined
+      }
+      revoke_invitation: {
+        Args: {
+          _invitation_id: string
+        }
+        Returns: undefined
+      }
+      revoke_user_sessions: {
+        Args: {
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      seed_lot_has_history: {
+        Args: {
+          _lot_id: string
+        }
+        Returns: boolean
+      }
+      set_admin_mfa_requirement: {
+        Args: {
+          _organization_id: string
+          _required: boolean
+        }
+        Returns: undefined
+      }
+      split_seed_lot: {
+        Args: {
+          _lot_id: string
+          _quantities_kg: number[]
+        }
+        Returns: string[]
+      }
+      trace_seed_lot: {
+        Args: {
+          _lot_code: string
+        }
+        Returns: {
+          commodity_code: string
+          depth: number
+          direction: string
+          farmer_id: string
+          farmer_name: string
+          harvest_date: string
+          is_source: boolean
+          link_type: Database["public"]["Enums"]["seed_lot_link_type"]
+          lot_code: string
+          lot_id: string
+          origin_address: string
+          origin_lat: number
+          origin_lng: number
+          quantity_kg: number
+          related_lot_id: string
+          status: Database["public"]["Enums"]["seed_lot_status"]
+          variety: string
+        }[]
+      }
+      transfer_stock: {
+        Args: {
+          _inventory_item_id: string
+          _lot_id?: string
+          _note?: string
+          _quantity: number
+          _to_warehouse_id: string
+          _unit: Database["public"]["Enums"]["weight_unit"]
+        }
+        Returns: string
+      }
+      update_shipment_status: {
+        Args: {
+          _note?: string
+          _shipment_id: string
+          _status: Database["public"]["Enums"]["shipment_status"]
+        }
+        Returns: undefined
+      }
+      weight_to_kg: {
+        Args: {
+          _unit: Database["public"]["Enums"]["weight_unit"]
+          _weight: number
+        }
+        Returns: number
+      }
+      withdraw_role_request: {
+        Args: {
+          _request_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "administrator" | "farmer" | "transporter"
+      assignment_status: "offered" | "accepted"
+      invitation_status: "pending" | "accepted" | "revoked"
+      role_request_status: "pending" | "approved" | "rejected" | "withdrawn"
+      seed_lot_link_type: "split" | "merge"
+      seed_lot_status: "active" | "split" | "merged"
+      shipment_event_type:
+        | "created"
+        | "status_changed"
+        | "assignment_changed"
+        | "location_changed"
+      shipment_status:
+        | "draft"
+        | "pending"
+        | "assigned"
+        | "picked-up"
+        | "in-transit"
+        | "delivered"
+        | "completed"
+        | "cancelled"
+        | "rejected"
+      stock_movement_type:
+        | "receipt"
+        | "adjustment"
+        | "transfer_in"
+        | "transfer_out"
+      weight_unit: "kg" | "quintal" | "tonne"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -254,6 +1457,35 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["administrator", "farmer", "transporter"],
+      assignment_status: ["offered", "accepted"],
+      invitation_status: ["pending", "accepted", "revoked"],
+      role_request_status: ["pending", "approved", "rejected", "withdrawn"],
+      seed_lot_link_type: ["split", "merge"],
+      seed_lot_status: ["active", "split", "merged"],
+      shipment_event_type: [
+        "created",
+        "status_changed",
+        "assignment_changed",
+        "location_changed",
+      ],
+      shipment_status: [
+        "draft",
+        "pending",
+        "assigned",
+        "picked-up",
+        "in-transit",
+        "delivered",
+        "completed",
+        "cancelled",
+        "rejected",
+      ],
+      stock_movement_type: [
+        "receipt",
+        "adjustment",
+        "transfer_in",
+        "transfer_out",
+      ],
+      weight_unit: ["kg", "quintal", "tonne"],
     },
   },
 } as const
@@ -0,0 +1,16 @@
+import type { Database } from '@/integrations/supabase/types';
+import type { UserRole } from '@/hooks/useUserRole';
+
+export type AdminUser = Database['public']['Functions']['list_users']['Returns'][number];
+export type AdminUserAction = 'deactivate' | 'reactivate' | 'sign_out';
+
+export const USER_ROLES: UserRole[] = ['administrator', 'farmer', 'transporter'];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  administrator: 'Administrator',
+  farmer: 'Farmer',
+  transporter: 'Transporter'
+};
+
+export const getUserDisplayName = (user: Pick<AdminUser, 'full_name' | 'email'>) =>
+  user.full_name || user.email || 'Unnamed user';
@@ -0,0 +1,55 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export type AuthGatewayAction =
+  | 'signIn'
+  | 'signUp'
+  | 'magicLink'
+  | 'passwordReset'
+  | 'resendVerification'
+  | 'mfaVerify'
+  | 'updatePassword';
+
+// The limit the auth-gateway edge function reports with every reply
+export interface RateLimitState {
+  remaining: number;
+  // Seconds until the action is allowed again; 0 when it is not blocked
+  retry_after: number;
+}
+
+// Tokens from a sign in or verification done by the gateway, for the browser client to adopt
+export interface GatewaySession {
+  access_token: string;
+  refresh_token: string;
+}
+
+interface AuthGatewayResult<T> {
+  data: T | null;
+  error: { message: string } | null;
+  rateLimit: RateLimitState | null;
+}
+
+// Rate-limited auth actions go through the auth-gateway edge function, which counts attempts per email,
+// IP address and user. Failures come back as values, like supabase.auth, with the limit either way.
+export const callAuthGateway = async <T = Record<string, never>>(
+  action: AuthGatewayAction,
+  params: Record<string, unknown>
+): Promise<AuthGatewayResult<T>> => {
+  const { data, error } = await supabase.functions.invoke<T & { rate_limit?: RateLimitState }>('auth-gateway', {
+    body: { action, ...params }
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const details = await error.context.json().catch(() => null);
+    return {
+      data: null,
+      error: { message: details?.error ?? error.message },
+      rateLimit: details?.rate_limit ?? null
+    };
+  }
+  if (error) {
+    return { data: null, error: { message: error.message }, rateLimit: null };
+  }
+
+  return { data, error: null, rateLimit: data?.rate_limit ?? null };
+};
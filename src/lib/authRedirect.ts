@@ -0,0 +1,11 @@
+// Supabase reports failed email links (expired, already used) in the redirect's hash or query string
+export const getAuthRedirectError = () => {
+  const hashParams = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const queryParams = new URLSearchParams(window.location.search);
+  const description = hashParams.get('error_description') ?? queryParams.get('error_description');
+
+  return description ? description.replace(/\+/g, ' ') : null;
+};
+
+// Links sent with the PKCE flow carry a one-time code to exchange for a session
+export const getAuthRedirectCode = () => new URLSearchParams(window.location.search).get('code');
@@ -0,0 +1,125 @@
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type WeightUnit = Database['public']['Enums']['weight_unit'];
+export type Commodity = Tables<'commodities'>;
+
+export const WEIGHT_UNITS: WeightUnit[] = ['kg', 'quintal', 'tonne'];
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  kg: 'kg',
+  quintal: 'quintal',
+  tonne: 'tonne'
+};
+
+// Mirrors public.weight_to_kg
+const KG_PER_UNIT: Record<WeightUnit, number> = {
+  kg: 1,
+  quintal: 100,
+  tonne: 1000
+};
+
+export const toKilograms = (weight: number, unit: WeightUnit) => weight * KG_PER_UNIT[unit];
+
+export const formatTonnes = (kg: number) =>
+  `${(kg / 1000).toLocaleString(undefined, { maximumFractionDigits: 2 })} t`;
+
+// Seed is traded in rupees per quintal
+export const CURRENCY = 'INR';
+
+export const formatCurrency = (amount: number) =>
+  amount.toLocaleString(undefined, { style: 'currency', currency: CURRENCY, maximumFractionDigits: 0 });
+
+// Cargo inputs are kept as strings while the user is typing
+export interface CargoFormState {
+  commodity_code: string;
+  net_weight: string;
+  weight_unit: WeightUnit;
+  bag_count: string;
+  moisture_pct: string;
+  oil_content_pct: string;
+  lot_id: string;
+  rate_per_quintal: string;
+}
+
+export const EMPTY_CARGO: CargoFormState = {
+  commodity_code: '',
+  net_weight: '',
+  weight_unit: 'quintal',
+  bag_count: '',
+  moisture_pct: '',
+  oil_content_pct: '',
+  lot_id: '',
+  rate_per_quintal: ''
+};
+
+export const cargoFromShipment = (shipment: Tables<'shipments'>): CargoFormState => ({
+  commodity_code: shipment.commodity_code || '',
+  net_weight: shipment.net_weight?.toString() ?? '',
+  weight_unit: shipment.weight_unit,
+  bag_count: shipment.bag_count?.toString() ?? '',
+  moisture_pct: shipment.moisture_pct?.toString() ?? '',
+  oil_content_pct: shipment.oil_content_pct?.toString() ?? '',
+  lot_id: shipment.lot_id || '',
+  rate_per_quintal: shipment.rate_per_quintal?.toString() ?? ''
+});
+
+const isPercentage = (value: string) => {
+  const num = Number(value);
+  return value.trim() !== '' && !Number.isNaN(num) && num >= 0 && num <= 100;
+};
+
+export const validateCargo = (cargo: CargoFormState): string | null => {
+  if (!cargo.commodity_code) {
+    return 'Please select a seed type.';
+  }
+
+  const weight = Number(cargo.net_weight);
+  if (cargo.net_weight.trim() === '' || Number.isNaN(weight) || weight <= 0) {
+    return 'Net weight must be a number greater than zero.';
+  }
+
+  if (cargo.bag_count.trim() !== '') {
+    const bags = Number(cargo.bag_count);
+    if (!Number.isInteger(bags) || bags < 0) {
+      return 'Bag count must be a whole number.';
+    }
+  }
+
+  if (cargo.moisture_pct.trim() !== '' && !isPercentage(cargo.moisture_pct)) {
+    return 'Moisture must be a percentage between 0 and 100.';
+  }
+
+  if (cargo.oil_content_pct.trim() !== '' && !isPercentage(cargo.oil_content_pct)) {
+    return 'Oil content must be a percentage between 0 and 100.';
+  }
+
+  if (cargo.rate_per_quintal.trim() !== '') {
+    const rate = Number(cargo.rate_per_quintal);
+    if (Number.isNaN(rate) || rate < 0) {
+      return 'Rate must be a positive amount.';
+    }
+  }
+
+  return null;
+};
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export const toCargoPayload = (cargo: CargoFormState) => ({
+  commodity_code: cargo.commodity_code,
+  net_weight: Number(cargo.net_weight),
+  weight_unit: cargo.weight_unit,
+  bag_count: toNumberOrNull(cargo.bag_count),
+  moisture_pct: toNumberOrNull(cargo.moisture_pct),
+  oil_content_pct: toNumberOrNull(cargo.oil_content_pct),
+  lot_id: cargo.lot_id || null,
+  rate_per_quintal: toNumberOrNull(cargo.rate_per_quintal)
+});
+
+export const formatCargoSummary = (
+  shipment: Pick<Tables<'shipments'>, 'net_weight' | 'weight_unit' | 'bag_count'>
+) => {
+  if (shipment.net_weight === null) return null;
+  const weight = `${Number(shipment.net_weight).toLocaleString()} ${WEIGHT_UNIT_LABELS[shipment.weight_unit]}`;
+  return shipment.bag_count !== null ? `${weight} · ${shipment.bag_count} bags` : weight;
+};
@@ -0,0 +1,15 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Edge functions reply with { error } on failure; surface that message instead of the generic HTTP one
+export const invokeEdgeFunction = async <T = unknown>(name: string, body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body });
+
+  if (error instanceof FunctionsHttpError) {
+    const details = await error.context.json().catch(() => null);
+    throw new Error(details?.error ?? error.message);
+  }
+  if (error) throw error;
+
+  return data as T;
+};
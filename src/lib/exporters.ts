@@ -0,0 +1,234 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+export type ExportCell = string | number | null | undefined;
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  pdf: 'PDF'
+};
+
+export interface ExportTable {
+  title: string;
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+// Charts are only drawn into PDFs; spreadsheets get the underlying tables
+export interface ExportChart {
+  title: string;
+  svg: SVGSVGElement;
+}
+
+export interface ExportDocument {
+  filename: string;
+  title: string;
+  subtitle?: string;
+  tables: ExportTable[];
+  charts?: ExportChart[];
+}
+
+export const exportFilename = (name: string) => `${name}-${new Date().toISOString().slice(0, 10)}`;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toText = (cell: ExportCell) => {
+  if (cell === null || cell === undefined) return '';
+  if (typeof cell === 'number') return cell.toString();
+  return FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+};
+
+const toCsvField = (cell: ExportCell) => {
+  const text = toText(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (cells: ExportCell[]) => cells.map(toCsvField).join(',');
+
+const exportCsv = (doc: ExportDocument) => {
+  // A single table is written as-is; several are stacked under their titles
+  const lines = doc.tables.length === 1
+    ? [toCsvLine(doc.tables[0].columns), ...doc.tables[0].rows.map(toCsvLine)]
+    : doc.tables.flatMap((table, index) => [
+        ...(index > 0 ? [''] : []),
+        toCsvLine([table.title]),
+        toCsvLine(table.columns),
+        ...table.rows.map(toCsvLine)
+      ]);
+
+  // The byte order mark makes Excel read the file as UTF-8
+  downloadBlob(new Blob(['\uFEFF', lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), `${doc.filename}.csv`);
+};
+
+const sheetName = (title: string, used: Set<string>) => {
+  const base = title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31).trim() || 'Sheet';
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    name = `${base.slice(0, 28)} ${i}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+const exportXlsx = async (doc: ExportDocument) => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.title = doc.title;
+  workbook.created = new Date();
+
+  const used = new Set<string>();
+  doc.tables.forEach((table) => {
+    const sheet = workbook.addWorksheet(sheetName(table.title, used));
+    sheet.addRow(table.columns).font = { bold: true };
+    table.rows.forEach((row) => sheet.addRow(row.map((cell) => (typeof cell === 'number' ? cell : toText(cell)))));
+    sheet.columns.forEach((column, index) => {
+      const widest = Math.max(
+        table.columns[index].length,
+        ...table.rows.map((row) => toText(row[index]).length)
+      );
+      column.width = Math.min(Math.max(widest + 2, 10), 60);
+    });
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${doc.filename}.xlsx`
+  );
+};
+
+// Recharts colours come from CSS variables, which a detached SVG image cannot resolve
+const inlineSvgStyles = (source: SVGSVGElement, target: SVGSVGElement) => {
+  const sourceNodes = [source, ...Array.from(source.querySelectorAll('*'))];
+  const targetNodes = [target, ...Array.from(target.querySelectorAll('*'))];
+  sourceNodes.forEach((node, index) => {
+    const computed = window.getComputedStyle(node);
+    const clone = targetNodes[index] as SVGElement;
+    ['fill', 'stroke', 'stroke-width', 'opacity', 'font-family', 'font-size'].forEach((property) => {
+      clone.style.setProperty(property, computed.getPropertyValue(property));
+    });
+  });
+};
+
+const svgToPng = (svg: SVGSVGElement) =>
+  new Promise<{ dataUrl: string; width: number; height: number }>((resolve, reject) => {
+    const { width, height } = svg.getBoundingClientRect();
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', width.toString());
+    clone.setAttribute('height', height.toString());
+    inlineSvgStyles(svg, clone);
+
+    const url = URL.createObjectURL(
+      new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' })
+    );
+    const image = new Image();
+    image.onload = () => {
+      const scale = 2;
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not supported in this browser.'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      resolve({ dataUrl: canvas.toDataURL('image/png'), width, height });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render chart.'));
+    };
+    image.src = url;
+  });
+
+const exportPdf = async (doc: ExportDocument) => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  const margin = 40;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const lastTableY = () => (pdf as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  pdf.setFontSize(18);
+  pdf.text(doc.title, margin, y + 10);
+  y += 28;
+  pdf.setFontSize(10);
+  pdf.setTextColor(100);
+  pdf.text(`Generated ${new Date().toLocaleString()}`, margin, y);
+  y += 14;
+  if (doc.subtitle) {
+    const lines = pdf.splitTextToSize(doc.subtitle, pageWidth - margin * 2);
+    pdf.text(lines, margin, y);
+    y += lines.length * 12;
+  }
+  pdf.setTextColor(0);
+  y += 10;
+
+  for (const chart of doc.charts ?? []) {
+    const image = await svgToPng(chart.svg);
+    const width = Math.min(pageWidth - margin * 2, image.width);
+    const height = (image.height / image.width) * width;
+    ensureSpace(height + 24);
+    pdf.setFontSize(12);
+    pdf.text(chart.title, margin, y + 10);
+    pdf.addImage(image.dataUrl, 'PNG', margin, y + 18, width, height);
+    y += height + 36;
+  }
+
+  doc.tables.forEach((table) => {
+    ensureSpace(60);
+    pdf.setFontSize(12);
+    pdf.text(table.title, margin, y + 10);
+    autoTable(pdf, {
+      startY: y + 18,
+      head: [table.columns],
+      body: table.rows.map((row) =>
+        row.map((cell) => (typeof cell === 'number' ? cell.toLocaleString() : cell ?? ''))
+      ),
+      margin: { left: margin, right: margin },
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [37, 99, 235] }
+    });
+    y = lastTableY() + 24;
+  });
+
+  pdf.save(`${doc.filename}.pdf`);
+};
+
+export const exportDocument = async (doc: ExportDocument, format: ExportFormat) => {
+  switch (format) {
+    case 'csv':
+      return exportCsv(doc);
+    case 'xlsx':
+      return exportXlsx(doc);
+    case 'pdf':
+      return exportPdf(doc);
+  }
+};
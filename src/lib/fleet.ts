@@ -0,0 +1,95 @@
+import { Tables } from '@/integrations/supabase/types';
+import { LatLng, MapBounds, MapMarker, MapRoute } from './maps';
+import { RouteEnd, SHIPMENT_STATUS_COLORS, SHIPMENT_STATUS_LABELS, ShipmentStatus, routeEndIcon } from './shipmentStatus';
+
+export type FleetShipment = Tables<'shipments'>;
+
+// Shipments waiting to move or on the way; settled ones would only crowd the map
+export const FLEET_STATUSES: ShipmentStatus[] = ['pending', 'assigned', 'picked-up', 'in-transit', 'delivered'];
+
+export type FleetPosition = 'pickup' | 'en-route' | 'drop-off';
+
+export const FLEET_POSITION_LABELS: Record<FleetPosition, string> = {
+  pickup: 'At pickup',
+  'en-route': 'En route',
+  'drop-off': 'At drop-off'
+};
+
+// Where the load is, as far as its status tells; trucks reporting GPS also carry a last known point
+export const fleetPosition = (status: ShipmentStatus): FleetPosition => {
+  switch (status) {
+    case 'picked-up':
+    case 'in-transit':
+      return 'en-route';
+    case 'delivered':
+    case 'completed':
+      return 'drop-off';
+    default:
+      return 'pickup';
+  }
+};
+
+const toPoint = (lat: number | null, lng: number | null): LatLng | null =>
+  lat !== null && lng !== null ? { lat: Number(lat), lng: Number(lng) } : null;
+
+export const shipmentEnds = (shipment: FleetShipment): Record<RouteEnd, LatLng | null> => ({
+  origin: toPoint(shipment.origin_lat, shipment.origin_lng),
+  destination: toPoint(shipment.destination_lat, shipment.destination_lng)
+});
+
+// The last GPS fix, only while the load is on the way
+export const lastKnownPoint = (shipment: FleetShipment): LatLng | null =>
+  fleetPosition(shipment.status) === 'en-route' ? toPoint(shipment.last_lat, shipment.last_lng) : null;
+
+// Marker ids carry the shipment id so a click can open it
+export const fleetMarkerId = (shipmentId: string, point: RouteEnd | 'current') => `${shipmentId}:${point}`;
+
+export const shipmentIdFromMarker = (markerId: string) => markerId.split(':')[0];
+
+export const toFleetMarkers = (shipments: FleetShipment[]): MapMarker[] =>
+  shipments.flatMap((shipment) => {
+    const ends = shipmentEnds(shipment);
+    const markers: MapMarker[] = (['origin', 'destination'] as RouteEnd[]).flatMap((end) => {
+      const point = ends[end];
+      if (!point) return [];
+      const address = end === 'origin' ? shipment.origin_address : shipment.destination_address;
+      return [{
+        ...point,
+        id: fleetMarkerId(shipment.id, end),
+        title: `${shipment.title} (${SHIPMENT_STATUS_LABELS[shipment.status]}) - ${address || (end === 'origin' ? 'Pickup' : 'Drop-off')}`,
+        icon: routeEndIcon(end, shipment.status)
+      }];
+    });
+
+    const current = lastKnownPoint(shipment);
+    if (current) {
+      markers.push({
+        ...current,
+        id: fleetMarkerId(shipment.id, 'current'),
+        title: shipment.last_located_at
+          ? `${shipment.title} - last seen ${new Date(shipment.last_located_at).toLocaleString()}`
+          : shipment.title,
+        icon: { color: SHIPMENT_STATUS_COLORS[shipment.status] }
+      });
+    }
+    return markers;
+  });
+
+export const toShipmentRoute = (shipment: FleetShipment): MapRoute | null => {
+  const { origin, destination } = shipmentEnds(shipment);
+  if (!origin || !destination) return null;
+  return { origin, destination, title: shipment.title, color: SHIPMENT_STATUS_COLORS[shipment.status] };
+};
+
+const isInBounds = (point: LatLng, bounds: MapBounds) =>
+  point.lat >= bounds.south && point.lat <= bounds.north &&
+  (bounds.west <= bounds.east
+    ? point.lng >= bounds.west && point.lng <= bounds.east
+    // The view straddles the antimeridian
+    : point.lng >= bounds.west || point.lng <= bounds.east);
+
+// A shipment is in view when either end of it, or the truck carrying it, is
+export const isShipmentInBounds = (shipment: FleetShipment, bounds: MapBounds) => {
+  const { origin, destination } = shipmentEnds(shipment);
+  return [origin, destination, lastKnownPoint(shipment)].some((point) => !!point && isInBounds(point, bounds));
+};
@@ -0,0 +1,86 @@
+import { LatLng, distanceKm } from './maps';
+import { Geocoder, MAX_SUGGESTIONS } from './geocoding';
+
+export type GazetteerKind = 'village' | 'mandi' | 'mill';
+
+export interface GazetteerPlace extends LatLng {
+  name: string;
+  kind: GazetteerKind;
+  district: string;
+  state: string;
+}
+
+// A fixed list of places the app's routes run between, so forms work without any outside service.
+// Coordinates are approximate town centres.
+export const GAZETTEER: GazetteerPlace[] = [
+  { name: 'Sanwer', kind: 'village', district: 'Indore', state: 'Madhya Pradesh', lat: 22.9744, lng: 75.8270 },
+  { name: 'Betma', kind: 'village', district: 'Indore', state: 'Madhya Pradesh', lat: 22.6839, lng: 75.6186 },
+  { name: 'Depalpur', kind: 'village', district: 'Indore', state: 'Madhya Pradesh', lat: 22.8509, lng: 75.5423 },
+  { name: 'Tarana', kind: 'village', district: 'Ujjain', state: 'Madhya Pradesh', lat: 23.3353, lng: 76.0402 },
+  { name: 'Sonkatch', kind: 'village', district: 'Dewas', state: 'Madhya Pradesh', lat: 22.9722, lng: 76.3466 },
+  { name: 'Ausa', kind: 'village', district: 'Latur', state: 'Maharashtra', lat: 18.2461, lng: 76.4990 },
+  { name: 'Jasdan', kind: 'village', district: 'Rajkot', state: 'Gujarat', lat: 22.0372, lng: 71.2047 },
+  { name: 'Nadbai', kind: 'village', district: 'Bharatpur', state: 'Rajasthan', lat: 27.2231, lng: 77.1989 },
+  { name: 'Indore Krishi Upaj Mandi', kind: 'mandi', district: 'Indore', state: 'Madhya Pradesh', lat: 22.7196, lng: 75.8577 },
+  { name: 'Ujjain Krishi Upaj Mandi', kind: 'mandi', district: 'Ujjain', state: 'Madhya Pradesh', lat: 23.1765, lng: 75.7885 },
+  { name: 'Dewas Krishi Upaj Mandi', kind: 'mandi', district: 'Dewas', state: 'Madhya Pradesh', lat: 22.9676, lng: 76.0534 },
+  { name: 'Latur APMC', kind: 'mandi', district: 'Latur', state: 'Maharashtra', lat: 18.4088, lng: 76.5604 },
+  { name: 'Rajkot Marketing Yard', kind: 'mandi', district: 'Rajkot', state: 'Gujarat', lat: 22.3039, lng: 70.8022 },
+  { name: 'Gondal Marketing Yard', kind: 'mandi', district: 'Rajkot', state: 'Gujarat', lat: 21.9612, lng: 70.7939 },
+  { name: 'Kota Bhamashah Mandi', kind: 'mandi', district: 'Kota', state: 'Rajasthan', lat: 25.1825, lng: 75.8390 },
+  { name: 'Bharatpur Krishi Upaj Mandi', kind: 'mandi', district: 'Bharatpur', state: 'Rajasthan', lat: 27.2152, lng: 77.4930 },
+  { name: 'Sanwer Road Oil Mill', kind: 'mill', district: 'Indore', state: 'Madhya Pradesh', lat: 22.7590, lng: 75.8600 },
+  { name: 'Pithampur Solvent Plant', kind: 'mill', district: 'Dhar', state: 'Madhya Pradesh', lat: 22.6139, lng: 75.6794 },
+  { name: 'Kadi Cotton Mill', kind: 'mill', district: 'Mehsana', state: 'Gujarat', lat: 23.2990, lng: 72.3330 },
+  { name: 'Sri Ganganagar Oil Mill', kind: 'mill', district: 'Sri Ganganagar', state: 'Rajasthan', lat: 29.9038, lng: 73.8772 },
+];
+
+// Points further than this from every place get no address
+const REVERSE_RADIUS_KM = 15;
+
+export const formatPlace = (place: GazetteerPlace) => `${place.name}, ${place.district}, ${place.state}`;
+
+export const gazetteerGeocoder: Geocoder = {
+  name: 'gazetteer',
+
+  // Searches run in the browser
+  searchAsYouType: true,
+
+  load: () => Promise.resolve(),
+
+  async search(query) {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    // Names that start with the query rank ahead of places that only match elsewhere
+    return GAZETTEER
+      .map((place) => {
+        const name = place.name.toLowerCase();
+        const rank = name.startsWith(needle) ? 0 : formatPlace(place).toLowerCase().includes(needle) ? 1 : -1;
+        return { place, rank };
+      })
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) => a.rank - b.rank || a.place.name.localeCompare(b.place.name))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ place }) => ({
+        id: `${place.kind}:${place.name}`,
+        label: formatPlace(place),
+        position: { lat: place.lat, lng: place.lng },
+      }));
+  },
+
+  locate: (suggestion) => Promise.resolve(suggestion.position ?? null),
+
+  async reverse(position) {
+    let nearest: GazetteerPlace | null = null;
+    let nearestKm = REVERSE_RADIUS_KM;
+    for (const place of GAZETTEER) {
+      const km = distanceKm(position, place);
+      if (km <= nearestKm) {
+        nearest = place;
+        nearestKm = km;
+      }
+    }
+    return nearest ? formatPlace(nearest) : null;
+  },
+};
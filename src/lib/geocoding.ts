@@ -0,0 +1,83 @@
+import { LatLng, loadMapProvider } from './maps';
+
+export type GeocoderName = 'google' | 'nominatim' | 'gazetteer';
+
+// One entry in an address dropdown; providers that only know the place id fill position in locate()
+export interface AddressSuggestion {
+  id: string;
+  label: string;
+  position?: LatLng;
+}
+
+export interface Geocoder {
+  name: GeocoderName;
+  // Whether search() may run on every pause in typing; otherwise it only runs when the user asks
+  searchAsYouType: boolean;
+  // Rejects when the geocoder cannot be used here, such as Google without an API key
+  load(): Promise<void>;
+  search(query: string): Promise<AddressSuggestion[]>;
+  locate(suggestion: AddressSuggestion): Promise<LatLng | null>;
+  // The address nearest a point, or null when nothing is known there
+  reverse(position: LatLng): Promise<string | null>;
+}
+
+// Suggestions are limited to one country; shipments here run between Indian villages, mandis and mills
+export const GEOCODER_COUNTRY = import.meta.env.VITE_GEOCODER_COUNTRY || 'in';
+export const MAX_SUGGESTIONS = 5;
+
+const GEOCODERS: Record<GeocoderName, () => Promise<Geocoder>> = {
+  google: () => import('./googleMaps').then((module) => module.googleGeocoder),
+  nominatim: () => import('./nominatim').then((module) => module.nominatimGeocoder),
+  gazetteer: () => import('./gazetteer').then((module) => module.gazetteerGeocoder),
+};
+
+const isGeocoderName = (name: string | undefined): name is GeocoderName => !!name && name in GEOCODERS;
+
+let resolvedGeocoder: Promise<Geocoder> | null = null;
+
+const resolveGeocoder = async () => {
+  // VITE_GEOCODER picks one outright; otherwise addresses come from the same service as the map
+  const preferred = import.meta.env.VITE_GEOCODER;
+  let order: GeocoderName[];
+  if (isGeocoderName(preferred)) {
+    order = [preferred];
+  } else {
+    const mapProvider = await loadMapProvider().catch(() => null);
+    order = mapProvider?.name === 'google' ? ['google', 'nominatim'] : ['nominatim'];
+  }
+
+  let lastError: unknown = null;
+  for (const name of order) {
+    try {
+      const geocoder = await GEOCODERS[name]();
+      await geocoder.load();
+      return geocoder;
+    } catch (err) {
+      console.warn(`Geocoder ${name} unavailable:`, err);
+      lastError = err;
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('No geocoder could be loaded');
+};
+
+export const loadGeocoder = () => {
+  if (!resolvedGeocoder) {
+    resolvedGeocoder = resolveGeocoder();
+    resolvedGeocoder.catch(() => {
+      resolvedGeocoder = null;
+    });
+  }
+  return resolvedGeocoder;
+};
+
+// Forms carry on with bare coordinates when no address can be found, so failures only warn
+export const reverseGeocode = async (position: LatLng): Promise<string | null> => {
+  try {
+    const geocoder = await loadGeocoder();
+    return await geocoder.reverse(position);
+  } catch (err) {
+    console.warn('Reverse geocoding failed:', err);
+    return null;
+  }
+};
@@ -0,0 +1,323 @@
+/// <reference types="@types/google.maps" />
+import { Loader } from '@googlemaps/js-api-loader';
+import { MarkerClusterer } from '@googlemaps/markerclusterer';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_PATH_COLOR,
+  DEFAULT_ROUTE_COLOR,
+  LatLng,
+  MARKER_ICON_SIZE,
+  MapBounds,
+  MapHandle,
+  MapMarker,
+  MapOptions,
+  MapProvider,
+  MarkerIcon,
+  buildInfoContent,
+  markerIconUrl,
+  markerKey,
+} from './maps';
+import { GEOCODER_COUNTRY, Geocoder, MAX_SUGGESTIONS } from './geocoding';
+
+let scriptLoad: Promise<unknown> | null = null;
+
+// The API key lives in the get-google-maps-key edge function's secrets
+const loadGoogleMaps = async () => {
+  const { data, error } = await supabase.functions.invoke('get-google-maps-key');
+
+  if (error) {
+    console.error('Supabase function error:', error);
+    throw new Error('Failed to get Google Maps API key');
+  }
+  if (!data?.apiKey) {
+    throw new Error('Google Maps API key not configured');
+  }
+
+  const loader = new Loader({
+    apiKey: data.apiKey,
+    version: 'weekly',
+    libraries: ['places']
+  });
+  return loader.load();
+};
+
+const toBounds = (bounds: google.maps.LatLngBounds | undefined): MapBounds | null => {
+  if (!bounds) return null;
+
+  const northEast = bounds.getNorthEast();
+  const southWest = bounds.getSouthWest();
+  return { north: northEast.lat(), east: northEast.lng(), south: southWest.lat(), west: southWest.lng() };
+};
+
+const toIcon = (icon: MarkerIcon | undefined): google.maps.Icon | undefined =>
+  icon && {
+    url: markerIconUrl(icon),
+    scaledSize: new google.maps.Size(MARKER_ICON_SIZE.width, MARKER_ICON_SIZE.height),
+    anchor: new google.maps.Point(MARKER_ICON_SIZE.width / 2, MARKER_ICON_SIZE.height),
+  };
+
+const createGoogleMap = (container: HTMLElement, options: MapOptions): MapHandle => {
+  const map = new google.maps.Map(container, {
+    center: options.center,
+    zoom: options.zoom,
+    mapTypeControl: true,
+    streetViewControl: true,
+    fullscreenControl: true,
+  });
+  const directionsService = new google.maps.DirectionsService();
+  // One popup for the whole map, like Google's own apps
+  const infoWindow = new google.maps.InfoWindow();
+  const clusterer = options.cluster ? new MarkerClusterer({ map }) : null;
+  // Pins by markerKey, with the marker data their listeners read when they fire
+  const markers = new Map<string, { pin: google.maps.Marker; data: MapMarker }>();
+  let openKey: string | null = null;
+  let renderers: google.maps.DirectionsRenderer[] = [];
+  let polylines: google.maps.Polyline[] = [];
+  let clickListener: google.maps.MapsEventListener | null = null;
+  let boundsListener: google.maps.MapsEventListener | null = null;
+  let dragHandler: ((id: string, position: LatLng) => void) | null = null;
+  let markerClickHandler: ((id: string) => void) | null = null;
+
+  const createPin = (key: string) => {
+    const pin = new google.maps.Marker();
+    pin.addListener('click', () => {
+      const data = markers.get(key)?.data;
+      if (data?.id) markerClickHandler?.(data.id);
+      if (!data?.info) return;
+      infoWindow.setContent(buildInfoContent(data));
+      infoWindow.open({ map, anchor: pin });
+      openKey = key;
+    });
+    pin.addListener('dragend', (event: google.maps.MapMouseEvent) => {
+      const data = markers.get(key)?.data;
+      if (event.latLng && data?.id) {
+        dragHandler?.(data.id, { lat: event.latLng.lat(), lng: event.latLng.lng() });
+      }
+    });
+    return pin;
+  };
+
+  const removePin = (key: string) => {
+    const entry = markers.get(key);
+    if (!entry) return;
+
+    if (clusterer) {
+      clusterer.removeMarker(entry.pin, true);
+    } else {
+      entry.pin.setMap(null);
+    }
+    google.maps.event.clearInstanceListeners(entry.pin);
+    markers.delete(key);
+    if (openKey === key) {
+      infoWindow.close();
+      openKey = null;
+    }
+  };
+
+  const clearRoutes = () => {
+    renderers.forEach((renderer) => renderer.setMap(null));
+    renderers = [];
+  };
+
+  const clearPaths = () => {
+    polylines.forEach((polyline) => polyline.setMap(null));
+    polylines = [];
+  };
+
+  return {
+    setMarkers(next) {
+      const keys = new Set<string>();
+
+      next.forEach((marker, index) => {
+        const key = markerKey(marker, index);
+        keys.add(key);
+        const existing = markers.get(key);
+        if (existing && JSON.stringify(existing.data) === JSON.stringify(marker)) return;
+
+        const pin = existing?.pin ?? createPin(key);
+        pin.setOptions({
+          position: { lat: marker.lat, lng: marker.lng },
+          title: marker.title,
+          draggable: !!marker.draggable,
+          icon: toIcon(marker.icon),
+        });
+        markers.set(key, { pin, data: marker });
+
+        if (!existing) {
+          if (clusterer) {
+            clusterer.addMarker(pin, true);
+          } else {
+            pin.setMap(map);
+          }
+        } else if (openKey === key) {
+          if (marker.info) {
+            infoWindow.setContent(buildInfoContent(marker));
+          } else {
+            infoWindow.close();
+            openKey = null;
+          }
+        }
+      });
+
+      Array.from(markers.keys())
+        .filter((key) => !keys.has(key))
+        .forEach(removePin);
+      // Clusters are redrawn once for the whole update rather than per marker
+      clusterer?.render();
+    },
+
+    setRoutes(next) {
+      clearRoutes();
+      renderers = next.map((route) => {
+        const renderer = new google.maps.DirectionsRenderer({
+          map,
+          suppressMarkers: false, // Show start/end markers
+          polylineOptions: {
+            strokeColor: route.color || DEFAULT_ROUTE_COLOR,
+            strokeWeight: 4,
+            strokeOpacity: 0.8,
+          },
+        });
+
+        directionsService.route(
+          {
+            origin: route.origin,
+            destination: route.destination,
+            travelMode: google.maps.TravelMode.DRIVING,
+          },
+          (result, status) => {
+            // Renderers removed while the request was out are left alone
+            if (status === google.maps.DirectionsStatus.OK && result && renderer.getMap()) {
+              renderer.setDirections(result);
+            }
+          }
+        );
+        return renderer;
+      });
+    },
+
+    setPaths(next) {
+      clearPaths();
+      polylines = next.map((path) => new google.maps.Polyline({
+        map,
+        path: path.points,
+        strokeColor: path.color || DEFAULT_PATH_COLOR,
+        strokeWeight: 5,
+        strokeOpacity: 0.9,
+        zIndex: 1,
+      }));
+    },
+
+    setView(center, zoom) {
+      map.setCenter(center);
+      map.setZoom(zoom);
+    },
+
+    fitBounds(points) {
+      if (points.length === 0) return;
+      if (points.length === 1) {
+        map.setCenter(points[0]);
+        return;
+      }
+
+      const bounds = new google.maps.LatLngBounds();
+      points.forEach((point) => bounds.extend(point));
+      map.fitBounds(bounds);
+    },
+
+    getBounds() {
+      return toBounds(map.getBounds());
+    },
+
+    onClick(handler) {
+      clickListener?.remove();
+      clickListener = handler
+        ? map.addListener('click', (event: google.maps.MapMouseEvent) => {
+            if (event.latLng) {
+              handler({ lat: event.latLng.lat(), lng: event.latLng.lng() });
+            }
+          })
+        : null;
+    },
+
+    onBoundsChange(handler) {
+      boundsListener?.remove();
+      // idle fires once panning or zooming settles rather than on every frame
+      boundsListener = handler
+        ? map.addListener('idle', () => {
+            const bounds = toBounds(map.getBounds());
+            if (bounds) handler(bounds);
+          })
+        : null;
+    },
+
+    onMarkerDrag(handler) {
+      dragHandler = handler;
+    },
+
+    onMarkerClick(handler) {
+      markerClickHandler = handler;
+    },
+
+    destroy() {
+      Array.from(markers.keys()).forEach(removePin);
+      clusterer?.setMap(null);
+      clearRoutes();
+      clearPaths();
+      infoWindow.close();
+      google.maps.event.clearInstanceListeners(map);
+    },
+  };
+};
+
+export const googleMapProvider: MapProvider = {
+  name: 'google',
+
+  load() {
+    if (!scriptLoad) {
+      scriptLoad = loadGoogleMaps();
+      // A missing key may be added later in the session
+      scriptLoad.catch(() => {
+        scriptLoad = null;
+      });
+    }
+    return scriptLoad.then(() => undefined);
+  },
+
+  createMap: createGoogleMap,
+};
+
+// Places autocomplete for suggestions; the Geocoder service turns a chosen place or a point into the other
+export const googleGeocoder: Geocoder = {
+  name: 'google',
+
+  searchAsYouType: true,
+
+  load: () => googleMapProvider.load(),
+
+  async search(query) {
+    const service = new google.maps.places.AutocompleteService();
+    const { predictions } = await service.getPlacePredictions({
+      input: query,
+      componentRestrictions: { country: GEOCODER_COUNTRY },
+    });
+
+    return predictions.slice(0, MAX_SUGGESTIONS).map((prediction) => ({
+      id: prediction.place_id,
+      label: prediction.description,
+    }));
+  },
+
+  async locate(suggestion) {
+    if (suggestion.position) return suggestion.position;
+
+    const { results } = await new google.maps.Geocoder().geocode({ placeId: suggestion.id });
+    const location = results[0]?.geometry.location;
+    return location ? { lat: location.lat(), lng: location.lng() } : null;
+  },
+
+  async reverse(position) {
+    const { results } = await new google.maps.Geocoder().geocode({ location: position });
+    return results[0]?.formatted_address ?? null;
+  },
+};
@@ -0,0 +1,20 @@
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type Warehouse = Tables<'warehouses'>;
+export type StockMovementType = Database['public']['Enums']['stock_movement_type'];
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Receipt',
+  adjustment: 'Adjustment',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out'
+};
+
+export const formatKilograms = (kg: number) =>
+  `${kg.toLocaleString(undefined, { maximumFractionDigits: 3 })} kg`;
+
+// Returns null for blank or non-numeric input
+export const parseQuantity = (value: string): number | null => {
+  const num = Number(value);
+  return value.trim() === '' || Number.isNaN(num) ? null : num;
+};
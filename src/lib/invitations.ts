@@ -0,0 +1,18 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Invitation = Tables<'invitations'>;
+
+export interface SentInvitation {
+  invitation_id: string;
+  invite_url: string;
+  // False when nothing was sent, as for phone invitations, and the link has to be shared by hand
+  delivered: boolean;
+}
+
+export const getInvitationUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export const getInvitationContact = (invitation: Pick<Invitation, 'email' | 'phone'>) =>
+  invitation.email ?? invitation.phone ?? '';
+
+export const isInvitationExpired = (invitation: Pick<Invitation, 'expires_at'>) =>
+  new Date(invitation.expires_at).getTime() <= Date.now();
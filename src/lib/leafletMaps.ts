@@ -0,0 +1,229 @@
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
+import defaultIconUrl from 'leaflet/dist/images/marker-icon.png';
+import defaultIconRetinaUrl from 'leaflet/dist/images/marker-icon-2x.png';
+import defaultShadowUrl from 'leaflet/dist/images/marker-shadow.png';
+import {
+  DEFAULT_PATH_COLOR,
+  DEFAULT_ROUTE_COLOR,
+  LatLng,
+  MARKER_ICON_SIZE,
+  MapBounds,
+  MapHandle,
+  MapMarker,
+  MapOptions,
+  MapProvider,
+  MapRoute,
+  MarkerIcon,
+  buildInfoContent,
+  markerIconUrl,
+  markerKey,
+} from './maps';
+
+// Point these at a locally hosted tile server or OSRM instance to run without outside services
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const ROUTING_URL = import.meta.env.VITE_MAP_ROUTING_URL;
+
+// Bundlers rename Leaflet's marker images, so the default icon cannot find them on its own
+const defaultIcon = L.icon({
+  iconUrl: defaultIconUrl,
+  iconRetinaUrl: defaultIconRetinaUrl,
+  shadowUrl: defaultShadowUrl,
+  iconSize: [25, 41],
+  iconAnchor: [12, 41],
+  popupAnchor: [1, -34],
+  shadowSize: [41, 41],
+});
+
+const toIcon = (icon: MarkerIcon | undefined) =>
+  icon
+    ? L.icon({
+        iconUrl: markerIconUrl(icon),
+        iconSize: [MARKER_ICON_SIZE.width, MARKER_ICON_SIZE.height],
+        iconAnchor: [MARKER_ICON_SIZE.width / 2, MARKER_ICON_SIZE.height],
+        popupAnchor: [0, -MARKER_ICON_SIZE.height + 6],
+      })
+    : defaultIcon;
+
+const toBounds = (bounds: L.LatLngBounds): MapBounds => ({
+  north: bounds.getNorth(),
+  south: bounds.getSouth(),
+  east: bounds.getEast(),
+  west: bounds.getWest(),
+});
+
+// Road geometry from an OSRM-compatible server, as [lat, lng] pairs
+const fetchRoadRoute = async (route: MapRoute): Promise<L.LatLngTuple[] | null> => {
+  if (!ROUTING_URL) return null;
+
+  const coordinates = `${route.origin.lng},${route.origin.lat};${route.destination.lng},${route.destination.lat}`;
+  const response = await fetch(`${ROUTING_URL}/route/v1/driving/${coordinates}?overview=full&geometries=geojson`);
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  const points: [number, number][] | undefined = data.routes?.[0]?.geometry?.coordinates;
+  return points ? points.map(([lng, lat]) => [lat, lng]) : null;
+};
+
+const createLeafletMap = (container: HTMLElement, options: MapOptions): MapHandle => {
+  const map = L.map(container).setView(options.center, options.zoom);
+  L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map);
+
+  const markerLayer = (options.cluster ? L.markerClusterGroup() : L.layerGroup()).addTo(map);
+  // Pins by markerKey, with the marker data their popups and drag handlers read
+  const markers = new Map<string, { pin: L.Marker; data: MapMarker }>();
+  const routeLayer = L.layerGroup().addTo(map);
+  const pathLayer = L.layerGroup().addTo(map);
+  // Road geometry arrives after the straight line; replies for replaced routes are dropped
+  let routeGeneration = 0;
+  let clickHandler: ((event: L.LeafletMouseEvent) => void) | null = null;
+  let boundsHandler: (() => void) | null = null;
+  let dragHandler: ((id: string, position: LatLng) => void) | null = null;
+  let markerClickHandler: ((id: string) => void) | null = null;
+
+  return {
+    setMarkers(next) {
+      const keys = new Set<string>();
+
+      next.forEach((marker, index) => {
+        const key = markerKey(marker, index);
+        keys.add(key);
+        const existing = markers.get(key);
+        if (existing && JSON.stringify(existing.data) === JSON.stringify(marker)) return;
+
+        const pin = existing?.pin ?? L.marker([marker.lat, marker.lng]);
+        markers.set(key, { pin, data: marker });
+        pin.setLatLng([marker.lat, marker.lng]);
+        pin.setIcon(toIcon(marker.icon));
+        pin.options.title = marker.title;
+        pin.getElement()?.setAttribute('title', marker.title);
+        pin.options.draggable = !!marker.draggable;
+        // Leaflet only creates the drag handler for markers currently drawn, not those inside a cluster
+        if (marker.draggable) {
+          pin.dragging?.enable();
+        } else {
+          pin.dragging?.disable();
+        }
+
+        if (!marker.info) {
+          pin.unbindPopup();
+        } else if (!pin.getPopup()) {
+          pin.bindPopup(() => buildInfoContent(markers.get(key)?.data ?? marker));
+        } else if (pin.isPopupOpen()) {
+          pin.setPopupContent(buildInfoContent(marker));
+        }
+
+        if (!existing) {
+          pin.on('dragend', () => {
+            const data = markers.get(key)?.data;
+            const position = pin.getLatLng();
+            if (data?.id) dragHandler?.(data.id, { lat: position.lat, lng: position.lng });
+          });
+          pin.on('click', () => {
+            const data = markers.get(key)?.data;
+            if (data?.id) markerClickHandler?.(data.id);
+          });
+          markerLayer.addLayer(pin);
+        }
+      });
+
+      markers.forEach((entry, key) => {
+        if (keys.has(key)) return;
+        markerLayer.removeLayer(entry.pin);
+        markers.delete(key);
+      });
+    },
+
+    setRoutes(next) {
+      routeLayer.clearLayers();
+      const generation = ++routeGeneration;
+
+      next.forEach((route) => {
+        const style = { color: route.color || DEFAULT_ROUTE_COLOR, weight: 4, opacity: 0.8 };
+        // Without a routing server the route is drawn as the straight line between its ends
+        const line = L.polyline(
+          [[route.origin.lat, route.origin.lng], [route.destination.lat, route.destination.lng]],
+          { ...style, dashArray: ROUTING_URL ? '6 8' : undefined }
+        ).bindTooltip(route.title);
+        routeLayer.addLayer(line);
+
+        fetchRoadRoute(route)
+          .then((points) => {
+            if (!points || generation !== routeGeneration) return;
+            line.setLatLngs(points).setStyle({ ...style, dashArray: undefined });
+          })
+          .catch((err) => console.warn('Route lookup failed:', err));
+      });
+    },
+
+    setPaths(next) {
+      pathLayer.clearLayers();
+      next.forEach((path) => {
+        pathLayer.addLayer(
+          L.polyline(path.points.map((point) => [point.lat, point.lng] as L.LatLngTuple), {
+            color: path.color || DEFAULT_PATH_COLOR,
+            weight: 5,
+            opacity: 0.9,
+          }).bindTooltip(path.title)
+        );
+      });
+    },
+
+    setView(center, zoom) {
+      map.setView(center, zoom);
+    },
+
+    fitBounds(points) {
+      if (points.length === 0) return;
+      if (points.length === 1) {
+        map.panTo(points[0]);
+        return;
+      }
+
+      map.fitBounds(L.latLngBounds(points.map((point) => [point.lat, point.lng])), { padding: [24, 24] });
+    },
+
+    getBounds() {
+      return toBounds(map.getBounds());
+    },
+
+    onClick(handler) {
+      if (clickHandler) map.off('click', clickHandler);
+      clickHandler = handler ? (event) => handler({ lat: event.latlng.lat, lng: event.latlng.lng }) : null;
+      if (clickHandler) map.on('click', clickHandler);
+    },
+
+    onBoundsChange(handler) {
+      if (boundsHandler) map.off('moveend', boundsHandler);
+      boundsHandler = handler ? () => handler(toBounds(map.getBounds())) : null;
+      if (boundsHandler) map.on('moveend', boundsHandler);
+    },
+
+    onMarkerDrag(handler) {
+      dragHandler = handler;
+    },
+
+    onMarkerClick(handler) {
+      markerClickHandler = handler;
+    },
+
+    destroy() {
+      routeGeneration++;
+      map.remove();
+    },
+  };
+};
+
+export const leafletMapProvider: MapProvider = {
+  name: 'leaflet',
+
+  // Bundled with the app, so there is nothing to fetch first
+  load: () => Promise.resolve(),
+
+  createMap: createLeafletMap,
+};
@@ -0,0 +1,167 @@
+export type MapProviderName = 'google' | 'leaflet';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// A coloured pin, optionally with a single character on it such as 'A' for a pickup
+export interface MarkerIcon {
+  color: string;
+  glyph?: string;
+}
+
+export interface MapMarker extends LatLng {
+  title: string;
+  info?: string;
+  // Keeps the same pin on the map across updates and identifies it to drag handlers
+  id?: string;
+  draggable?: boolean;
+  icon?: MarkerIcon;
+}
+
+export interface MapRoute {
+  origin: LatLng;
+  destination: LatLng;
+  title: string;
+  color?: string;
+}
+
+// A line through recorded points, such as the path a truck has travelled
+export interface MapPath {
+  points: LatLng[];
+  title: string;
+  color?: string;
+}
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface MapOptions {
+  center: LatLng;
+  zoom: number;
+  // Group nearby markers into counts, for maps showing hundreds of shipments
+  cluster?: boolean;
+}
+
+// One map drawn into a container; MapView keeps it in step with its props
+export interface MapHandle {
+  // Markers with an id are moved in place; the rest are matched by position in the list
+  setMarkers(markers: MapMarker[]): void;
+  setRoutes(routes: MapRoute[]): void;
+  setPaths(paths: MapPath[]): void;
+  setView(center: LatLng, zoom: number): void;
+  // Frames the points; a single point is centred without changing the zoom
+  fitBounds(points: LatLng[]): void;
+  getBounds(): MapBounds | null;
+  onClick(handler: ((position: LatLng) => void) | null): void;
+  onBoundsChange(handler: ((bounds: MapBounds) => void) | null): void;
+  // Called when a draggable marker is dropped somewhere new
+  onMarkerDrag(handler: ((id: string, position: LatLng) => void) | null): void;
+  // Called with the id of a marker that was clicked; markers without an id are ignored
+  onMarkerClick(handler: ((id: string) => void) | null): void;
+  destroy(): void;
+}
+
+export interface MapProvider {
+  name: MapProviderName;
+  // Rejects when the provider cannot be used here, such as Google Maps without an API key
+  load(): Promise<void>;
+  createMap(container: HTMLElement, options: MapOptions): MapHandle;
+}
+
+export const DEFAULT_ROUTE_COLOR = '#4285F4';
+export const DEFAULT_PATH_COLOR = '#16a34a';
+
+export const MARKER_ICON_SIZE = { width: 28, height: 40 };
+
+// Great-circle distance, plenty accurate at the scale of a road trip
+export const distanceKm = (a: LatLng, b: LatLng) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+export const markerKey = (marker: MapMarker, index: number) => marker.id ?? `#${index}`;
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Both providers take an image URL, so the pin is drawn as an inline SVG
+export const markerIconUrl = ({ color, glyph }: MarkerIcon) => {
+  const label = glyph
+    ? `<text x="14" y="19" text-anchor="middle" font-family="sans-serif" font-size="13" font-weight="700" fill="#fff">${escapeXml(glyph.slice(0, 2))}</text>`
+    : '<circle cx="14" cy="14" r="5" fill="#fff"/>';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="28" height="40" viewBox="0 0 28 40">` +
+    `<path d="M14 0C6.3 0 0 6.3 0 14c0 10.5 14 26 14 26s14-15.5 14-26C28 6.3 21.7 0 14 0z" fill="${escapeXml(color)}" stroke="#fff" stroke-width="1.5"/>` +
+    label +
+    '</svg>';
+  return `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(svg)}`;
+};
+
+// Popup content is built from text nodes so titles and notes entered by users cannot inject markup
+export const buildInfoContent = (marker: MapMarker) => {
+  const container = document.createElement('div');
+  const heading = document.createElement('h3');
+  heading.style.fontWeight = '600';
+  heading.textContent = marker.title;
+  container.appendChild(heading);
+
+  if (marker.info) {
+    const body = document.createElement('p');
+    body.textContent = marker.info;
+    container.appendChild(body);
+  }
+
+  return container;
+};
+
+const PROVIDERS: Record<MapProviderName, () => Promise<MapProvider>> = {
+  google: () => import('./googleMaps').then((module) => module.googleMapProvider),
+  leaflet: () => import('./leafletMaps').then((module) => module.leafletMapProvider),
+};
+
+const isProviderName = (name: string | undefined): name is MapProviderName => !!name && name in PROVIDERS;
+
+let resolvedProvider: Promise<MapProvider> | null = null;
+
+const resolveProvider = async () => {
+  // VITE_MAP_PROVIDER picks the first choice; the others stand by in case it cannot load
+  const preferred = import.meta.env.VITE_MAP_PROVIDER;
+  const order: MapProviderName[] = isProviderName(preferred)
+    ? [preferred, ...(Object.keys(PROVIDERS) as MapProviderName[]).filter((name) => name !== preferred)]
+    : ['google', 'leaflet'];
+
+  let lastError: unknown = null;
+  for (const name of order) {
+    try {
+      const provider = await PROVIDERS[name]();
+      await provider.load();
+      return provider;
+    } catch (err) {
+      console.warn(`Map provider ${name} unavailable:`, err);
+      lastError = err;
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('No map provider could be loaded');
+};
+
+// Every map on the page shares the provider chosen the first time one is shown
+export const loadMapProvider = () => {
+  if (!resolvedProvider) {
+    resolvedProvider = resolveProvider();
+    // Let the next map try again rather than repeat a failure
+    resolvedProvider.catch(() => {
+      resolvedProvider = null;
+    });
+  }
+  return resolvedProvider;
+};
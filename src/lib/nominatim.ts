@@ -0,0 +1,56 @@
+import { GEOCODER_COUNTRY, Geocoder, MAX_SUGGESTIONS } from './geocoding';
+
+// The public server allows about one request a second and no autocomplete; point this at a self-hosted
+// instance for real traffic and search as you type
+const NOMINATIM_URL = import.meta.env.VITE_GEOCODER_URL || 'https://nominatim.openstreetmap.org';
+
+interface NominatimPlace {
+  place_id: number;
+  display_name: string;
+  lat: string;
+  lon: string;
+}
+
+const request = async <T>(path: string, params: Record<string, string>): Promise<T> => {
+  const query = new URLSearchParams({ format: 'jsonv2', ...params });
+  const response = await fetch(`${NOMINATIM_URL}/${path}?${query}`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new Error(`Geocoding request failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+export const nominatimGeocoder: Geocoder = {
+  name: 'nominatim',
+
+  searchAsYouType: !!import.meta.env.VITE_GEOCODER_URL,
+
+  load: () => Promise.resolve(),
+
+  async search(query) {
+    const places = await request<NominatimPlace[]>('search', {
+      q: query,
+      countrycodes: GEOCODER_COUNTRY,
+      limit: String(MAX_SUGGESTIONS),
+    });
+
+    return places.map((place) => ({
+      id: String(place.place_id),
+      label: place.display_name,
+      position: { lat: Number(place.lat), lng: Number(place.lon) },
+    }));
+  },
+
+  // Search results already carry their coordinates
+  locate: (suggestion) => Promise.resolve(suggestion.position ?? null),
+
+  async reverse(position) {
+    const place = await request<Partial<NominatimPlace> & { error?: string }>('reverse', {
+      lat: String(position.lat),
+      lon: String(position.lng),
+    });
+    return place.error ? null : place.display_name ?? null;
+  },
+};
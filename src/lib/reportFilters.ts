@@ -0,0 +1,93 @@
+import { SHIPMENT_STATUSES, SHIPMENT_STATUS_LABELS, ShipmentStatus } from '@/lib/shipmentStatus';
+
+// Dates are kept as yyyy-MM-dd strings so they round-trip through the URL unchanged
+export interface ReportFilters {
+  from: string;
+  to: string;
+  statuses: ShipmentStatus[];
+  commodity: string;
+  farmer: string;
+  transporter: string;
+  region: string;
+}
+
+export const EMPTY_REPORT_FILTERS: ReportFilters = {
+  from: '',
+  to: '',
+  statuses: [],
+  commodity: '',
+  farmer: '',
+  transporter: '',
+  region: ''
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const readDate = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : '');
+
+// A mistyped or tampered link drops the filter rather than failing the report RPCs
+const readId = (value: string | null) => (value && UUID_PATTERN.test(value) ? value : '');
+
+export const parseReportFilters = (params: URLSearchParams): ReportFilters => ({
+  from: readDate(params.get('from')),
+  to: readDate(params.get('to')),
+  statuses: (params.get('status') ?? '')
+    .split(',')
+    .filter((status): status is ShipmentStatus => SHIPMENT_STATUSES.includes(status as ShipmentStatus)),
+  commodity: params.get('commodity') ?? '',
+  farmer: readId(params.get('farmer')),
+  transporter: readId(params.get('transporter')),
+  region: params.get('region') ?? ''
+});
+
+export const toReportSearchParams = (filters: ReportFilters) => {
+  const params = new URLSearchParams();
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.statuses.length > 0) params.set('status', filters.statuses.join(','));
+  if (filters.commodity) params.set('commodity', filters.commodity);
+  if (filters.farmer) params.set('farmer', filters.farmer);
+  if (filters.transporter) params.set('transporter', filters.transporter);
+  if (filters.region.trim()) params.set('region', filters.region.trim());
+  return params;
+};
+
+export const hasReportFilters = (filters: ReportFilters) => toReportSearchParams(filters).toString() !== '';
+
+// Arguments shared by the report RPCs; unset filters are left out so the defaults apply
+export const toReportFilterArgs = (filters: ReportFilters) => ({
+  _from: filters.from || undefined,
+  _to: filters.to || undefined,
+  _statuses: filters.statuses.length > 0 ? filters.statuses : undefined,
+  _commodity_code: filters.commodity || undefined,
+  _farmer_id: filters.farmer || undefined,
+  _transporter_id: filters.transporter || undefined,
+  _region: filters.region.trim() || undefined
+});
+
+const formatDay = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { day: '2-digit', month: 'short', year: 'numeric' });
+
+// One line summary of the active filters for exported reports
+export const describeReportFilters = (
+  filters: ReportFilters,
+  names: { commodity?: string | null; farmer?: string | null; transporter?: string | null }
+) => {
+  const parts: string[] = [];
+  if (filters.from || filters.to) {
+    parts.push(`Created ${filters.from ? formatDay(filters.from) : 'any time'} to ${filters.to ? formatDay(filters.to) : 'today'}`);
+  }
+  if (filters.statuses.length > 0) {
+    parts.push(`Status: ${filters.statuses.map((status) => SHIPMENT_STATUS_LABELS[status]).join(', ')}`);
+  }
+  if (filters.commodity) parts.push(`Seed type: ${names.commodity ?? filters.commodity}`);
+  if (filters.farmer) parts.push(`Farmer: ${names.farmer ?? filters.farmer}`);
+  if (filters.transporter) parts.push(`Transporter: ${names.transporter ?? filters.transporter}`);
+  if (filters.region.trim()) parts.push(`Region: ${filters.region.trim()}`);
+  return parts.length > 0 ? parts.join('; ') : 'All visible shipments';
+};
+
+// PostgREST filter strings treat these characters as syntax or wildcards
+export const sanitizeRegion = (region: string) => region.replace(/[%_*,()\\]/g, ' ').trim();
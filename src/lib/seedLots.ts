@@ -0,0 +1,16 @@
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type SeedLot = Tables<'seed_lots'>;
+export type SeedLotStatus = Database['public']['Enums']['seed_lot_status'];
+export type SeedLotTraceRow = Database['public']['Functions']['trace_seed_lot']['Returns'][number];
+
+export const SEED_LOT_STATUS_LABELS: Record<SeedLotStatus, string> = {
+  active: 'Active',
+  split: 'Split',
+  merged: 'Merged'
+};
+
+export const getSeedLotBadgeVariant = (status: SeedLotStatus): 'default' | 'secondary' | 'outline' =>
+  status === 'active' ? 'default' : 'secondary';
+
+export const traceLotPath = (lotCode: string) => `/lots/trace/${encodeURIComponent(lotCode)}`;
@@ -0,0 +1,36 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { ShipmentStatus, SHIPMENT_STATUS_LABELS } from '@/lib/shipmentStatus';
+
+export type ShipmentEvent = Tables<'shipment_events'>;
+
+type EventValue = Record<string, string | number | null> | null;
+
+const asValue = (value: ShipmentEvent['new_value']): EventValue =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as EventValue) : null;
+
+const statusLabel = (status: unknown) =>
+  SHIPMENT_STATUS_LABELS[status as ShipmentStatus] ?? String(status ?? 'unknown');
+
+export const describeShipmentEvent = (event: ShipmentEvent): string => {
+  const oldValue = asValue(event.old_value);
+  const newValue = asValue(event.new_value);
+
+  switch (event.event_type) {
+    case 'created':
+      return `Shipment created as ${statusLabel(newValue?.status)}`;
+    case 'status_changed':
+      return `Status changed from ${statusLabel(oldValue?.status)} to ${statusLabel(newValue?.status)}`;
+    case 'assignment_changed':
+      if (!newValue?.transporter_id) {
+        return `Unassigned from ${oldValue?.transporter_name || 'transporter'}`;
+      }
+      if (newValue.transporter_id === oldValue?.transporter_id) {
+        return `${newValue.transporter_name || 'Transporter'} ${newValue.assignment_status === 'accepted' ? 'accepted' : 'updated'} the assignment`;
+      }
+      return `Offered to ${newValue.transporter_name || 'transporter'}`;
+    case 'location_changed':
+      return 'Pickup or drop-off location updated';
+    default:
+      return 'Shipment updated';
+  }
+};
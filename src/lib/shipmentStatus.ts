@@ -0,0 +1,122 @@
+import type { Database } from '@/integrations/supabase/types';
+import type { UserRole } from '@/hooks/useUserRole';
+import { DEFAULT_ROUTE_COLOR, MarkerIcon } from '@/lib/maps';
+
+export type ShipmentStatus = Database['public']['Enums']['shipment_status'];
+
+export const SHIPMENT_STATUSES: ShipmentStatus[] = [
+  'draft',
+  'pending',
+  'assigned',
+  'picked-up',
+  'in-transit',
+  'delivered',
+  'completed',
+  'cancelled',
+  'rejected'
+];
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  draft: 'Draft',
+  pending: 'Pending',
+  assigned: 'Assigned',
+  'picked-up': 'Picked Up',
+  'in-transit': 'In Transit',
+  delivered: 'Delivered',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  rejected: 'Rejected'
+};
+
+export const SHIPMENT_STATUS_COLORS: Record<ShipmentStatus, string> = {
+  draft: '#9ca3af',
+  pending: '#f59e0b',
+  assigned: '#8b5cf6',
+  'picked-up': '#6366f1',
+  'in-transit': '#3b82f6',
+  delivered: '#14b8a6',
+  completed: '#10b981',
+  cancelled: '#6b7280',
+  rejected: '#ef4444'
+};
+
+export type RouteEnd = 'origin' | 'destination';
+
+// Pins are lettered A for pickup and B for drop-off, and coloured by status once the shipment has one
+export const routeEndIcon = (end: RouteEnd, status?: ShipmentStatus): MarkerIcon => ({
+  color: status ? SHIPMENT_STATUS_COLORS[status] : DEFAULT_ROUTE_COLOR,
+  glyph: end === 'origin' ? 'A' : 'B'
+});
+
+export const getStatusBadgeVariant = (
+  status: ShipmentStatus
+): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  switch (status) {
+    case 'completed':
+    case 'delivered':
+      return 'default';
+    case 'assigned':
+    case 'picked-up':
+    case 'in-transit':
+      return 'secondary';
+    case 'rejected':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+// Mirrors public.shipment_status_transitions; the database trigger is the source of truth
+export const SHIPMENT_TRANSITIONS: Record<UserRole, Partial<Record<ShipmentStatus, ShipmentStatus[]>>> = {
+  farmer: {
+    draft: ['pending', 'cancelled'],
+    pending: ['draft', 'assigned', 'cancelled'],
+    assigned: ['pending', 'cancelled'],
+    delivered: ['completed'],
+    rejected: ['draft']
+  },
+  transporter: {
+    assigned: ['pending', 'picked-up'],
+    'picked-up': ['in-transit'],
+    'in-transit': ['delivered']
+  },
+  administrator: {
+    draft: ['pending', 'cancelled'],
+    pending: ['draft', 'assigned', 'cancelled', 'rejected'],
+    assigned: ['pending', 'picked-up', 'cancelled'],
+    'picked-up': ['in-transit', 'cancelled'],
+    'in-transit': ['delivered'],
+    delivered: ['completed'],
+    rejected: ['draft']
+  }
+};
+
+export const getAllowedTransitions = (
+  status: ShipmentStatus,
+  role: UserRole | null
+): ShipmentStatus[] => {
+  if (!role) return [];
+  return SHIPMENT_TRANSITIONS[role][status] ?? [];
+};
+
+// Assigning, declining and cancelling go through dedicated dialogs and RPCs
+// rather than a plain status update
+export const hasDedicatedAction = (
+  from: ShipmentStatus,
+  to: ShipmentStatus,
+  role: UserRole | null
+) =>
+  to === 'assigned' ||
+  to === 'cancelled' ||
+  (role === 'transporter' && from === 'assigned' && to === 'pending');
+
+// Title, addresses and coordinates are locked once a shipment leaves pending
+export const isEditableStatus = (status: ShipmentStatus) =>
+  status === 'draft' || status === 'pending';
+
+// Matches assign_shipment_transporter: an offer the transporter has not accepted yet can go to someone else
+export const canAssignTransporter = (
+  status: ShipmentStatus,
+  assignmentStatus: Database['public']['Enums']['assignment_status'] | null
+) =>
+  status === 'pending' || (status === 'assigned' && assignmentStatus === 'offered');
@@ -0,0 +1,60 @@
+import { Tables } from '@/integrations/supabase/types';
+import { LatLng, distanceKm } from './maps';
+import { ShipmentStatus } from './shipmentStatus';
+
+export type ShipmentLocation = Tables<'shipment_locations'>;
+
+// Mirrors record_shipment_location, which refuses fixes outside these statuses
+export const TRACKED_STATUSES: ShipmentStatus[] = ['picked-up', 'in-transit'];
+
+// GPS is switched on for one reading at a time rather than watched continuously.
+// The gap between readings widens while the truck stands still and again when the battery runs low.
+export const MOVING_INTERVAL_MS = 60_000;
+export const STATIONARY_INTERVAL_MS = 5 * 60_000;
+export const LOW_BATTERY_LEVEL = 0.2;
+const LOW_BATTERY_FACTOR = 2;
+
+// Readings closer than this to the last one are GPS drift rather than movement
+export const STATIONARY_RADIUS_M = 75;
+
+export interface LocationFix extends LatLng {
+  accuracy_m: number | null;
+  speed_mps: number | null;
+  heading: number | null;
+  recorded_at: string;
+}
+
+// Browsers report unknown speed and heading as null or NaN
+const finiteOrNull = (value: number | null) => (value !== null && Number.isFinite(value) ? value : null);
+
+export const toLocationFix = (position: GeolocationPosition): LocationFix => ({
+  lat: position.coords.latitude,
+  lng: position.coords.longitude,
+  accuracy_m: finiteOrNull(position.coords.accuracy),
+  speed_mps: finiteOrNull(position.coords.speed),
+  heading: finiteOrNull(position.coords.heading),
+  recorded_at: new Date(position.timestamp).toISOString()
+});
+
+export const hasMoved = (from: LatLng | null, to: LatLng) =>
+  !from || distanceKm(from, to) * 1000 >= STATIONARY_RADIUS_M;
+
+export const nextFixDelay = (moving: boolean, lowBattery: boolean) =>
+  (moving ? MOVING_INTERVAL_MS : STATIONARY_INTERVAL_MS) * (lowBattery ? LOW_BATTERY_FACTOR : 1);
+
+type BatteryNavigator = Navigator & {
+  getBattery?: () => Promise<{ level: number; charging: boolean }>;
+};
+
+// Only some browsers expose the battery; the others are treated as plugged in
+export const isBatteryLow = async () => {
+  try {
+    const battery = await (navigator as BatteryNavigator).getBattery?.();
+    return !!battery && !battery.charging && battery.level <= LOW_BATTERY_LEVEL;
+  } catch {
+    return false;
+  }
+};
+
+export const toTrackPoints = (locations: ShipmentLocation[]): LatLng[] =>
+  locations.map((location) => ({ lat: Number(location.lat), lng: Number(location.lng) }));
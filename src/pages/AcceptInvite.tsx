@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useLocation, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganizations } from '@/hooks/useOrganizations';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { USER_ROLE_LABELS } from '@/lib/adminUsers';
+import { isInvitationExpired } from '@/lib/invitations';
+import { MailCheck, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+type InvitationDetails = Database['public']['Functions']['get_invitation']['Returns'][number];
+
+// Landing page for invitation links: new people create an account, existing users sign in and accept
+const AcceptInvite = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const { user, loading: authLoading, signUp, signOut } = useAuth();
+  const { setActiveOrganization } = useOrganizations(null);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signedUp, setSignedUp] = useState(false);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_invitation', { _token: token });
+
+        if (error) throw error;
+        setInvitation(data?.[0] ?? null);
+      } catch (err) {
+        // Malformed tokens fail to parse; treat them like unknown ones
+        console.error('Error fetching invitation:', err);
+        setInvitation(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token, user]);
+
+  const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+    const { error } = await signUp(
+      formData.get('email') as string,
+      formData.get('password') as string,
+      formData.get('fullName') as string,
+      token
+    );
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setSignedUp(true);
+    }
+    setSubmitting(false);
+  };
+
+  const handleAccept = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const { data: organizationId, error } = await supabase.rpc('accept_invitation', { _token: token });
+
+      if (error) throw error;
+
+      setActiveOrganization(organizationId);
+      navigate('/dashboard', { replace: true });
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const goToSignIn = () => navigate('/auth', { state: { from: location } });
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  const renderCard = () => {
+    if (signedUp && !user) {
+      return (
+        <Card>
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 p-3 bg-primary/10 rounded-full w-fit">
+              <MailCheck className="h-8 w-8 text-primary" />
+            </div>
+            <CardTitle>Check Your Email</CardTitle>
+            <CardDescription>
+              Verify your email address, then sign in. Your {invitation ? `${invitation.organization_name} ` : ''}account is ready.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button className="w-full" onClick={goToSignIn}>Go to Sign In</Button>
+          </CardFooter>
+        </Card>
+      );
+    }
+
+    if (invitation?.status === 'accepted') {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitation Accepted</CardTitle>
+            <CardDescription>
+              This invitation to {invitation.organization_name} has already been used.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            {user ? (
+              <Button className="w-full" onClick={() => navigate('/dashboard', { replace: true })}>
+                Go to Dashboard
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={goToSignIn}>Sign In</Button>
+            )}
+          </CardFooter>
+        </Card>
+      );
+    }
+
+    if (!invitation || invitation.status !== 'pending' || isInvitationExpired(invitation)) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitation Unavailable</CardTitle>
+            <CardDescription>
+              This invitation link is invalid, has expired or was revoked. Ask your administrator to send a new one.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button variant="outline" className="w-full" onClick={goToSignIn}>Go to Sign In</Button>
+          </CardFooter>
+        </Card>
+      );
+    }
+
+    const roleLabel = USER_ROLE_LABELS[invitation.role].toLowerCase();
+    const description = `You have been invited to join ${invitation.organization_name} as a ${roleLabel}.`;
+
+    if (user) {
+      const wrongEmail = !!invitation.email && invitation.email.toLowerCase() !== user.email?.toLowerCase();
+
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>Join {invitation.organization_name}</CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">Signed in as {user.email}</p>
+            {wrongEmail && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  This invitation was sent to {invitation.email}. Sign out and use that account to accept it.
+                </AlertDescription>
+              </Alert>
+            )}
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+          <CardFooter className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={signOut}>
+              Sign Out
+            </Button>
+            <Button className="flex-1" onClick={handleAccept} disabled={submitting || wrongEmail}>
+              {submitting ? 'Joining...' : 'Accept Invitation'}
+            </Button>
+          </CardFooter>
+        </Card>
+      );
+    }
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Your Account</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSignUp}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-name">Full Name</Label>
+              <Input id="invite-name" name="fullName" placeholder="Enter your full name" maxLength={100} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                name="email"
+                type="email"
+                placeholder="Enter your email"
+                defaultValue={invitation.email ?? ''}
+                readOnly={!!invitation.email}
+                maxLength={254}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-password">Password</Label>
+              <Input
+                id="invite-password"
+                name="password"
+                type="password"
+                placeholder="Create a strong password"
+                maxLength={128}
+                required
+              />
+              <div className="text-xs text-muted-foreground">
+                Password must be at least 8 characters with uppercase, lowercase, number, and special character
+              </div>
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-2">
+            <Button type="submit" className="w-full" disabled={submitting}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              {submitting ? 'Creating account...' : 'Create Account and Join'}
+            </Button>
+            <Button type="button" variant="link" className="w-full" onClick={goToSignIn}>
+              Already have an account? Sign in to accept
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold tracking-tight">Seed Track Flow</h1>
+          <p className="text-muted-foreground mt-2">
+            Oil Seed Supply Chain Management System
+          </p>
+        </div>
+        {renderCard()}
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvite;
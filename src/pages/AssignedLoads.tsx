@@ -0,0 +1,9 @@
+import { useAppContext } from '@/hooks/useAppContext';
+import { AssignedShipments } from '@/components/AssignedShipments';
+
+const AssignedLoads = () => {
+  const { userId, organizationId } = useAppContext();
+  return <AssignedShipments userId={userId} organizationId={organizationId} />;
+};
+
+export default AssignedLoads;
@@ -1,38 +1,58 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useInputValidation } from '@/hooks/useInputValidation';
-import { Shield, Wheat, Truck } from 'lucide-react';
+import { Shield, Wheat, Truck, Mail } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MfaChallenge } from '@/components/MfaChallenge';
+
+type SignInMode = 'password' | 'magic-link' | 'forgot-password';
 
 const Auth = () => {
   const { 
     signIn, 
     signUp, 
+    signInWithMagicLink,
+    requestPasswordReset,
+    resendVerification,
+    needsMfaChallenge,
+    signOut,
     user, 
     loading: authLoading,
     getSignInAttemptsRemaining,
     getSignUpAttemptsRemaining,
     isSignInBlocked,
-    isSignUpBlocked
+    isSignUpBlocked,
+    isMagicLinkBlocked,
+    isPasswordResetBlocked,
+    isResendVerificationBlocked
   } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Send users back to the page they were trying to open before signing in
+  const redirectTo = (location.state as { from?: { pathname: string; search?: string } } | null)?.from;
+  const redirectPath = redirectTo ? `${redirectTo.pathname}${redirectTo.search ?? ''}` : '/dashboard';
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [signInMode, setSignInMode] = useState<SignInMode>('password');
+  // Address that still needs verifying, offered a resend after sign up or a blocked sign in
+  const [verificationEmail, setVerificationEmail] = useState<string | null>(null);
+  // Password accepted, but the account's authenticator still has to be checked
+  const [mfaPending, setMfaPending] = useState(false);
   const { errors, validateAndUpdateField, clearAllErrors, hasErrors } = useInputValidation();
 
-  // Redirect if already authenticated
+  // Redirect if already authenticated; a sign in in progress decides for itself once it knows about two-factor
   useEffect(() => {
-    if (user && !authLoading) {
-      navigate('/');
+    if (user && !authLoading && !loading && !mfaPending) {
+      navigate(redirectPath, { replace: true });
     }
-  }, [user, authLoading, navigate]);
+  }, [user, authLoading, loading, mfaPending, navigate, redirectPath]);
 
   const handleSignIn = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -56,16 +76,26 @@ const Auth = () => {
     
     if (error) {
       setError(error.message);
+      if (error.message === 'Email not confirmed') {
+        setVerificationEmail(email);
+      }
       const remaining = getSignInAttemptsRemaining();
       if (remaining <= 2 && remaining > 0) {
         setError(`${error.message} (${remaining} attempts remaining)`);
       }
+    } else if (await needsMfaChallenge()) {
+      setMfaPending(true);
     } else {
-      navigate('/');
+      navigate(redirectPath, { replace: true });
     }
     setLoading(false);
   };
 
+  const handleMfaSignOut = async () => {
+    await signOut();
+    setMfaPending(false);
+  };
+
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setLoading(true);
@@ -95,10 +125,141 @@ const Auth = () => {
       }
     } else {
       setSuccess('Account created successfully! Please check your email to verify your account.');
+      setVerificationEmail(email);
+    }
+    setLoading(false);
+  };
+
+  const handleMagicLink = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    clearAllErrors();
+
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get('email') as string;
+
+    if (isMagicLinkBlocked()) {
+      setError('Too many sign-in link requests. Please try again later.');
+      setLoading(false);
+      return;
+    }
+
+    const { error } = await signInWithMagicLink(email);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      // Shown whether or not the address has an account
+      setSuccess('Check your email. If an account uses this address, a link to sign in is on its way.');
     }
     setLoading(false);
   };
 
+  const handleForgotPassword = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    clearAllErrors();
+
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get('email') as string;
+
+    if (isPasswordResetBlocked()) {
+      setError('Too many password reset requests. Please try again later.');
+      setLoading(false);
+      return;
+    }
+
+    const { error } = await requestPasswordReset(email);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      // Same message whether or not the account exists
+      setSuccess('If an account uses that email, a link to reset your password is on its way.');
+    }
+    setLoading(false);
+  };
+
+  const handleResendVerification = async () => {
+    if (!verificationEmail) return;
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    const { error } = await resendVerification(verificationEmail);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setSuccess(`We sent another verification email to ${verificationEmail}.`);
+    }
+    setLoading(false);
+  };
+
+  const switchSignInMode = (mode: SignInMode) => {
+    setSignInMode(mode);
+    setError(null);
+    setSuccess(null);
+    clearAllErrors();
+  };
+
+  const renderResendVerification = () =>
+    verificationEmail && (
+      <Button
+        type="button"
+        variant="link"
+        className="w-full"
+        onClick={handleResendVerification}
+        disabled={loading || isResendVerificationBlocked()}
+      >
+        Resend verification email
+      </Button>
+    );
+
+  const renderEmailField = (id: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Email</Label>
+      <Input
+        id={id}
+        name="email"
+        type="email"
+        placeholder="Enter your email"
+        maxLength={254}
+        required
+        onChange={(e) => {
+          validateAndUpdateField(id, e.target.value, {
+            required: true,
+            email: true,
+            maxLength: 254
+          });
+        }}
+      />
+      {errors[id] && (
+        <p className="text-sm text-destructive">{errors[id]}</p>
+      )}
+    </div>
+  );
+
+  const renderMessages = () => (
+    <>
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert>
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
+
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -131,206 +292,291 @@ const Auth = () => {
           </div>
         </div>
 
-        <Tabs defaultValue="signin" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="signin">Sign In</TabsTrigger>
-            <TabsTrigger value="signup">Sign Up</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="signin">
-            <Card>
-              <CardHeader>
-                <CardTitle>Sign In</CardTitle>
-                <CardDescription>
-                  Enter your credentials to access your account
-                </CardDescription>
-              </CardHeader>
-              <form onSubmit={handleSignIn}>
-                <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-email">Email</Label>
-                    <Input
-                      id="signin-email"
-                      name="email"
-                      type="email"
-                      placeholder="Enter your email"
-                      maxLength={254}
-                      required
-                      onChange={(e) => {
-                        validateAndUpdateField('signin-email', e.target.value, {
-                          required: true,
-                          email: true,
-                          maxLength: 254
-                        });
-                      }}
-                    />
-                    {errors['signin-email'] && (
-                      <p className="text-sm text-destructive">{errors['signin-email']}</p>
-                    )}
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-password">Password</Label>
-                    <Input
-                      id="signin-password"
-                      name="password"
-                      type="password"
-                      placeholder="Enter your password"
-                      maxLength={128}
-                      required
-                      onChange={(e) => {
-                        validateAndUpdateField('signin-password', e.target.value, {
-                          required: true,
-                          maxLength: 128
-                        });
-                      }}
-                    />
-                    {errors['signin-password'] && (
-                      <p className="text-sm text-destructive">{errors['signin-password']}</p>
-                    )}
-                  </div>
-                  {error && (
-                    <Alert variant="destructive">
-                      <AlertDescription>{error}</AlertDescription>
-                    </Alert>
-                  )}
-                </CardContent>
-                <CardFooter>
-                  <Button 
-                    type="submit" 
-                    className="w-full" 
-                    disabled={loading || hasErrors() || isSignInBlocked()}
-                  >
-                    {loading ? (
-                      <>
-                        <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-current" />
-                        Signing in...
-                      </>
-                    ) : (
-                      'Sign In'
-                    )}
-                  </Button>
-                  {isSignInBlocked() && (
-                    <p className="text-sm text-warning text-center mt-2">
-                      Account temporarily locked due to too many failed attempts
-                    </p>
-                  )}
-                </CardFooter>
-              </form>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="signup">
-            <Card>
-              <CardHeader>
-                <CardTitle>Create Account</CardTitle>
-                <CardDescription>
-                  Fill in your details to create a new account
-                </CardDescription>
-              </CardHeader>
-              <form onSubmit={handleSignUp}>
-                <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-name">Full Name</Label>
-                    <Input
-                      id="signup-name"
-                      name="fullName"
-                      type="text"
-                      placeholder="Enter your full name"
-                      maxLength={100}
-                      required
-                      onChange={(e) => {
-                        validateAndUpdateField('signup-name', e.target.value, {
-                          required: true,
-                          maxLength: 100,
-                          pattern: /^[a-zA-Z\s\-'\.]+$/
-                        });
-                      }}
-                    />
-                    {errors['signup-name'] && (
-                      <p className="text-sm text-destructive">{errors['signup-name']}</p>
-                    )}
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-email">Email</Label>
-                    <Input
-                      id="signup-email"
-                      name="email"
-                      type="email"
-                      placeholder="Enter your email"
-                      maxLength={254}
-                      required
-                      onChange={(e) => {
-                        validateAndUpdateField('signup-email', e.target.value, {
-                          required: true,
-                          email: true,
-                          maxLength: 254
-                        });
-                      }}
-                    />
-                    {errors['signup-email'] && (
-                      <p className="text-sm text-destructive">{errors['signup-email']}</p>
-                    )}
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-password">Password</Label>
-                    <Input
-                      id="signup-password"
-                      name="password"
-                      type="password"
-                      placeholder="Create a strong password"
-                      maxLength={128}
-                      required
-                      onChange={(e) => {
-                        validateAndUpdateField('signup-password', e.target.value, {
-                          required: true,
-                          strongPassword: true,
-                          maxLength: 128
-                        });
-                      }}
-                    />
-                    {errors['signup-password'] && (
-                      <p className="text-sm text-destructive">{errors['signup-password']}</p>
-                    )}
-                    <div className="text-xs text-muted-foreground">
-                      Password must be at least 8 characters with uppercase, lowercase, number, and special character
+        {mfaPending ? (
+          <MfaChallenge
+            onVerified={() => navigate(redirectPath, { replace: true })}
+            onSignOut={handleMfaSignOut}
+          />
+        ) : (
+          <Tabs defaultValue="signin" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="signin">Sign In</TabsTrigger>
+              <TabsTrigger value="signup">Sign Up</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="signin">
+              {signInMode === 'password' && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Sign In</CardTitle>
+                    <CardDescription>
+                      Enter your credentials to access your account
+                    </CardDescription>
+                  </CardHeader>
+                  <form onSubmit={handleSignIn}>
+                    <CardContent className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="signin-email">Email</Label>
+                        <Input
+                          id="signin-email"
+                          name="email"
+                          type="email"
+                          placeholder="Enter your email"
+                          maxLength={254}
+                          required
+                          onChange={(e) => {
+                            validateAndUpdateField('signin-email', e.target.value, {
+                              required: true,
+                              email: true,
+                              maxLength: 254
+                            });
+                          }}
+                        />
+                        {errors['signin-email'] && (
+                          <p className="text-sm text-destructive">{errors['signin-email']}</p>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="signin-password">Password</Label>
+                          <Button
+                            type="button"
+                            variant="link"
+                            className="h-auto p-0 text-sm"
+                            onClick={() => switchSignInMode('forgot-password')}
+                          >
+                            Forgot password?
+                          </Button>
+                        </div>
+                        <Input
+                          id="signin-password"
+                          name="password"
+                          type="password"
+                          placeholder="Enter your password"
+                          maxLength={128}
+                          required
+                          onChange={(e) => {
+                            validateAndUpdateField('signin-password', e.target.value, {
+                              required: true,
+                              maxLength: 128
+                            });
+                          }}
+                        />
+                        {errors['signin-password'] && (
+                          <p className="text-sm text-destructive">{errors['signin-password']}</p>
+                        )}
+                      </div>
+                      {renderMessages()}
+                    </CardContent>
+                    <CardFooter className="flex flex-col gap-2">
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
+                        disabled={loading || hasErrors() || isSignInBlocked()}
+                      >
+                        {loading ? (
+                          <>
+                            <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-current" />
+                            Signing in...
+                          </>
+                        ) : (
+                          'Sign In'
+                        )}
+                      </Button>
+                      {isSignInBlocked() && (
+                        <p className="text-sm text-warning text-center mt-2">
+                          Account temporarily locked due to too many failed attempts
+                        </p>
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => switchSignInMode('magic-link')}
+                      >
+                        <Mail className="mr-2 h-4 w-4" />
+                        Email me a sign-in link
+                      </Button>
+                      {renderResendVerification()}
+                    </CardFooter>
+                  </form>
+                </Card>
+              )}
+
+              {signInMode === 'magic-link' && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Sign In with Email</CardTitle>
+                    <CardDescription>
+                      We will email you a one-time link that signs you in without a password
+                    </CardDescription>
+                  </CardHeader>
+                  <form onSubmit={handleMagicLink}>
+                    <CardContent className="space-y-4">
+                      {renderEmailField('magic-link-email')}
+                      {renderMessages()}
+                    </CardContent>
+                    <CardFooter className="flex flex-col gap-2">
+                      <Button
+                        type="submit"
+                        className="w-full"
+                        disabled={loading || hasErrors() || isMagicLinkBlocked()}
+                      >
+                        {loading ? 'Sending link...' : 'Send Sign-In Link'}
+                      </Button>
+                      {isMagicLinkBlocked() && (
+                        <p className="text-sm text-warning text-center">
+                          Too many sign-in link requests. Please try again later.
+                        </p>
+                      )}
+                      <Button type="button" variant="link" className="w-full" onClick={() => switchSignInMode('password')}>
+                        Sign in with a password instead
+                      </Button>
+                    </CardFooter>
+                  </form>
+                </Card>
+              )}
+
+              {signInMode === 'forgot-password' && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Reset Password</CardTitle>
+                    <CardDescription>
+                      Enter your account email and we will send you a link to choose a new password
+                    </CardDescription>
+                  </CardHeader>
+                  <form onSubmit={handleForgotPassword}>
+                    <CardContent className="space-y-4">
+                      {renderEmailField('reset-email')}
+                      {renderMessages()}
+                    </CardContent>
+                    <CardFooter className="flex flex-col gap-2">
+                      <Button
+                        type="submit"
+                        className="w-full"
+                        disabled={loading || hasErrors() || isPasswordResetBlocked()}
+                      >
+                        {loading ? 'Sending link...' : 'Send Reset Link'}
+                      </Button>
+                      {isPasswordResetBlocked() && (
+                        <p className="text-sm text-warning text-center">
+                          Too many password reset requests. Please try again later.
+                        </p>
+                      )}
+                      <Button type="button" variant="link" className="w-full" onClick={() => switchSignInMode('password')}>
+                        Back to sign in
+                      </Button>
+                    </CardFooter>
+                  </form>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="signup">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Create Account</CardTitle>
+                  <CardDescription>
+                    Fill in your details to create a new account
+                  </CardDescription>
+                </CardHeader>
+                <form onSubmit={handleSignUp}>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-name">Full Name</Label>
+                      <Input
+                        id="signup-name"
+                        name="fullName"
+                        type="text"
+                        placeholder="Enter your full name"
+                        maxLength={100}
+                        required
+                        onChange={(e) => {
+                          validateAndUpdateField('signup-name', e.target.value, {
+                            required: true,
+                            maxLength: 100,
+                            pattern: /^[a-zA-Z\s\-'\.]+$/
+                          });
+                        }}
+                      />
+                      {errors['signup-name'] && (
+                        <p className="text-sm text-destructive">{errors['signup-name']}</p>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-email">Email</Label>
+                      <Input
+                        id="signup-email"
+                        name="email"
+                        type="email"
+                        placeholder="Enter your email"
+                        maxLength={254}
+                        required
+                        onChange={(e) => {
+                          validateAndUpdateField('signup-email', e.target.value, {
+                            required: true,
+                            email: true,
+                            maxLength: 254
+                          });
+                        }}
+                      />
+                      {errors['signup-email'] && (
+                        <p className="text-sm text-destructive">{errors['signup-email']}</p>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-password">Password</Label>
+                      <Input
+                        id="signup-password"
+                        name="password"
+                        type="password"
+                        placeholder="Create a strong password"
+                        maxLength={128}
+                        required
+                        onChange={(e) => {
+                          validateAndUpdateField('signup-password', e.target.value, {
+                            required: true,
+                            strongPassword: true,
+                            maxLength: 128
+                          });
+                        }}
+                      />
+                      {errors['signup-password'] && (
+                        <p className="text-sm text-destructive">{errors['signup-password']}</p>
+                      )}
+                      <div className="text-xs text-muted-foreground">
+                        Password must be at least 8 characters with uppercase, lowercase, number, and special character
+                      </div>
                     </div>
-                  </div>
-                  {error && (
-                    <Alert variant="destructive">
-                      <AlertDescription>{error}</AlertDescription>
-                    </Alert>
-                  )}
-                  {success && (
-                    <Alert>
-                      <AlertDescription>{success}</AlertDescription>
-                    </Alert>
-                  )}
-                </CardContent>
-                <CardFooter>
-                  <Button 
-                    type="submit" 
-                    className="w-full" 
-                    disabled={loading || hasErrors() || isSignUpBlocked()}
-                  >
-                    {loading ? (
-                      <>
-                        <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-current" />
-                        Creating account...
-                      </>
-                    ) : (
-                      'Create Account'
+                    {renderMessages()}
+                  </CardContent>
+                  <CardFooter className="flex flex-col gap-2">
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={loading || hasErrors() || isSignUpBlocked()}
+                    >
+                      {loading ? (
+                        <>
+                          <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-current" />
+                          Creating account...
+                        </>
+                      ) : (
+                        'Create Account'
+                      )}
+                    </Button>
+                    {isSignUpBlocked() && (
+                      <p className="text-sm text-warning text-center mt-2">
+                        Too many signup attempts. Please try again later.
+                      </p>
                     )}
-                  </Button>
-                  {isSignUpBlocked() && (
-                    <p className="text-sm text-warning text-center mt-2">
-                      Too many signup attempts. Please try again later.
-                    </p>
-                  )}
-                </CardFooter>
-              </form>
-            </Card>
-          </TabsContent>
-        </Tabs>
+                    {renderResendVerification()}
+                  </CardFooter>
+                </form>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
 
         <div className="text-center mt-6">
           <Link 
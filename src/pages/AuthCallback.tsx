@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { getAuthRedirectCode, getAuthRedirectError } from '@/lib/authRedirect';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+// Where verification and sign-in links land; finishes signing in and moves on to the app
+const AuthCallback = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(() => getAuthRedirectError());
+  const [exchanging, setExchanging] = useState(() => !!getAuthRedirectCode());
+
+  useEffect(() => {
+    const code = getAuthRedirectCode();
+    if (!code) return;
+
+    supabase.auth.exchangeCodeForSession(code).then(({ error }) => {
+      if (error) setError(error.message);
+      setExchanging(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!error && !authLoading && !exchanging && user) {
+      navigate('/dashboard', { replace: true });
+    }
+  }, [error, authLoading, exchanging, user, navigate]);
+
+  if (!error && (authLoading || exchanging || user)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Link Not Valid</CardTitle>
+          <CardDescription>{error ?? 'This link has expired or was already used.'}</CardDescription>
+          <p className="text-sm text-muted-foreground">Sign in again or request a new link from the sign in page.</p>
+        </CardHeader>
+        <CardFooter>
+          <Button asChild className="w-full">
+            <Link to="/auth">Back to Sign In</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthCallback;
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppContext } from '@/hooks/useAppContext';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { Badge } from '@/components/ui/badge';
+
+const Dashboard = () => {
+  const { userId, userRole, organizationId } = useAppContext();
+  const [shipmentCount, setShipmentCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchShipmentCount = async () => {
+      try {
+        let query = supabase.from('shipments').select('*', { count: 'exact' }).eq('organization_id', organizationId);
+        
+        if (userRole === 'transporter') {
+          query = query.eq('assigned_transporter_id', userId);
+        } else if (userRole !== 'administrator') {
+          query = query.eq('user_id', userId);
+        }
+
+        const { count, error } = await query;
+
+        if (error) throw error;
+        setShipmentCount(count || 0);
+      } catch (error) {
+        console.error('Error fetching shipments:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchShipmentCount();
+  }, [userId, userRole, organizationId]);
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const getRoleWelcomeMessage = () => {
+    switch (userRole) {
+      case 'administrator':
+        return 'Welcome, Administrator! You have full system access.';
+      case 'farmer':
+        return 'Welcome, Farmer! Manage your oil seed shipments and track deliveries.';
+      case 'transporter':
+        return 'Welcome, Transporter! View assigned shipments and update delivery status.';
+      default:
+        return 'Welcome to Seed Track Flow!';
+    }
+  };
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground mb-2">Dashboard</h1>
+        <p className="text-muted-foreground">{getRoleWelcomeMessage()}</p>
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        <div className="bg-card p-6 rounded-lg shadow-card border">
+          <h2 className="text-xl font-semibold text-card-foreground mb-2">
+            {userRole === 'administrator' ? 'Total System Shipments' : 'Your Shipments'}
+          </h2>
+          <p className="text-3xl font-bold text-primary">{shipmentCount}</p>
+          <p className="text-muted-foreground">Active shipments in the system</p>
+        </div>
+        
+        <div className="bg-card p-6 rounded-lg shadow-card border">
+          <h2 className="text-xl font-semibold text-card-foreground mb-2">Your Role</h2>
+          <Badge className="text-sm" variant="secondary">
+            {userRole?.charAt(0).toUpperCase() + userRole?.slice(1)}
+          </Badge>
+          <p className="text-muted-foreground mt-2">Current system role</p>
+        </div>
+        
+        <div className="bg-card p-6 rounded-lg shadow-card border">
+          <h2 className="text-xl font-semibold text-card-foreground mb-2">Quick Actions</h2>
+          <p className="text-muted-foreground">
+            Use the sidebar to navigate to {userRole === 'farmer' || userRole === 'administrator' ? 'Shipments, ' : 'Assigned Loads, '}
+            Reports{userRole === 'administrator' ? ', Inventory, and Users' : ''}.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
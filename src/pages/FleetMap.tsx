@@ -0,0 +1,214 @@
+import { useState, useMemo, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useFleetShipments } from '@/hooks/useFleetShipments';
+import { useTransporters } from '@/hooks/useTransporters';
+import { useCommodities } from '@/hooks/useCommodities';
+import MapView from '@/components/MapView';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { ShipmentStatusBadge } from '@/components/ShipmentStatusBadge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapBounds } from '@/lib/maps';
+import {
+  FLEET_POSITION_LABELS,
+  fleetPosition,
+  isShipmentInBounds,
+  lastKnownPoint,
+  shipmentEnds,
+  shipmentIdFromMarker,
+  toFleetMarkers,
+  toShipmentRoute
+} from '@/lib/fleet';
+import { SHIPMENT_STATUS_COLORS, SHIPMENT_STATUS_LABELS } from '@/lib/shipmentStatus';
+import { cn } from '@/lib/utils';
+
+const ALL = 'all';
+const UNASSIGNED = 'unassigned';
+const INDIA_VIEW = { center: { lat: 20.5937, lng: 78.9629 }, zoom: 5 };
+// Close enough to tell a mandi from the village next to it
+const FOCUS_ZOOM = 10;
+
+const FleetMap = () => {
+  const { organizationId } = useAppContext();
+  const navigate = useNavigate();
+  const { shipments, loading } = useFleetShipments(organizationId);
+  const { transporters, getTransporterName } = useTransporters(organizationId);
+  const { commodities, getCommodityName } = useCommodities();
+  const [commodityFilter, setCommodityFilter] = useState(ALL);
+  const [transporterFilter, setTransporterFilter] = useState(ALL);
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState(INDIA_VIEW);
+
+  const filtered = useMemo(
+    () =>
+      shipments.filter((shipment) => {
+        if (commodityFilter !== ALL && shipment.commodity_code !== commodityFilter) return false;
+        if (transporterFilter === UNASSIGNED) return !shipment.assigned_transporter_id;
+        return transporterFilter === ALL || shipment.assigned_transporter_id === transporterFilter;
+      }),
+    [shipments, commodityFilter, transporterFilter]
+  );
+
+  // The list follows the map: only shipments with an end inside the current view are listed
+  const inView = useMemo(
+    () => (bounds ? filtered.filter((shipment) => isShipmentInBounds(shipment, bounds)) : filtered),
+    [filtered, bounds]
+  );
+  const unmapped = filtered.filter((shipment) => {
+    const { origin, destination } = shipmentEnds(shipment);
+    return !origin && !destination;
+  }).length;
+
+  const markers = useMemo(() => toFleetMarkers(filtered), [filtered]);
+
+  // Directions for hundreds of shipments would exhaust the routing quota, so only the selected one is drawn
+  const routes = useMemo(() => {
+    const selected = filtered.find((shipment) => shipment.id === selectedId);
+    const route = selected && toShipmentRoute(selected);
+    return route ? [route] : [];
+  }, [filtered, selectedId]);
+
+  const handleMarkerClick = useCallback((markerId: string) => {
+    navigate(`/shipments/${shipmentIdFromMarker(markerId)}`);
+  }, [navigate]);
+
+  const focusShipment = (shipmentId: string) => {
+    setSelectedId(shipmentId);
+    const shipment = filtered.find((s) => s.id === shipmentId);
+    if (!shipment) return;
+
+    const { origin, destination } = shipmentEnds(shipment);
+    const point = lastKnownPoint(shipment) ??
+      (fleetPosition(shipment.status) === 'drop-off' ? destination ?? origin : origin ?? destination);
+    if (point) {
+      setView({ center: point, zoom: FOCUS_ZOOM });
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Fleet Map</h1>
+          <p className="text-muted-foreground mt-1">
+            {filtered.length} active shipment{filtered.length === 1 ? '' : 's'}, updated live
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={commodityFilter} onValueChange={setCommodityFilter}>
+            <SelectTrigger className="w-44" aria-label="Filter by seed type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All seed types</SelectItem>
+              {commodities.map((commodity) => (
+                <SelectItem key={commodity.code} value={commodity.code}>
+                  {commodity.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={transporterFilter} onValueChange={setTransporterFilter}>
+            <SelectTrigger className="w-48" aria-label="Filter by transporter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All transporters</SelectItem>
+              <SelectItem value={UNASSIGNED}>Not yet assigned</SelectItem>
+              {transporters.map((transporter) => (
+                <SelectItem key={transporter.id} value={transporter.id}>
+                  {transporter.full_name || transporter.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-card rounded-lg shadow-card border flex flex-col lg:h-[640px]">
+          <div className="p-4 border-b">
+            <h2 className="text-lg font-semibold text-card-foreground">In View</h2>
+            <p className="text-sm text-muted-foreground">
+              {inView.length} of {filtered.length} shipments
+              {unmapped > 0 && `, ${unmapped} without map locations`}
+            </p>
+          </div>
+          <ul className="flex-1 overflow-y-auto divide-y max-h-[480px] lg:max-h-none">
+            {inView.length === 0 ? (
+              <li className="p-4 text-sm text-muted-foreground">No shipments in this part of the map.</li>
+            ) : (
+              inView.map((shipment) => (
+                <li key={shipment.id}>
+                  <button
+                    type="button"
+                    onClick={() => focusShipment(shipment.id)}
+                    className={cn(
+                      'w-full text-left p-4 hover:bg-accent/50 transition-colors border-l-4',
+                      selectedId === shipment.id ? 'bg-accent' : ''
+                    )}
+                    style={{ borderLeftColor: SHIPMENT_STATUS_COLORS[shipment.status] }}
+                    aria-pressed={selectedId === shipment.id}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="font-medium text-foreground">{shipment.title}</span>
+                      <ShipmentStatusBadge status={shipment.status} />
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {shipment.origin_address || 'Origin not set'} → {shipment.destination_address || 'Destination not set'}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {[
+                        lastKnownPoint(shipment) && shipment.last_located_at
+                          ? `Last seen ${new Date(shipment.last_located_at).toLocaleTimeString()}`
+                          : FLEET_POSITION_LABELS[fleetPosition(shipment.status)],
+                        getCommodityName(shipment.commodity_code),
+                        getTransporterName(shipment.assigned_transporter_id) ?? 'No transporter'
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </button>
+                  {selectedId === shipment.id && (
+                    <div className="px-4 pb-3 bg-accent">
+                      <Link to={`/shipments/${shipment.id}`} className="text-sm text-primary hover:underline">
+                        Open shipment
+                      </Link>
+                    </div>
+                  )}
+                </li>
+              ))
+            )}
+          </ul>
+        </div>
+
+        <div className="lg:col-span-2 space-y-3">
+          <MapView
+            height="640px"
+            markers={markers}
+            routes={routes}
+            center={view.center}
+            zoom={view.zoom}
+            cluster
+            onBoundsChange={setBounds}
+            onMarkerClick={handleMarkerClick}
+          />
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            <span>A pickup · B drop-off · plain pins are trucks reporting GPS · click a pin to open its shipment</span>
+            {Array.from(new Set(filtered.map((shipment) => shipment.status))).map((status) => (
+              <span key={status} className="flex items-center gap-1">
+                <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: SHIPMENT_STATUS_COLORS[status] }} />
+                {SHIPMENT_STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FleetMap;
@@ -0,0 +1,437 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCommodities } from '@/hooks/useCommodities';
+import { useSeedLots } from '@/hooks/useSeedLots';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { AddWarehouseDialog } from '@/components/AddWarehouseDialog';
+import { AdjustStockDialog } from '@/components/AdjustStockDialog';
+import { TransferStockDialog } from '@/components/TransferStockDialog';
+import { WeightInput } from '@/components/WeightInput';
+import { ExportMenu } from '@/components/ExportMenu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WEIGHT_UNIT_LABELS, WeightUnit, formatTonnes } from '@/lib/cargo';
+import { STOCK_MOVEMENT_LABELS, Warehouse, formatKilograms, parseQuantity } from '@/lib/inventory';
+import { traceLotPath } from '@/lib/seedLots';
+import { ExportFormat, exportDocument, exportFilename } from '@/lib/exporters';
+
+const ALL_WAREHOUSES = 'all';
+const NO_LOT = 'none';
+const EXPORT_PAGE_SIZE = 1000;
+
+type InventoryRow = Tables<'inventory_items'> & {
+  warehouses: { name: string } | null;
+  commodities: { name: string } | null;
+};
+
+type MovementRow = Tables<'stock_movements'> & {
+  seed_lots: { lot_code: string } | null;
+  inventory_items: {
+    warehouse_id: string;
+    warehouses: { name: string } | null;
+    commodities: { name: string } | null;
+  } | null;
+};
+
+const Inventory = () => {
+  const { userId, organizationId } = useAppContext();
+  const { activeCommodities } = useCommodities();
+  const { activeLots } = useSeedLots(organizationId);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [inventoryItems, setInventoryItems] = useState<InventoryRow[]>([]);
+  const [movements, setMovements] = useState<MovementRow[]>([]);
+  const [warehouseFilter, setWarehouseFilter] = useState(ALL_WAREHOUSES);
+  const [receipt, setReceipt] = useState({
+    warehouse_id: '',
+    commodity_code: '',
+    quantity: '',
+    unit: 'quintal' as WeightUnit,
+    lot_id: '',
+    note: ''
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchInventory = useCallback(async () => {
+    try {
+      const [warehousesResult, itemsResult, movementsResult] = await Promise.all([
+        supabase.from('warehouses').select('*').eq('organization_id', organizationId).order('name'),
+        supabase
+          .from('inventory_items')
+          .select('*, warehouses!inner(name), commodities(name)')
+          .eq('warehouses.organization_id', organizationId)
+          .order('updated_at', { ascending: false }),
+        supabase
+          .from('stock_movements')
+          .select('*, seed_lots(lot_code), inventory_items!inner(warehouse_id, warehouses!inner(name), commodities(name))')
+          .eq('inventory_items.warehouses.organization_id', organizationId)
+          .order('created_at', { ascending: false })
+          .limit(25)
+      ]);
+
+      if (warehousesResult.error) throw warehousesResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      if (movementsResult.error) throw movementsResult.error;
+
+      setWarehouses(warehousesResult.data || []);
+      setInventoryItems(itemsResult.data || []);
+      setMovements(movementsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching inventory:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load inventory. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, toast]);
+
+  useEffect(() => {
+    fetchInventory();
+  }, [userId, fetchInventory]);
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseQuantity(receipt.quantity);
+    if (!receipt.warehouse_id || !receipt.commodity_code || quantity === null || quantity <= 0) {
+      toast({
+        title: "Error",
+        description: "Please choose a warehouse, seed type and a quantity greater than zero.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('receive_stock', {
+        _warehouse_id: receipt.warehouse_id,
+        _commodity_code: receipt.commodity_code,
+        _quantity: quantity,
+        _unit: receipt.unit,
+        _note: receipt.note.trim() || undefined,
+        _lot_id: receipt.lot_id || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Stock Received",
+        description: `${quantity} ${WEIGHT_UNIT_LABELS[receipt.unit]} added to inventory.`,
+      });
+      setReceipt({ ...receipt, quantity: '', lot_id: '', note: '' });
+      fetchInventory();
+    } catch (error) {
+      console.error('Error receiving stock:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to receive stock.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // The page only shows recent movements, so the export reads the whole ledger page by page
+  const handleExportLedger = async (format: ExportFormat) => {
+    const ledger: MovementRow[] = [];
+    for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+      let query = supabase
+        .from('stock_movements')
+        .select('*, seed_lots(lot_code), inventory_items!inner(warehouse_id, warehouses!inner(name), commodities(name))')
+        .eq('inventory_items.warehouses.organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+      if (warehouseFilter !== ALL_WAREHOUSES) {
+        query = query.eq('inventory_items.warehouse_id', warehouseFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      ledger.push(...(data || []));
+      if (!data || data.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    const warehouseName = warehouses.find((w) => w.id === warehouseFilter)?.name;
+    await exportDocument({
+      filename: exportFilename('stock-ledger'),
+      title: 'Stock Ledger',
+      subtitle: warehouseName ? `Warehouse: ${warehouseName}` : 'All warehouses',
+      tables: [{
+        title: 'Stock Movements',
+        columns: ['Date', 'Type', 'Warehouse', 'Seed type', 'Lot', 'Quantity', 'Unit', 'Quantity (kg)', 'Note'],
+        rows: ledger.map((movement) => [
+          new Date(movement.created_at).toLocaleString(),
+          STOCK_MOVEMENT_LABELS[movement.movement_type],
+          movement.inventory_items?.warehouses?.name,
+          movement.inventory_items?.commodities?.name,
+          movement.seed_lots?.lot_code,
+          Number(movement.quantity),
+          WEIGHT_UNIT_LABELS[movement.unit],
+          Number(movement.quantity_kg),
+          movement.note
+        ])
+      }]
+    }, format);
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const activeWarehouses = warehouses.filter((w) => w.is_active);
+  const visibleItems = inventoryItems.filter(
+    (item) => warehouseFilter === ALL_WAREHOUSES || item.warehouse_id === warehouseFilter
+  );
+  const visibleMovements = movements.filter(
+    (movement) => warehouseFilter === ALL_WAREHOUSES || movement.inventory_items?.warehouse_id === warehouseFilter
+  );
+  const totalKg = visibleItems.reduce((sum, item) => sum + Number(item.quantity_kg), 0);
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <h1 className="text-3xl font-bold text-foreground">Inventory Management</h1>
+        <div className="flex items-center gap-2">
+          <Select value={warehouseFilter} onValueChange={setWarehouseFilter}>
+            <SelectTrigger className="w-48" aria-label="Filter by warehouse">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_WAREHOUSES}>All warehouses</SelectItem>
+              {warehouses.map((warehouse) => (
+                <SelectItem key={warehouse.id} value={warehouse.id}>
+                  {warehouse.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <AddWarehouseDialog organizationId={organizationId} onAdded={fetchInventory} />
+        </div>
+      </div>
+
+      {/* Receive Stock Form */}
+      <div className="bg-card p-6 rounded-lg shadow-card border mb-6">
+        <h2 className="text-xl font-semibold text-card-foreground mb-4">Receive Stock</h2>
+        {activeWarehouses.length === 0 ? (
+          <p className="text-muted-foreground">Add a warehouse before receiving stock.</p>
+        ) : (
+          <form onSubmit={handleReceive} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="receipt-warehouse">Warehouse</Label>
+              <Select
+                value={receipt.warehouse_id}
+                onValueChange={(warehouse_id) => setReceipt({ ...receipt, warehouse_id })}
+              >
+                <SelectTrigger id="receipt-warehouse">
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeWarehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="receipt-commodity">Seed Type</Label>
+              <Select
+                value={receipt.commodity_code}
+                onValueChange={(commodity_code) => setReceipt({ ...receipt, commodity_code, lot_id: '' })}
+              >
+                <SelectTrigger id="receipt-commodity">
+                  <SelectValue placeholder="Select seed type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeCommodities.map((commodity) => (
+                    <SelectItem key={commodity.code} value={commodity.code}>
+                      {commodity.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="receipt-quantity">Quantity</Label>
+              <WeightInput
+                id="receipt-quantity"
+                quantity={receipt.quantity}
+                unit={receipt.unit}
+                onQuantityChange={(quantity) => setReceipt({ ...receipt, quantity })}
+                onUnitChange={(unit) => setReceipt({ ...receipt, unit })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="receipt-lot">Seed Lot</Label>
+              <Select
+                value={receipt.lot_id || NO_LOT}
+                onValueChange={(lotId) => setReceipt({ ...receipt, lot_id: lotId === NO_LOT ? '' : lotId })}
+                disabled={!receipt.commodity_code}
+              >
+                <SelectTrigger id="receipt-lot">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LOT}>No lot recorded</SelectItem>
+                  {activeLots
+                    .filter((lot) => lot.commodity_code === receipt.commodity_code)
+                    .map((lot) => (
+                      <SelectItem key={lot.id} value={lot.id}>
+                        {lot.lot_code}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="receipt-note">Note</Label>
+              <Input
+                id="receipt-note"
+                value={receipt.note}
+                onChange={(e) => setReceipt({ ...receipt, note: e.target.value })}
+                placeholder="e.g., Gate pass 1042"
+                maxLength={500}
+              />
+            </div>
+
+            <div className="flex items-end">
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting ? 'Saving...' : 'Receive Stock'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      {/* Current Inventory Table */}
+      <div className="bg-card p-6 rounded-lg shadow-card border mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-card-foreground">Current Inventory</h2>
+          <span className="text-sm text-muted-foreground">Total: {formatTonnes(totalKg)}</span>
+        </div>
+        {visibleItems.length === 0 ? (
+          <p className="text-muted-foreground">No stock recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-2 text-muted-foreground">Warehouse</th>
+                  <th className="text-left p-2 text-muted-foreground">Seed Type</th>
+                  <th className="text-right p-2 text-muted-foreground">Balance</th>
+                  <th className="text-left p-2 text-muted-foreground">Last Movement</th>
+                  <th className="text-right p-2 text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleItems.map((item) => {
+                  const itemLabel = `${item.commodities?.name ?? item.commodity_code} at ${item.warehouses?.name ?? 'warehouse'}`;
+                  return (
+                    <tr key={item.id} className="border-b border-border hover:bg-muted/50">
+                      <td className="p-2 font-medium text-foreground">{item.warehouses?.name}</td>
+                      <td className="p-2 text-muted-foreground">{item.commodities?.name ?? item.commodity_code}</td>
+                      <td className="p-2 text-right text-foreground">
+                        <div>{formatTonnes(Number(item.quantity_kg))}</div>
+                        <div className="text-xs text-muted-foreground">{formatKilograms(Number(item.quantity_kg))}</div>
+                      </td>
+                      <td className="p-2 text-muted-foreground">{new Date(item.updated_at).toLocaleString()}</td>
+                      <td className="p-2 text-right">
+                        <div className="flex justify-end gap-2">
+                          <AdjustStockDialog
+                            inventoryItemId={item.id}
+                            itemLabel={itemLabel}
+                            onAdjusted={fetchInventory}
+                          />
+                          <TransferStockDialog
+                            inventoryItemId={item.id}
+                            itemLabel={itemLabel}
+                            fromWarehouseId={item.warehouse_id}
+                            warehouses={warehouses}
+                            lots={activeLots.filter((lot) => lot.commodity_code === item.commodity_code)}
+                            onTransferred={fetchInventory}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Stock Ledger */}
+      <div className="bg-card p-6 rounded-lg shadow-card border">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-card-foreground">Recent Movements</h2>
+          <ExportMenu onExport={handleExportLedger} disabled={visibleMovements.length === 0} />
+        </div>
+        {visibleMovements.length === 0 ? (
+          <p className="text-muted-foreground">No stock movements yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-2 text-muted-foreground">Date</th>
+                  <th className="text-left p-2 text-muted-foreground">Type</th>
+                  <th className="text-left p-2 text-muted-foreground">Warehouse</th>
+                  <th className="text-left p-2 text-muted-foreground">Seed Type</th>
+                  <th className="text-left p-2 text-muted-foreground">Lot</th>
+                  <th className="text-right p-2 text-muted-foreground">Quantity</th>
+                  <th className="text-left p-2 text-muted-foreground">Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleMovements.map((movement) => (
+                  <tr key={movement.id} className="border-b border-border">
+                    <td className="p-2 text-muted-foreground">{new Date(movement.created_at).toLocaleString()}</td>
+                    <td className="p-2">
+                      <Badge variant="outline">{STOCK_MOVEMENT_LABELS[movement.movement_type]}</Badge>
+                    </td>
+                    <td className="p-2 text-foreground">{movement.inventory_items?.warehouses?.name}</td>
+                    <td className="p-2 text-muted-foreground">{movement.inventory_items?.commodities?.name}</td>
+                    <td className="p-2 text-muted-foreground">
+                      {movement.seed_lots ? (
+                        <Link to={traceLotPath(movement.seed_lots.lot_code)} className="hover:underline">
+                          {movement.seed_lots.lot_code}
+                        </Link>
+                      ) : '—'}
+                    </td>
+                    <td className={`p-2 text-right ${Number(movement.quantity) < 0 ? 'text-destructive' : 'text-foreground'}`}>
+                      {Number(movement.quantity) > 0 ? '+' : ''}
+                      {Number(movement.quantity).toLocaleString()} {WEIGHT_UNIT_LABELS[movement.unit]}
+                    </td>
+                    <td className="p-2 text-muted-foreground">{movement.note || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Inventory;
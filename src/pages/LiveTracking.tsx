@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useToast } from '@/hooks/use-toast';
+import { useLocationTracking } from '@/hooks/useLocationTracking';
+import { useShipmentTrack } from '@/hooks/useShipmentTrack';
+import MapView from '@/components/MapView';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { ShipmentStatusBadge } from '@/components/ShipmentStatusBadge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { SHIPMENT_STATUS_COLORS, routeEndIcon } from '@/lib/shipmentStatus';
+import { TRACKED_STATUSES, toTrackPoints } from '@/lib/tracking';
+import { toShipmentRoute } from '@/lib/fleet';
+import { cn } from '@/lib/utils';
+import { Navigation, Pause } from 'lucide-react';
+
+const LiveTracking = () => {
+  const { userId, organizationId } = useAppContext();
+  const [shipments, setShipments] = useState<Tables<'shipments'>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const tracking = useLocationTracking(selectedId);
+  const { locations } = useShipmentTrack(selectedId ?? undefined);
+
+  const fetchShipments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('shipments')
+        .select('*')
+        .eq('assigned_transporter_id', userId)
+        .eq('organization_id', organizationId)
+        .in('status', TRACKED_STATUSES)
+        .order('assigned_at', { ascending: false });
+
+      if (error) throw error;
+      setShipments(data || []);
+      setSelectedId((current) => current ?? data?.[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching shipments on the way:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your shipments. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, organizationId, toast]);
+
+  useEffect(() => {
+    fetchShipments();
+  }, [fetchShipments]);
+
+  const selected = shipments.find((shipment) => shipment.id === selectedId) ?? null;
+
+  const markers = useMemo(() => {
+    if (!selected) return [];
+    const points = [];
+    if (selected.origin_lat !== null && selected.origin_lng !== null) {
+      points.push({ id: 'origin', icon: routeEndIcon('origin', selected.status), lat: Number(selected.origin_lat), lng: Number(selected.origin_lng), title: "Origin" });
+    }
+    if (selected.destination_lat !== null && selected.destination_lng !== null) {
+      points.push({ id: 'destination', icon: routeEndIcon('destination', selected.status), lat: Number(selected.destination_lat), lng: Number(selected.destination_lng), title: "Destination" });
+    }
+    if (tracking.lastFix) {
+      points.push({ id: 'current', icon: { color: SHIPMENT_STATUS_COLORS[selected.status] }, lat: tracking.lastFix.lat, lng: tracking.lastFix.lng, title: "You are here" });
+    }
+    return points;
+  }, [selected, tracking.lastFix]);
+
+  const routes = useMemo(() => {
+    const route = selected && toShipmentRoute(selected);
+    return route ? [route] : [];
+  }, [selected]);
+
+  const paths = useMemo(
+    () => (locations.length > 1 ? [{ points: toTrackPoints(locations), title: 'Travelled' }] : []),
+    [locations]
+  );
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="p-6 bg-background min-h-screen space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Live Tracking</h1>
+        <p className="text-muted-foreground mt-1">
+          Share your position while a load is on the way. Keep this page open; readings are spaced out to save battery.
+        </p>
+      </div>
+
+      {shipments.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground">
+              None of your shipments are on the way. Mark a load as picked up from{' '}
+              <Link to="/assigned" className="text-primary hover:underline">Assigned Loads</Link> to start tracking it.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>On the Way</CardTitle>
+              <CardDescription>Choose the load you are carrying</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {shipments.map((shipment) => (
+                <button
+                  key={shipment.id}
+                  type="button"
+                  onClick={() => setSelectedId(shipment.id)}
+                  disabled={tracking.active && shipment.id !== selectedId}
+                  className={cn(
+                    'w-full text-left p-3 border rounded-lg transition-colors disabled:opacity-50',
+                    shipment.id === selectedId ? 'border-primary bg-accent' : 'hover:bg-accent/50'
+                  )}
+                  aria-pressed={shipment.id === selectedId}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="font-medium text-foreground">{shipment.title}</span>
+                    <ShipmentStatusBadge status={shipment.status} />
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {shipment.origin_address || 'N/A'} → {shipment.destination_address || 'N/A'}
+                  </p>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-4">
+            <Card>
+              <CardContent className="pt-6 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1 text-sm space-y-1">
+                  <p className="font-medium text-foreground">
+                    {tracking.active ? 'Sharing your location' : 'Location sharing is off'}
+                  </p>
+                  {tracking.lastFix && (
+                    <p className="text-muted-foreground">
+                      Last reading {new Date(tracking.lastFix.recorded_at).toLocaleTimeString()}
+                      {tracking.lastFix.accuracy_m !== null && `, accurate to ${Math.round(tracking.lastFix.accuracy_m)} m`}
+                    </p>
+                  )}
+                  {tracking.active && tracking.nextFixAt && (
+                    <p className="text-muted-foreground">
+                      Next reading around {new Date(tracking.nextFixAt).toLocaleTimeString()}
+                    </p>
+                  )}
+                  {tracking.queued > 0 && (
+                    <p className="text-muted-foreground">
+                      {tracking.queued} reading{tracking.queued === 1 ? '' : 's'} waiting for a connection
+                    </p>
+                  )}
+                  {tracking.error && <p className="text-destructive">{tracking.error}</p>}
+                </div>
+                {tracking.active ? (
+                  <Button variant="outline" onClick={tracking.stop}>
+                    <Pause className="h-4 w-4 mr-2" />
+                    Stop Sharing
+                  </Button>
+                ) : (
+                  <Button onClick={tracking.start} disabled={!selected}>
+                    <Navigation className="h-4 w-4 mr-2" />
+                    Start Sharing
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            <MapView
+              height="420px"
+              markers={markers}
+              routes={routes}
+              paths={paths}
+              center={{ lat: 20.5937, lng: 78.9629 }}
+              zoom={5}
+              fitToMarkers
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveTracking;
@@ -0,0 +1,317 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCommodities } from '@/hooks/useCommodities';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { ShipmentStatusBadge } from '@/components/ShipmentStatusBadge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { WEIGHT_UNIT_LABELS, formatTonnes } from '@/lib/cargo';
+import { STOCK_MOVEMENT_LABELS } from '@/lib/inventory';
+import { SEED_LOT_STATUS_LABELS, SeedLotTraceRow, getSeedLotBadgeVariant, traceLotPath } from '@/lib/seedLots';
+import { ArrowLeft, MapPin, Search } from 'lucide-react';
+
+type TracedShipment = Pick<
+  Tables<'shipments'>,
+  'id' | 'title' | 'status' | 'origin_address' | 'destination_address' | 'created_at' | 'lot_id'
+>;
+
+type TracedMovement = Tables<'stock_movements'> & {
+  inventory_items: { warehouses: { name: string } | null } | null;
+};
+
+const LotTrace = () => {
+  const { lotCode } = useParams<{ lotCode: string }>();
+  const navigate = useNavigate();
+  const { userRole } = useAppContext();
+  const { getCommodityName } = useCommodities();
+  const [search, setSearch] = useState(lotCode ?? '');
+  const [lineage, setLineage] = useState<SeedLotTraceRow[]>([]);
+  const [shipments, setShipments] = useState<TracedShipment[]>([]);
+  const [movements, setMovements] = useState<TracedMovement[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTrace = useCallback(async () => {
+    if (!lotCode) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: traceError } = await supabase.rpc('trace_seed_lot', { _lot_code: lotCode });
+
+      if (traceError) throw traceError;
+
+      const rows = data || [];
+      const forwardIds = rows.filter((row) => row.direction !== 'backward').map((row) => row.lot_id);
+
+      const [shipmentsResult, movementsResult] = await Promise.all([
+        supabase
+          .from('shipments')
+          .select('id, title, status, origin_address, destination_address, created_at, lot_id')
+          .in('lot_id', forwardIds)
+          .order('created_at'),
+        userRole === 'administrator'
+          ? supabase
+              .from('stock_movements')
+              .select('*, inventory_items(warehouses(name))')
+              .in('lot_id', forwardIds)
+              .order('created_at')
+          : Promise.resolve({ data: [], error: null })
+      ]);
+
+      if (shipmentsResult.error) throw shipmentsResult.error;
+      if (movementsResult.error) throw movementsResult.error;
+
+      setLineage(rows);
+      setShipments(shipmentsResult.data || []);
+      setMovements(movementsResult.data || []);
+    } catch (err) {
+      console.error('Error tracing lot:', err);
+      setLineage([]);
+      setShipments([]);
+      setMovements([]);
+      setError(err instanceof Error ? err.message : 'Failed to trace lot.');
+    } finally {
+      setLoading(false);
+    }
+  }, [lotCode, userRole]);
+
+  useEffect(() => {
+    setSearch(lotCode ?? '');
+    fetchTrace();
+  }, [lotCode, fetchTrace]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (search.trim()) {
+      navigate(traceLotPath(search.trim()));
+    }
+  };
+
+  const root = lineage.find((row) => row.direction === 'self');
+  const sources = lineage.filter((row) => row.is_source && row.direction !== 'forward');
+  const ancestors = lineage.filter((row) => row.direction === 'backward');
+  const descendants = lineage.filter((row) => row.direction === 'forward');
+  const getLotCode = (lotId: string | null) => lineage.find((row) => row.lot_id === lotId)?.lot_code ?? '—';
+
+  const renderLineage = (rows: SeedLotTraceRow[], empty: string) =>
+    rows.length === 0 ? (
+      <p className="text-sm text-muted-foreground">{empty}</p>
+    ) : (
+      <ul className="space-y-2">
+        {rows.map((row) => (
+          <li
+            key={`${row.lot_id}-${row.related_lot_id}`}
+            className="flex items-center justify-between gap-2 text-sm"
+            style={{ paddingLeft: `${(row.depth - 1) * 1.25}rem` }}
+          >
+            <span>
+              <Link to={traceLotPath(row.lot_code)} className="font-medium text-foreground hover:underline">
+                {row.lot_code}
+              </Link>
+              <span className="text-muted-foreground">
+                {' '}· {row.link_type === 'merge' ? 'merged' : 'split'} {row.direction === 'backward' ? 'into' : 'from'} {getLotCode(row.related_lot_id)}
+              </span>
+            </span>
+            <span className="text-muted-foreground">{formatTonnes(Number(row.quantity_kg))}</span>
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div className="p-6 bg-background min-h-screen space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/lots')}>
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Lots
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground">Lot Trace</h1>
+        </div>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Enter lot code"
+            aria-label="Lot code"
+            className="w-64"
+          />
+          <Button type="submit" disabled={!search.trim()}>
+            <Search className="mr-2 h-4 w-4" />
+            Trace
+          </Button>
+        </form>
+      </div>
+
+      {!lotCode ? (
+        <p className="text-muted-foreground">Enter a lot code to see where it came from and everywhere it went.</p>
+      ) : loading ? (
+        <LoadingSpinner />
+      ) : error || !root ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            {error || `Lot ${lotCode} was not found.`}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <CardTitle>{root.lot_code}</CardTitle>
+                <Badge variant={getSeedLotBadgeVariant(root.status)}>{SEED_LOT_STATUS_LABELS[root.status]}</Badge>
+              </div>
+              <CardDescription>
+                {getCommodityName(root.commodity_code)}
+                {root.variety ? ` · ${root.variety}` : ''} · {formatTonnes(Number(root.quantity_kg))}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Source Farms</CardTitle>
+                <CardDescription>Where this seed was harvested</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-4">
+                  {sources.map((source) => (
+                    <li key={source.lot_id} className="text-sm">
+                      <p className="font-medium text-foreground">{source.farmer_name || 'Unknown farmer'}</p>
+                      <p className="text-muted-foreground">
+                        Lot {source.lot_code}
+                        {source.harvest_date ? ` · harvested ${new Date(source.harvest_date).toLocaleDateString()}` : ''}
+                      </p>
+                      {(source.origin_address || source.origin_lat !== null) && (
+                        <p className="flex items-center gap-1 text-muted-foreground">
+                          <MapPin className="h-3 w-3" />
+                          {source.origin_address}
+                          {source.origin_lat !== null && source.origin_lng !== null
+                            ? ` (${Number(source.origin_lat).toFixed(4)}, ${Number(source.origin_lng).toFixed(4)})`
+                            : ''}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Came From</CardTitle>
+                <CardDescription>Parent lots, nearest first</CardDescription>
+              </CardHeader>
+              <CardContent>{renderLineage(ancestors, 'This lot was registered directly from a farm.')}</CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Went Into</CardTitle>
+                <CardDescription>Lots split or merged from this one</CardDescription>
+              </CardHeader>
+              <CardContent>{renderLineage(descendants, 'This lot has not been split or merged.')}</CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Shipments</CardTitle>
+              <CardDescription>Every shipment that carried this lot or a lot derived from it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {shipments.length === 0 ? (
+                <p className="text-muted-foreground">No shipments found.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left p-2 text-muted-foreground">Shipment</th>
+                        <th className="text-left p-2 text-muted-foreground">Lot</th>
+                        <th className="text-left p-2 text-muted-foreground">Route</th>
+                        <th className="text-left p-2 text-muted-foreground">Status</th>
+                        <th className="text-left p-2 text-muted-foreground">Created</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {shipments.map((shipment) => (
+                        <tr key={shipment.id} className="border-b border-border">
+                          <td className="p-2 font-medium text-foreground">
+                            <Link to={`/shipments/${shipment.id}`} className="hover:underline">
+                              {shipment.title}
+                            </Link>
+                          </td>
+                          <td className="p-2 text-muted-foreground">{getLotCode(shipment.lot_id)}</td>
+                          <td className="p-2 text-muted-foreground">
+                            {shipment.origin_address || 'N/A'} → {shipment.destination_address || 'N/A'}
+                          </td>
+                          <td className="p-2">
+                            <ShipmentStatusBadge status={shipment.status} />
+                          </td>
+                          <td className="p-2 text-muted-foreground">{new Date(shipment.created_at).toLocaleDateString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {userRole === 'administrator' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Warehouses</CardTitle>
+                <CardDescription>Stock movements recorded against this lot and its descendants</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {movements.length === 0 ? (
+                  <p className="text-muted-foreground">No stock movements found.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-border">
+                          <th className="text-left p-2 text-muted-foreground">Date</th>
+                          <th className="text-left p-2 text-muted-foreground">Warehouse</th>
+                          <th className="text-left p-2 text-muted-foreground">Type</th>
+                          <th className="text-left p-2 text-muted-foreground">Lot</th>
+                          <th className="text-right p-2 text-muted-foreground">Quantity</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {movements.map((movement) => (
+                          <tr key={movement.id} className="border-b border-border">
+                            <td className="p-2 text-muted-foreground">{new Date(movement.created_at).toLocaleString()}</td>
+                            <td className="p-2 text-foreground">{movement.inventory_items?.warehouses?.name}</td>
+                            <td className="p-2">
+                              <Badge variant="outline">{STOCK_MOVEMENT_LABELS[movement.movement_type]}</Badge>
+                            </td>
+                            <td className="p-2 text-muted-foreground">{getLotCode(movement.lot_id)}</td>
+                            <td className="p-2 text-right text-foreground">
+                              {Number(movement.quantity).toLocaleString()} {WEIGHT_UNIT_LABELS[movement.unit]}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LotTrace;
@@ -0,0 +1,9 @@
+import { useAppContext } from '@/hooks/useAppContext';
+import { EnhancedReports } from '@/components/EnhancedReports';
+
+const Reports = () => {
+  const { userId, userRole, organizationId } = useAppContext();
+  return <EnhancedReports userId={userId} userRole={userRole} organizationId={organizationId} />;
+};
+
+export default Reports;
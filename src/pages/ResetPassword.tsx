@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useInputValidation } from '@/hooks/useInputValidation';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthRedirectError } from '@/lib/authRedirect';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+// Password reset links sign the user in here so they can choose a new password
+const ResetPassword = () => {
+  const { user, loading: authLoading, updatePassword, isUpdatePasswordBlocked } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkError] = useState(() => getAuthRedirectError());
+  const { errors, validateAndUpdateField, clearAllErrors, hasErrors } = useInputValidation();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    clearAllErrors();
+
+    const formData = new FormData(e.currentTarget);
+    const password = formData.get('password') as string;
+    const confirmPassword = formData.get('confirmPassword') as string;
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      setLoading(false);
+      return;
+    }
+
+    if (isUpdatePasswordBlocked()) {
+      setError('Too many password change attempts. Please try again later.');
+      setLoading(false);
+      return;
+    }
+
+    const { error } = await updatePassword(password);
+
+    if (error) {
+      setError(error.message);
+      setLoading(false);
+      return;
+    }
+
+    toast({
+      title: "Password Updated",
+      description: "Use your new password the next time you sign in.",
+    });
+    navigate('/dashboard', { replace: true });
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        {linkError || !user ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Reset Link Not Valid</CardTitle>
+              <CardDescription>{linkError ?? 'This password reset link has expired or was already used.'}</CardDescription>
+              <p className="text-sm text-muted-foreground">Request a new one from the sign in page.</p>
+            </CardHeader>
+            <CardFooter>
+              <Button asChild className="w-full">
+                <Link to="/auth">Back to Sign In</Link>
+              </Button>
+            </CardFooter>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Choose a New Password</CardTitle>
+              <CardDescription>Signed in as {user.email}</CardDescription>
+            </CardHeader>
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New Password</Label>
+                  <Input
+                    id="new-password"
+                    name="password"
+                    type="password"
+                    placeholder="Create a strong password"
+                    maxLength={128}
+                    required
+                    onChange={(e) => {
+                      validateAndUpdateField('new-password', e.target.value, {
+                        required: true,
+                        strongPassword: true,
+                        maxLength: 128
+                      });
+                    }}
+                  />
+                  {errors['new-password'] && (
+                    <p className="text-sm text-destructive">{errors['new-password']}</p>
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    Password must be at least 8 characters with uppercase, lowercase, number, and special character
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm Password</Label>
+                  <Input
+                    id="confirm-password"
+                    name="confirmPassword"
+                    type="password"
+                    placeholder="Enter the password again"
+                    maxLength={128}
+                    required
+                  />
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+              <CardFooter className="flex flex-col gap-2">
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={loading || hasErrors() || isUpdatePasswordBlocked()}
+                >
+                  {loading ? 'Saving...' : 'Update Password'}
+                </Button>
+                {isUpdatePasswordBlocked() && (
+                  <p className="text-sm text-warning text-center">
+                    Too many password change attempts. Please try again later.
+                  </p>
+                )}
+              </CardFooter>
+            </form>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useMfa } from '@/hooks/useMfa';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useToast } from '@/hooks/use-toast';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MfaEnrollment } from '@/components/MfaEnrollment';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Building2, KeyRound, ShieldCheck } from 'lucide-react';
+
+const Security = () => {
+  const { userRole, organizationId } = useAppContext();
+  const { user } = useAuth();
+  const { factors, isVerified, loading: mfaLoading, refetch: refetchMfa } = useMfa(user);
+  const [backupCodeCount, setBackupCodeCount] = useState<number | null>(null);
+  const [newBackupCodes, setNewBackupCodes] = useState<string[]>([]);
+  const [requireAdminMfa, setRequireAdminMfa] = useState(false);
+  const [enrolling, setEnrolling] = useState(false);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+  const factor = factors[0] ?? null;
+  const isAdministrator = userRole === 'administrator';
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const [countResult, organizationResult] = await Promise.all([
+        supabase.rpc('count_mfa_backup_codes'),
+        supabase.from('organizations').select('require_admin_mfa').eq('id', organizationId).single()
+      ]);
+
+      if (countResult.error) throw countResult.error;
+      if (organizationResult.error) throw organizationResult.error;
+
+      setBackupCodeCount(countResult.data);
+      setRequireAdminMfa(organizationResult.data.require_admin_mfa);
+    } catch (error) {
+      console.error('Error fetching security settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load security settings. Please try again.",
+        variant: "destructive"
+      });
+    }
+  }, [organizationId, toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleEnrolled = () => {
+    setEnrolling(false);
+    refetchMfa();
+    fetchSettings();
+    toast({
+      title: "Two-Factor Enabled",
+      description: "You will be asked for a code from your authenticator app when you sign in.",
+    });
+  };
+
+  const handleRegenerateCodes = async () => {
+    setWorking(true);
+    try {
+      const { data, error } = await supabase.rpc('generate_mfa_backup_codes');
+
+      if (error) throw error;
+      setNewBackupCodes(data ?? []);
+      setBackupCodeCount(data?.length ?? 0);
+    } catch (error) {
+      console.error('Error generating backup codes:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate backup codes.",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!factor) return;
+
+    setWorking(true);
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+
+      if (error) throw error;
+
+      // Drop back to a password-only session now that there is no second factor
+      await supabase.auth.refreshSession();
+      setNewBackupCodes([]);
+      refetchMfa();
+      toast({
+        title: "Two-Factor Disabled",
+        description: "Signing in only needs your password now.",
+      });
+    } catch (error) {
+      console.error('Error disabling two-factor authentication:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to disable two-factor authentication.",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRequireAdminMfa = async (required: boolean) => {
+    setWorking(true);
+    try {
+      const { error } = await supabase.rpc('set_admin_mfa_requirement', {
+        _organization_id: organizationId,
+        _required: required
+      });
+
+      if (error) throw error;
+
+      setRequireAdminMfa(required);
+      toast({
+        title: "Setting Updated",
+        description: required
+          ? "Administrators must use two-factor authentication in this organization."
+          : "Two-factor authentication is optional for administrators.",
+      });
+    } catch (error) {
+      console.error('Error updating two-factor requirement:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update setting.",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (mfaLoading) {
+    return <LoadingSpinner />;
+  }
+
+  // Administrators bound by the requirement would be locked out the moment they turned it off
+  const disableBlocked = isAdministrator && requireAdminMfa;
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      <h1 className="text-3xl font-bold text-foreground mb-8">Security</h1>
+
+      <div className="max-w-2xl space-y-6">
+        {enrolling ? (
+          <MfaEnrollment onEnrolled={handleEnrolled} onCancel={() => setEnrolling(false)} />
+        ) : (
+          <div className="bg-card p-6 rounded-lg shadow-card border space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Two-Factor Authentication
+              </h2>
+              <Badge variant={factor ? 'default' : 'secondary'}>{factor ? 'Enabled' : 'Off'}</Badge>
+            </div>
+
+            {factor ? (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {factor.friendly_name ?? 'Authenticator app'} added on {new Date(factor.created_at).toLocaleDateString()}.
+                </p>
+                <div className="flex items-center gap-2 text-sm">
+                  <KeyRound className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    {backupCodeCount === null ? 'Checking backup codes...' : `${backupCodeCount} unused backup codes`}
+                  </span>
+                </div>
+                {newBackupCodes.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-foreground">
+                      Save these codes now; they replace your old ones and will not be shown again.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+                      {newBackupCodes.map((code) => (
+                        <span key={code}>{code}</span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={handleRegenerateCodes} disabled={working || !isVerified}>
+                    New Backup Codes
+                  </Button>
+                  <Button variant="destructive" onClick={handleDisable} disabled={working || !isVerified || disableBlocked}>
+                    Disable
+                  </Button>
+                </div>
+                {disableBlocked && (
+                  <p className="text-xs text-muted-foreground">
+                    This organization requires two-factor authentication for administrators.
+                  </p>
+                )}
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Protect your account with a code from an authenticator app as well as your password.
+                </p>
+                <Button onClick={() => setEnrolling(true)}>Enable Two-Factor</Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {isAdministrator && (
+          <div className="bg-card p-6 rounded-lg shadow-card border space-y-4">
+            <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Organization Policy
+            </h2>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="require-admin-mfa">Require two-factor for administrators</Label>
+                <p className="text-xs text-muted-foreground">
+                  Administrators must verify with an authenticator app before they can change roles or delete shipments.
+                </p>
+              </div>
+              <Switch
+                id="require-admin-mfa"
+                checked={requireAdminMfa}
+                onCheckedChange={handleRequireAdminMfa}
+                disabled={working || !isVerified}
+              />
+            </div>
+            {!isVerified && (
+              <p className="text-xs text-muted-foreground">
+                Enable two-factor authentication on your own account to change this setting.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Security;
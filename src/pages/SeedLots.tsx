@@ -0,0 +1,385 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCommodities } from '@/hooks/useCommodities';
+import { useSeedLots } from '@/hooks/useSeedLots';
+import { useFarmers } from '@/hooks/useFarmers';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { WeightInput } from '@/components/WeightInput';
+import { SplitLotDialog } from '@/components/SplitLotDialog';
+import { MergeLotsDialog } from '@/components/MergeLotsDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WeightUnit, formatTonnes } from '@/lib/cargo';
+import { parseQuantity } from '@/lib/inventory';
+import { SEED_LOT_STATUS_LABELS, getSeedLotBadgeVariant, traceLotPath } from '@/lib/seedLots';
+import { LocateFixed, Search } from 'lucide-react';
+
+const EMPTY_LOT = {
+  farmer_id: '',
+  lot_code: '',
+  commodity_code: '',
+  variety: '',
+  harvest_date: '',
+  quantity: '',
+  unit: 'quintal' as WeightUnit,
+  origin_address: '',
+  origin_lat: '',
+  origin_lng: ''
+};
+
+const SeedLots = () => {
+  const { userId, userRole, organizationId } = useAppContext();
+  const isAdmin = userRole === 'administrator';
+  const { activeCommodities, getCommodityName } = useCommodities();
+  const { lots, loading, refetch } = useSeedLots(organizationId);
+  const { farmers } = useFarmers(organizationId, isAdmin);
+  const [newLot, setNewLot] = useState(EMPTY_LOT);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setNewLot({ ...newLot, [name]: value });
+  };
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Error",
+        description: "Location is not available in this browser.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setNewLot((lot) => ({
+          ...lot,
+          origin_lat: position.coords.latitude.toFixed(6),
+          origin_lng: position.coords.longitude.toFixed(6)
+        }));
+      },
+      () => {
+        toast({
+          title: "Error",
+          description: "Could not read your location.",
+          variant: "destructive"
+        });
+      }
+    );
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseQuantity(newLot.quantity);
+    const lat = parseQuantity(newLot.origin_lat);
+    const lng = parseQuantity(newLot.origin_lng);
+
+    if (!newLot.lot_code.trim() || !newLot.commodity_code || quantity === null || quantity <= 0) {
+      toast({
+        title: "Error",
+        description: "Lot code, seed type and a quantity greater than zero are required.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (isAdmin && !newLot.farmer_id) {
+      toast({
+        title: "Error",
+        description: "Please choose the farmer this lot came from.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if ((lat === null) !== (lng === null) || (lat !== null && Math.abs(lat) > 90) || (lng !== null && Math.abs(lng) > 180)) {
+      toast({
+        title: "Error",
+        description: "Enter both origin coordinates as a valid latitude and longitude.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from('seed_lots').insert({
+        farmer_id: isAdmin ? newLot.farmer_id : userId,
+        organization_id: organizationId,
+        lot_code: newLot.lot_code.trim(),
+        commodity_code: newLot.commodity_code,
+        variety: newLot.variety.trim() || null,
+        harvest_date: newLot.harvest_date || null,
+        quantity,
+        unit: newLot.unit,
+        origin_address: newLot.origin_address.trim() || null,
+        origin_lat: lat,
+        origin_lng: lng
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Lot Registered",
+        description: `Lot ${newLot.lot_code.trim()} can now be shipped and traced.`,
+      });
+      setNewLot({ ...EMPTY_LOT, farmer_id: newLot.farmer_id });
+      refetch();
+    } catch (error) {
+      console.error('Error registering lot:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to register lot.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleSelected = (lotId: string, checked: boolean) => {
+    setSelectedIds((ids) => (checked ? [...ids, lotId] : ids.filter((id) => id !== lotId)));
+  };
+
+  const handleGenealogyChange = () => {
+    setSelectedIds([]);
+    refetch();
+  };
+
+  const getFarmerName = (farmerId: string | null) => {
+    if (!farmerId) return 'Multiple farms';
+    if (farmerId === userId) return 'You';
+    const farmer = farmers.find((f) => f.id === farmerId);
+    return farmer?.full_name || farmer?.email || 'Unknown farmer';
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const selectedLots = lots.filter((lot) => selectedIds.includes(lot.id));
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <h1 className="text-3xl font-bold text-foreground">Seed Lots</h1>
+        <Button variant="outline" asChild>
+          <Link to="/lots/trace">
+            <Search className="mr-2 h-4 w-4" />
+            Trace a Lot
+          </Link>
+        </Button>
+      </div>
+
+      {/* Register Lot Form */}
+      <div className="bg-card p-6 rounded-lg shadow-card border mb-6">
+        <h2 className="text-xl font-semibold text-card-foreground mb-4">Register Lot</h2>
+        <form onSubmit={handleRegister} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {isAdmin && (
+            <div>
+              <Label htmlFor="lot-farmer">Farmer</Label>
+              <Select value={newLot.farmer_id} onValueChange={(farmer_id) => setNewLot({ ...newLot, farmer_id })}>
+                <SelectTrigger id="lot-farmer">
+                  <SelectValue placeholder="Select farmer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {farmers.map((farmer) => (
+                    <SelectItem key={farmer.id} value={farmer.id}>
+                      {farmer.full_name || farmer.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="lot_code">Lot Code</Label>
+            <Input
+              id="lot_code"
+              name="lot_code"
+              value={newLot.lot_code}
+              onChange={handleInputChange}
+              placeholder="e.g., MUS-2025-014"
+              maxLength={64}
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="lot-commodity">Seed Type</Label>
+            <Select
+              value={newLot.commodity_code}
+              onValueChange={(commodity_code) => setNewLot({ ...newLot, commodity_code })}
+            >
+              <SelectTrigger id="lot-commodity">
+                <SelectValue placeholder="Select seed type" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeCommodities.map((commodity) => (
+                  <SelectItem key={commodity.code} value={commodity.code}>
+                    {commodity.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="variety">Variety</Label>
+            <Input
+              id="variety"
+              name="variety"
+              value={newLot.variety}
+              onChange={handleInputChange}
+              placeholder="e.g., Pusa Bold"
+              maxLength={100}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="harvest_date">Harvest Date</Label>
+            <Input
+              id="harvest_date"
+              name="harvest_date"
+              type="date"
+              value={newLot.harvest_date}
+              onChange={handleInputChange}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="lot-quantity">Quantity</Label>
+            <WeightInput
+              id="lot-quantity"
+              quantity={newLot.quantity}
+              unit={newLot.unit}
+              onQuantityChange={(quantity) => setNewLot({ ...newLot, quantity })}
+              onUnitChange={(unit) => setNewLot({ ...newLot, unit })}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="origin_address">Farm Location</Label>
+            <Input
+              id="origin_address"
+              name="origin_address"
+              value={newLot.origin_address}
+              onChange={handleInputChange}
+              placeholder="Village, district"
+              maxLength={200}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="origin_lat">Farm Coordinates</Label>
+            <div className="flex gap-2">
+              <Input
+                id="origin_lat"
+                name="origin_lat"
+                type="number"
+                step="0.000001"
+                value={newLot.origin_lat}
+                onChange={handleInputChange}
+                placeholder="Latitude"
+              />
+              <Input
+                name="origin_lng"
+                type="number"
+                step="0.000001"
+                value={newLot.origin_lng}
+                onChange={handleInputChange}
+                placeholder="Longitude"
+                aria-label="Longitude"
+              />
+              <Button type="button" variant="outline" size="icon" title="Use current location" onClick={handleUseCurrentLocation}>
+                <LocateFixed className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-end">
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting ? 'Registering...' : 'Register Lot'}
+            </Button>
+          </div>
+        </form>
+      </div>
+
+      {/* Lots Table */}
+      <div className="bg-card p-6 rounded-lg shadow-card border">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-card-foreground">Lots</h2>
+          <MergeLotsDialog lots={selectedLots} onMerged={handleGenealogyChange} />
+        </div>
+        {lots.length === 0 ? (
+          <p className="text-muted-foreground">No lots registered yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="p-2 w-8"><span className="sr-only">Select</span></th>
+                  <th className="text-left p-2 text-muted-foreground">Lot Code</th>
+                  <th className="text-left p-2 text-muted-foreground">Seed Type</th>
+                  <th className="text-left p-2 text-muted-foreground">Harvest</th>
+                  <th className="text-right p-2 text-muted-foreground">Quantity</th>
+                  <th className="text-left p-2 text-muted-foreground">Farmer</th>
+                  <th className="text-left p-2 text-muted-foreground">Status</th>
+                  <th className="text-right p-2 text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lots.map((lot) => (
+                  <tr key={lot.id} className="border-b border-border hover:bg-muted/50">
+                    <td className="p-2">
+                      {lot.status === 'active' && (
+                        <Checkbox
+                          checked={selectedIds.includes(lot.id)}
+                          onCheckedChange={(checked) => toggleSelected(lot.id, checked === true)}
+                          aria-label={`Select lot ${lot.lot_code}`}
+                        />
+                      )}
+                    </td>
+                    <td className="p-2 font-medium text-foreground">
+                      <Link to={traceLotPath(lot.lot_code)} className="hover:underline">
+                        {lot.lot_code}
+                      </Link>
+                    </td>
+                    <td className="p-2 text-muted-foreground">
+                      <span className="block text-foreground">{getCommodityName(lot.commodity_code)}</span>
+                      {lot.variety && <span className="block text-xs">{lot.variety}</span>}
+                    </td>
+                    <td className="p-2 text-muted-foreground">
+                      {lot.harvest_date ? new Date(lot.harvest_date).toLocaleDateString() : 'N/A'}
+                    </td>
+                    <td className="p-2 text-right text-foreground">{formatTonnes(Number(lot.quantity_kg ?? 0))}</td>
+                    <td className="p-2 text-muted-foreground">{getFarmerName(lot.farmer_id)}</td>
+                    <td className="p-2">
+                      <Badge variant={getSeedLotBadgeVariant(lot.status)}>{SEED_LOT_STATUS_LABELS[lot.status]}</Badge>
+                    </td>
+                    <td className="p-2 text-right">
+                      {lot.status === 'active' && <SplitLotDialog lot={lot} onSplit={handleGenealogyChange} />}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeedLots;
@@ -0,0 +1,444 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useTransporters } from '@/hooks/useTransporters';
+import { useCommodities } from '@/hooks/useCommodities';
+import { useSeedLots } from '@/hooks/useSeedLots';
+import { useToast } from '@/hooks/use-toast';
+import { useShipmentTrack } from '@/hooks/useShipmentTrack';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import MapView from '@/components/MapView';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { ShipmentStatusBadge } from '@/components/ShipmentStatusBadge';
+import { ShipmentStatusMenu } from '@/components/ShipmentStatusMenu';
+import { ShipmentTimeline } from '@/components/ShipmentTimeline';
+import { AssignTransporterDialog } from '@/components/AssignTransporterDialog';
+import { EditShipmentDialog } from '@/components/EditShipmentDialog';
+import { CancelShipmentDialog } from '@/components/CancelShipmentDialog';
+import { DeleteShipmentDialog } from '@/components/DeleteShipmentDialog';
+import {
+  SHIPMENT_STATUS_COLORS,
+  canAssignTransporter,
+  getAllowedTransitions,
+  isEditableStatus,
+  routeEndIcon
+} from '@/lib/shipmentStatus';
+import { TRACKED_STATUSES, toTrackPoints } from '@/lib/tracking';
+import { WEIGHT_UNIT_LABELS, formatCurrency } from '@/lib/cargo';
+import { traceLotPath } from '@/lib/seedLots';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Link2, Wheat, Truck } from 'lucide-react';
+
+type ShipmentWithLot = Tables<'shipments'> & {
+  seed_lots: { lot_code: string } | null;
+};
+
+type ShipmentParties = {
+  owner_name: string | null;
+  owner_email: string | null;
+  transporter_name: string | null;
+  transporter_email: string | null;
+};
+
+const formatCoordinates = (lat: number | null, lng: number | null) =>
+  lat !== null && lng !== null ? `${Number(lat).toFixed(4)}, ${Number(lng).toFixed(4)}` : 'Not set';
+
+const ShipmentDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { userId, userRole, organizationId, switchOrganization } = useAppContext();
+  const [shipment, setShipment] = useState<ShipmentWithLot | null>(null);
+  const [parties, setParties] = useState<ShipmentParties | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const { toast } = useToast();
+  const canAssign = userRole === 'farmer' || userRole === 'administrator';
+  const { transporters } = useTransporters(organizationId, canAssign);
+  const { activeCommodities, getCommodityName } = useCommodities();
+  const { activeLots } = useSeedLots(organizationId, canAssign);
+
+  const fetchShipment = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const [{ data, error }, { data: partyRows, error: partiesError }] = await Promise.all([
+        supabase.from('shipments').select('*, seed_lots(lot_code)').eq('id', id).maybeSingle(),
+        supabase.rpc('get_shipment_parties', { _shipment_id: id })
+      ]);
+
+      if (error) throw error;
+      if (partiesError) throw partiesError;
+
+      // Row level security decides visibility; a link into another organization opens it in that workspace,
+      // where the page loads again with the roles, transporters and lots that go with it
+      if (data && data.organization_id !== organizationId && switchOrganization(data.organization_id)) {
+        return;
+      }
+
+      setShipment(data);
+      setParties(partyRows?.[0] ?? null);
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error fetching shipment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load shipment. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, organizationId, switchOrganization, toast]);
+
+  useEffect(() => {
+    fetchShipment();
+  }, [fetchShipment]);
+
+  const { locations, lastLocation } = useShipmentTrack(shipment?.id);
+  const onTheWay = !!shipment && TRACKED_STATUSES.includes(shipment.status);
+
+  const mapMarkers = useMemo(() => {
+    if (!shipment) return [];
+    const markers = [];
+
+    if (shipment.origin_lat !== null && shipment.origin_lng !== null) {
+      markers.push({
+        id: 'origin',
+        icon: routeEndIcon('origin', shipment.status),
+        lat: Number(shipment.origin_lat),
+        lng: Number(shipment.origin_lng),
+        title: "Origin",
+        info: shipment.origin_address || "Pickup location"
+      });
+    }
+
+    if (shipment.destination_lat !== null && shipment.destination_lng !== null) {
+      markers.push({
+        id: 'destination',
+        icon: routeEndIcon('destination', shipment.status),
+        lat: Number(shipment.destination_lat),
+        lng: Number(shipment.destination_lng),
+        title: "Destination",
+        info: shipment.destination_address || "Drop-off location"
+      });
+    }
+
+    // Where the truck last reported from, while the load is still on the way
+    if (onTheWay && lastLocation) {
+      markers.push({
+        id: 'current',
+        icon: { color: SHIPMENT_STATUS_COLORS[shipment.status] },
+        lat: Number(lastLocation.lat),
+        lng: Number(lastLocation.lng),
+        title: "Last known position",
+        info: `Reported ${new Date(lastLocation.recorded_at).toLocaleString()}`
+      });
+    }
+
+    return markers;
+  }, [shipment, onTheWay, lastLocation]);
+
+  const mapRoutes = useMemo(() => {
+    if (!shipment || shipment.origin_lat === null || shipment.origin_lng === null ||
+        shipment.destination_lat === null || shipment.destination_lng === null) {
+      return [];
+    }
+    return [{
+      origin: { lat: Number(shipment.origin_lat), lng: Number(shipment.origin_lng) },
+      destination: { lat: Number(shipment.destination_lat), lng: Number(shipment.destination_lng) },
+      title: "Delivery Route",
+      color: "#3b82f6"
+    }];
+  }, [shipment]);
+
+  // The travelled path is drawn over the planned route so detours stand out
+  const mapPaths = useMemo(
+    () => (locations.length > 1 ? [{ points: toTrackPoints(locations), title: "Travelled" }] : []),
+    [locations]
+  );
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link Copied",
+        description: "Shipment link copied to clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Could not copy the link. Copy it from the address bar instead.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!shipment) {
+    return (
+      <div className="p-6 bg-background min-h-screen flex items-center justify-center">
+        <Card className="max-w-md w-full text-center">
+          <CardHeader>
+            <CardTitle>Shipment not found</CardTitle>
+            <CardDescription>
+              This shipment does not exist or you do not have access to it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild>
+              <Link to="/dashboard">Back to dashboard</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOwner = shipment.user_id === userId;
+  const canManage = userRole === 'administrator' || (userRole === 'farmer' && isOwner);
+  const isAssignedTransporter = userRole === 'transporter' && shipment.assigned_transporter_id === userId;
+
+  return (
+    <div className="p-6 bg-background min-h-screen space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate(-1)}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground">{shipment.title}</h1>
+          <div className="flex items-center gap-2 mt-2">
+            <ShipmentStatusBadge status={shipment.status} />
+            <span className="text-sm text-muted-foreground">
+              Created {new Date(shipment.created_at).toLocaleString()}
+            </span>
+          </div>
+          {shipment.status === 'cancelled' && shipment.cancellation_reason && (
+            <p className="text-sm text-muted-foreground mt-2">
+              Cancelled: {shipment.cancellation_reason}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopyLink}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Copy Link
+          </Button>
+          {canManage && canAssignTransporter(shipment.status, shipment.assignment_status) && (
+            <AssignTransporterDialog
+              shipmentId={shipment.id}
+              shipmentTitle={shipment.title}
+              transporters={transporters}
+              onAssigned={fetchShipment}
+            />
+          )}
+          {(canManage || (isAssignedTransporter && shipment.assignment_status === 'accepted')) && (
+            <ShipmentStatusMenu
+              shipmentId={shipment.id}
+              status={shipment.status}
+              userRole={userRole}
+              onStatusChange={fetchShipment}
+            />
+          )}
+          {canManage && isEditableStatus(shipment.status) && (
+            <EditShipmentDialog
+              shipment={shipment}
+              commodities={activeCommodities}
+              lots={activeLots}
+              onSaved={fetchShipment}
+            />
+          )}
+          {canManage && getAllowedTransitions(shipment.status, userRole).includes('cancelled') && (
+            <CancelShipmentDialog
+              shipmentId={shipment.id}
+              shipmentTitle={shipment.title}
+              onCancelled={fetchShipment}
+            />
+          )}
+          {userRole === 'administrator' && (
+            <DeleteShipmentDialog
+              shipmentId={shipment.id}
+              shipmentTitle={shipment.title}
+              onDeleted={() => navigate('/shipments', { replace: true })}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Route</CardTitle>
+              <CardDescription>
+                {locations.length > 0 ? 'Planned route and the path travelled so far' : 'Pickup and drop-off locations'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {mapMarkers.length > 0 ? (
+                <MapView
+                  height="360px"
+                  markers={mapMarkers}
+                  routes={mapRoutes}
+                  paths={mapPaths}
+                  center={{ lat: mapMarkers[0].lat, lng: mapMarkers[0].lng }}
+                  zoom={7}
+                  fitToMarkers
+                />
+              ) : (
+                <div className="flex items-center justify-center h-[200px] bg-muted rounded-lg text-muted-foreground">
+                  No coordinates recorded for this shipment
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="font-medium text-foreground">Origin</p>
+                  <p className="text-muted-foreground">{shipment.origin_address || 'N/A'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCoordinates(shipment.origin_lat, shipment.origin_lng)}
+                  </p>
+                </div>
+                <div>
+                  <p className="font-medium text-foreground">Destination</p>
+                  <p className="text-muted-foreground">{shipment.destination_address || 'N/A'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCoordinates(shipment.destination_lat, shipment.destination_lng)}
+                  </p>
+                </div>
+              </div>
+              {lastLocation && (
+                <p className="text-sm text-muted-foreground">
+                  {locations.length} GPS reading{locations.length === 1 ? '' : 's'}, last at{' '}
+                  {new Date(lastLocation.recorded_at).toLocaleString()}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cargo</CardTitle>
+              <CardDescription>What is being shipped</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">Description</dt>
+                  <dd className="font-medium text-foreground">{shipment.title}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Seed type</dt>
+                  <dd className="font-medium text-foreground">{getCommodityName(shipment.commodity_code) || 'Not specified'}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Seed lot</dt>
+                  <dd className="font-medium text-foreground">
+                    {!shipment.seed_lots ? 'Not recorded' : canAssign ? (
+                      <Link to={traceLotPath(shipment.seed_lots.lot_code)} className="hover:underline">
+                        {shipment.seed_lots.lot_code}
+                      </Link>
+                    ) : shipment.seed_lots.lot_code}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Net weight</dt>
+                  <dd className="font-medium text-foreground">
+                    {shipment.net_weight !== null
+                      ? `${Number(shipment.net_weight).toLocaleString()} ${WEIGHT_UNIT_LABELS[shipment.weight_unit]}`
+                      : 'Not specified'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Bags</dt>
+                  <dd className="font-medium text-foreground">{shipment.bag_count ?? 'Not specified'}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Declared moisture</dt>
+                  <dd className="font-medium text-foreground">
+                    {shipment.moisture_pct !== null ? `${shipment.moisture_pct}%` : 'Not specified'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Oil content</dt>
+                  <dd className="font-medium text-foreground">
+                    {shipment.oil_content_pct !== null ? `${shipment.oil_content_pct}%` : 'Not specified'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Rate</dt>
+                  <dd className="font-medium text-foreground">
+                    {shipment.rate_per_quintal !== null
+                      ? `${formatCurrency(Number(shipment.rate_per_quintal))} / quintal`
+                      : 'Not specified'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Cargo value</dt>
+                  <dd className="font-medium text-foreground">
+                    {shipment.cargo_value !== null ? formatCurrency(Number(shipment.cargo_value)) : 'Not specified'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Last updated</dt>
+                  <dd className="font-medium text-foreground">{new Date(shipment.updated_at).toLocaleString()}</dd>
+                </div>
+              </dl>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Parties</CardTitle>
+              <CardDescription>People involved in this shipment</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-start gap-3">
+                <Wheat className="h-5 w-5 text-primary mt-0.5" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Shipper</p>
+                  <p className="font-medium text-foreground">
+                    {parties?.owner_name || parties?.owner_email || 'Unknown'}
+                    {isOwner && ' (you)'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <Truck className="h-5 w-5 text-primary mt-0.5" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Transporter</p>
+                  <p className="font-medium text-foreground">
+                    {shipment.assigned_transporter_id
+                      ? parties?.transporter_name || parties?.transporter_email || 'Unknown'
+                      : 'Unassigned'}
+                  </p>
+                  {shipment.assignment_status === 'offered' && (
+                    <p className="text-xs text-muted-foreground">Awaiting response</p>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+              <CardDescription>Status, assignment and location changes</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ShipmentTimeline shipmentId={shipment.id} refreshKey={refreshKey} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShipmentDetail;
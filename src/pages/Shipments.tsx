@@ -0,0 +1,530 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useTransporters } from '@/hooks/useTransporters';
+import { useCommodities } from '@/hooks/useCommodities';
+import { useSeedLots } from '@/hooks/useSeedLots';
+import { useAddressLookup } from '@/hooks/useAddressLookup';
+import MapView from '@/components/MapView';
+import { AddressAutocomplete } from '@/components/AddressAutocomplete';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { ShipmentStatusBadge } from '@/components/ShipmentStatusBadge';
+import { ShipmentStatusMenu } from '@/components/ShipmentStatusMenu';
+import { AssignTransporterDialog } from '@/components/AssignTransporterDialog';
+import { ShipmentHistorySheet } from '@/components/ShipmentHistorySheet';
+import { EditShipmentDialog } from '@/components/EditShipmentDialog';
+import { CancelShipmentDialog } from '@/components/CancelShipmentDialog';
+import { DeleteShipmentDialog } from '@/components/DeleteShipmentDialog';
+import { CargoFields } from '@/components/CargoFields';
+import { ExportMenu } from '@/components/ExportMenu';
+import {
+  SHIPMENT_STATUS_LABELS,
+  RouteEnd,
+  ShipmentStatus,
+  canAssignTransporter,
+  getAllowedTransitions,
+  isEditableStatus,
+  routeEndIcon
+} from '@/lib/shipmentStatus';
+import { CURRENCY, EMPTY_CARGO, WEIGHT_UNIT_LABELS, formatCargoSummary, toCargoPayload, validateCargo } from '@/lib/cargo';
+import { ExportFormat, exportDocument, exportFilename } from '@/lib/exporters';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const MessageModal = ({ message, onClose }: { message: string; onClose: () => void }) => (
+  <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+    <div className="bg-card p-6 rounded-lg shadow-lg max-w-md w-full mx-4">
+      <p className="text-card-foreground mb-4">{message}</p>
+      <Button onClick={onClose} className="w-full">
+        Close
+      </Button>
+    </div>
+  </div>
+);
+
+const Shipments = () => {
+  const { userId, userRole, organizationId } = useAppContext();
+  const [shipments, setShipments] = useState<any[]>([]);
+  const [newShipment, setNewShipment] = useState({
+    title: '',
+    origin_address: '',
+    destination_address: '',
+    origin_lat: null as number | null,
+    origin_lng: null as number | null,
+    destination_lat: null as number | null,
+    destination_lng: null as number | null
+  });
+  const [cargo, setCargo] = useState(EMPTY_CARGO);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [modalMessage, setModalMessage] = useState('');
+  const { toast } = useToast();
+  const { transporters, getTransporterName } = useTransporters(organizationId);
+  const { activeCommodities, getCommodityName } = useCommodities();
+  const { lots, activeLots } = useSeedLots(organizationId);
+  const lookupAddress = useAddressLookup();
+
+  useEffect(() => {
+    fetchShipments();
+  }, [userId, userRole, organizationId]);
+
+  const fetchShipments = async () => {
+    try {
+      let query = supabase.from('shipments').select('*').eq('organization_id', organizationId);
+      
+      if (userRole !== 'administrator') {
+        query = query.eq('user_id', userId);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setShipments(data || []);
+    } catch (error) {
+      console.error('Error fetching shipments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load shipments. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setNewShipment({ ...newShipment, [name]: value });
+  };
+
+  const handleAddressChange = (end: RouteEnd) => (address: string) => {
+    setNewShipment((prev) => ({ ...prev, [`${end}_address`]: address }));
+  };
+
+  const handleAddressSelect = (end: RouteEnd) => (address: string, lat: number, lng: number) => {
+    setNewShipment((prev) => ({ ...prev, [`${end}_address`]: address, [`${end}_lat`]: lat, [`${end}_lng`]: lng }));
+  };
+
+  // Moves one end of the route, then fills in the address found at the new point
+  const moveRouteEnd = useCallback(async (end: RouteEnd, lat: number, lng: number) => {
+    setNewShipment((prev) => ({ ...prev, [`${end}_lat`]: lat, [`${end}_lng`]: lng }));
+    const address = await lookupAddress(end, { lat, lng });
+    if (address) {
+      setNewShipment((prev) => ({ ...prev, [`${end}_address`]: address }));
+    }
+  }, [lookupAddress]);
+
+  const handleMapClick = (lat: number, lng: number) => {
+    if (!newShipment.origin_lat && !newShipment.origin_lng) {
+      moveRouteEnd('origin', lat, lng);
+      setModalMessage('Origin location set! Click again to set destination.');
+      setShowModal(true);
+    } else if (!newShipment.destination_lat && !newShipment.destination_lng) {
+      moveRouteEnd('destination', lat, lng);
+      setModalMessage('Destination location set! You can now create the shipment.');
+      setShowModal(true);
+    }
+  };
+
+  const handleMarkerDrag = useCallback((id: string, lat: number, lng: number) => {
+    if (id === 'origin' || id === 'destination') {
+      moveRouteEnd(id, lat, lng);
+    }
+  }, [moveRouteEnd]);
+
+  const resetLocations = () => {
+    setNewShipment({
+      ...newShipment,
+      origin_lat: null,
+      origin_lng: null,
+      destination_lat: null,
+      destination_lng: null
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent, status: ShipmentStatus = 'pending') => {
+    e.preventDefault();
+    
+    if (userRole === 'transporter') {
+      toast({
+        title: "Access Denied",
+        description: "Only farmers and administrators can create shipments.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!newShipment.title || !newShipment.origin_address || !newShipment.destination_address) {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const cargoError = validateCargo(cargo);
+    if (cargoError) {
+      toast({
+        title: "Error",
+        description: cargoError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('shipments')
+        .insert([{
+          ...newShipment,
+          ...toCargoPayload(cargo),
+          user_id: userId,
+          organization_id: organizationId,
+          status
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: status === 'draft' ? "Shipment saved as draft." : "Shipment created successfully!",
+      });
+
+      setNewShipment({
+        title: '',
+        origin_address: '',
+        destination_address: '',
+        origin_lat: null,
+        origin_lng: null,
+        destination_lat: null,
+        destination_lng: null
+      });
+      setCargo(EMPTY_CARGO);
+
+      fetchShipments();
+    } catch (error) {
+      console.error('Error creating shipment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create shipment. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getMapMarkers = () => {
+    const markers = [];
+    
+    if (newShipment.origin_lat && newShipment.origin_lng) {
+      markers.push({
+        id: 'origin',
+        draggable: true,
+        icon: routeEndIcon('origin'),
+        lat: newShipment.origin_lat,
+        lng: newShipment.origin_lng,
+        title: "Origin",
+        info: "Pickup location"
+      });
+    }
+    
+    if (newShipment.destination_lat && newShipment.destination_lng) {
+      markers.push({
+        id: 'destination',
+        draggable: true,
+        icon: routeEndIcon('destination'),
+        lat: newShipment.destination_lat,
+        lng: newShipment.destination_lng,
+        title: "Destination",
+        info: "Drop-off location"
+      });
+    }
+
+    return markers;
+  };
+
+  const getMapRoutes = () => {
+    if (newShipment.origin_lat && newShipment.origin_lng && 
+        newShipment.destination_lat && newShipment.destination_lng) {
+      return [{
+        origin: { lat: newShipment.origin_lat, lng: newShipment.origin_lng },
+        destination: { lat: newShipment.destination_lat, lng: newShipment.destination_lng },
+        title: "Delivery Route",
+        color: "#3b82f6"
+      }];
+    }
+    return [];
+  };
+
+  const handleExport = (format: ExportFormat) =>
+    exportDocument({
+      filename: exportFilename('shipments'),
+      title: userRole === 'administrator' ? 'All Shipments' : 'Your Shipments',
+      tables: [{
+        title: 'Shipments',
+        columns: [
+          'Title', 'Status', 'Seed type', 'Lot', 'Net weight', 'Unit', 'Net weight (kg)', 'Bags',
+          'Moisture %', 'Oil content %', `Rate per quintal (${CURRENCY})`, `Cargo value (${CURRENCY})`,
+          'Origin', 'Destination', 'Transporter', 'Created', 'Delivered'
+        ],
+        rows: shipments.map((shipment) => [
+          shipment.title,
+          SHIPMENT_STATUS_LABELS[shipment.status],
+          getCommodityName(shipment.commodity_code),
+          lots.find((lot) => lot.id === shipment.lot_id)?.lot_code,
+          shipment.net_weight,
+          WEIGHT_UNIT_LABELS[shipment.weight_unit],
+          shipment.net_weight_kg,
+          shipment.bag_count,
+          shipment.moisture_pct,
+          shipment.oil_content_pct,
+          shipment.rate_per_quintal,
+          shipment.cargo_value,
+          shipment.origin_address,
+          shipment.destination_address,
+          getTransporterName(shipment.assigned_transporter_id),
+          new Date(shipment.created_at).toLocaleDateString(),
+          shipment.delivered_at ? new Date(shipment.delivered_at).toLocaleDateString() : null
+        ])
+      }]
+    }, format);
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      <h1 className="text-3xl font-bold text-foreground mb-8">
+        {userRole === 'administrator' ? 'All Shipments' : 'Your Shipments'}
+      </h1>
+      
+      {showModal && (
+        <MessageModal
+          message={modalMessage}
+          onClose={() => setShowModal(false)}
+        />
+      )}
+
+      {(userRole === 'farmer' || userRole === 'administrator') && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          <div className="bg-card p-6 rounded-lg shadow-card border">
+            <h2 className="text-xl font-semibold text-card-foreground mb-4">Create New Shipment</h2>
+            
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="title">Shipment Title</Label>
+                <Input
+                  id="title"
+                  name="title"
+                  value={newShipment.title}
+                  onChange={handleInputChange}
+                  placeholder="e.g., Oil Seed Batch #001"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="origin_address">Origin Address</Label>
+                <AddressAutocomplete
+                  id="origin_address"
+                  name="origin_address"
+                  value={newShipment.origin_address}
+                  onChange={handleAddressChange('origin')}
+                  onSelect={handleAddressSelect('origin')}
+                  placeholder="Farm, village or mandi"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="destination_address">Destination Address</Label>
+                <AddressAutocomplete
+                  id="destination_address"
+                  name="destination_address"
+                  value={newShipment.destination_address}
+                  onChange={handleAddressChange('destination')}
+                  onSelect={handleAddressSelect('destination')}
+                  placeholder="Mandi, mill or warehouse"
+                  required
+                />
+              </div>
+
+              <CargoFields
+                idPrefix="new-shipment"
+                value={cargo}
+                commodities={activeCommodities}
+                lots={activeLots}
+                onChange={setCargo}
+              />
+
+              <div className="flex gap-2">
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={resetLocations}
+                  className="flex-1"
+                >
+                  Reset Locations
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={(e) => handleSubmit(e, 'draft')}
+                  className="flex-1"
+                >
+                  Save as Draft
+                </Button>
+                <Button type="submit" className="flex-1">
+                  Create Shipment
+                </Button>
+              </div>
+            </form>
+
+            <div className="mt-4 text-sm text-muted-foreground">
+              <p>Current selections:</p>
+              <p>Origin: {newShipment.origin_lat && newShipment.origin_lng ? `${newShipment.origin_lat.toFixed(4)}, ${newShipment.origin_lng.toFixed(4)}` : 'Not set'}</p>
+              <p>Destination: {newShipment.destination_lat && newShipment.destination_lng ? `${newShipment.destination_lat.toFixed(4)}, ${newShipment.destination_lng.toFixed(4)}` : 'Not set'}</p>
+            </div>
+          </div>
+
+          <div className="bg-card p-6 rounded-lg shadow-card border">
+            <h2 className="text-xl font-semibold text-card-foreground mb-4">Select Locations</h2>
+            <p className="text-muted-foreground mb-4">
+              Search for an address or click on the map to set origin and destination locations for your shipment.
+              Drag a marker to move it; the address follows.
+            </p>
+            
+            <MapView
+              height="400px"
+              markers={getMapMarkers()}
+              routes={getMapRoutes()}
+              onMapClick={handleMapClick}
+              onMarkerDrag={handleMarkerDrag}
+              center={{ lat: 20.5937, lng: 78.9629 }}
+              zoom={5}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="bg-card p-6 rounded-lg shadow-card border">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-card-foreground">
+            {userRole === 'administrator' ? 'All Shipments' : 'Your Shipments'}
+          </h2>
+          <ExportMenu onExport={handleExport} disabled={shipments.length === 0} />
+        </div>
+        
+        {shipments.length === 0 ? (
+          <p className="text-muted-foreground">No shipments found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-2 text-muted-foreground">Title</th>
+                  <th className="text-left p-2 text-muted-foreground">Cargo</th>
+                  <th className="text-left p-2 text-muted-foreground">Origin</th>
+                  <th className="text-left p-2 text-muted-foreground">Destination</th>
+                  <th className="text-left p-2 text-muted-foreground">Status</th>
+                  <th className="text-left p-2 text-muted-foreground">Transporter</th>
+                  <th className="text-left p-2 text-muted-foreground">Created</th>
+                  <th className="text-right p-2 text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shipments.map((shipment) => (
+                  <tr key={shipment.id} className="border-b border-border hover:bg-muted/50">
+                    <td className="p-2 font-medium text-foreground">
+                      <Link to={`/shipments/${shipment.id}`} className="hover:underline">
+                        {shipment.title}
+                      </Link>
+                    </td>
+                    <td className="p-2 text-muted-foreground">
+                      {shipment.commodity_code ? (
+                        <>
+                          <span className="block text-foreground">{getCommodityName(shipment.commodity_code)}</span>
+                          <span className="block text-xs">{formatCargoSummary(shipment)}</span>
+                          {shipment.lot_id && (
+                            <span className="block text-xs">
+                              Lot {lots.find((lot) => lot.id === shipment.lot_id)?.lot_code ?? '—'}
+                            </span>
+                          )}
+                        </>
+                      ) : 'N/A'}
+                    </td>
+                    <td className="p-2 text-muted-foreground">{shipment.origin_address || 'N/A'}</td>
+                    <td className="p-2 text-muted-foreground">{shipment.destination_address || 'N/A'}</td>
+                    <td className="p-2">
+                      <ShipmentStatusBadge status={shipment.status} />
+                    </td>
+                    <td className="p-2 text-muted-foreground">
+                      {shipment.assigned_transporter_id ? (
+                        <>
+                          {getTransporterName(shipment.assigned_transporter_id)}
+                          {shipment.assignment_status === 'offered' && (
+                            <span className="block text-xs">Awaiting response</span>
+                          )}
+                        </>
+                      ) : 'Unassigned'}
+                    </td>
+                    <td className="p-2 text-muted-foreground">
+                      {new Date(shipment.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="p-2 text-right">
+                      <div className="flex justify-end gap-2">
+                        {canAssignTransporter(shipment.status, shipment.assignment_status) && (
+                          <AssignTransporterDialog
+                            shipmentId={shipment.id}
+                            shipmentTitle={shipment.title}
+                            transporters={transporters}
+                            onAssigned={() => fetchShipments()}
+                          />
+                        )}
+                        <ShipmentStatusMenu
+                          shipmentId={shipment.id}
+                          status={shipment.status}
+                          userRole={userRole}
+                          onStatusChange={() => fetchShipments()}
+                        />
+                        {isEditableStatus(shipment.status) && (
+                          <EditShipmentDialog
+                            shipment={shipment}
+                            commodities={activeCommodities}
+                            lots={activeLots}
+                            onSaved={() => fetchShipments()}
+                          />
+                        )}
+                        {getAllowedTransitions(shipment.status, userRole).includes('cancelled') && (
+                          <CancelShipmentDialog
+                            shipmentId={shipment.id}
+                            shipmentTitle={shipment.title}
+                            onCancelled={() => fetchShipments()}
+                          />
+                        )}
+                        <ShipmentHistorySheet shipmentId={shipment.id} shipmentTitle={shipment.title} />
+                        {userRole === 'administrator' && (
+                          <DeleteShipmentDialog
+                            shipmentId={shipment.id}
+                            shipmentTitle={shipment.title}
+                            onDeleted={() => fetchShipments()}
+                          />
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Shipments;
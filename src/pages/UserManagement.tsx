@@ -0,0 +1,408 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/hooks/useAppContext';
+import { UserRole } from '@/hooks/useUserRole';
+import { PendingRoleRequest, useRoleRequestQueue } from '@/hooks/useRoleRequestQueue';
+import { useInvitations } from '@/hooks/useInvitations';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { UserStatusDialog } from '@/components/UserStatusDialog';
+import { ForceSignOutDialog } from '@/components/ForceSignOutDialog';
+import { RejectRoleRequestDialog } from '@/components/RejectRoleRequestDialog';
+import { InviteUserDialog } from '@/components/InviteUserDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AdminUser, USER_ROLES, USER_ROLE_LABELS, getUserDisplayName } from '@/lib/adminUsers';
+import { Invitation, getInvitationContact, getInvitationUrl, isInvitationExpired } from '@/lib/invitations';
+import { ChevronDown, Copy, Mail, Search, UserPlus } from 'lucide-react';
+
+const ALL = 'all';
+const NO_ROLE = 'none';
+const INACTIVE = 'inactive';
+
+const UserManagement = () => {
+  const { userId, organizationId } = useAppContext();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState(ALL);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { requests: roleRequests, refetch: refetchRoleRequests } = useRoleRequestQueue(organizationId);
+  const { invitations, revokeInvitation, refetch: refetchInvitations } = useInvitations(organizationId);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('list_users', { _organization_id: organizationId });
+
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load users. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, toast]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // Members may hold several roles in an organization, so each one is granted or revoked on its own
+  const handleRoleToggle = async (user: AdminUser, role: UserRole, granted: boolean) => {
+    setSavingId(user.id);
+    try {
+      const { error } = granted
+        ? await supabase.from('user_roles').insert({ user_id: user.id, organization_id: organizationId, role })
+        : await supabase
+            .from('user_roles')
+            .delete()
+            .eq('user_id', user.id)
+            .eq('organization_id', organizationId)
+            .eq('role', role);
+
+      if (error) throw error;
+
+      toast({
+        title: "Role Updated",
+        description: `${getUserDisplayName(user)} ${granted ? 'is now' : 'is no longer'} a ${USER_ROLE_LABELS[role].toLowerCase()}.`,
+      });
+      fetchUsers();
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRoleRequestReviewed = () => {
+    refetchRoleRequests();
+    fetchUsers();
+  };
+
+  const handleApprove = async (request: PendingRoleRequest) => {
+    setApprovingId(request.id);
+    try {
+      const { error } = await supabase.rpc('review_role_request', {
+        _request_id: request.id,
+        _approve: true
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Request Approved",
+        description: `${getUserDisplayName(request)} is now a ${USER_ROLE_LABELS[request.requested_role].toLowerCase()}.`,
+      });
+      handleRoleRequestReviewed();
+    } catch (error) {
+      console.error('Error approving role request:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to approve role request.",
+        variant: "destructive"
+      });
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  const handleCopyInvitation = async (invitation: Invitation) => {
+    await navigator.clipboard.writeText(getInvitationUrl(invitation.token));
+    toast({
+      title: "Link Copied",
+      description: `Share it with ${getInvitationContact(invitation)}.`,
+    });
+  };
+
+  const handleRevokeInvitation = async (invitation: Invitation) => {
+    setRevokingId(invitation.id);
+    try {
+      await revokeInvitation(invitation.id);
+      toast({
+        title: "Invitation Revoked",
+        description: `The link sent to ${getInvitationContact(invitation)} no longer works.`,
+      });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke invitation.",
+        variant: "destructive"
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const term = search.trim().toLowerCase();
+  const visibleUsers = users.filter((user) => {
+    const matchesSearch = !term ||
+      user.full_name?.toLowerCase().includes(term) ||
+      user.email?.toLowerCase().includes(term);
+    const matchesRole = roleFilter === ALL ||
+      (roleFilter === INACTIVE
+        ? !user.is_active
+        : roleFilter === NO_ROLE ? user.roles.length === 0 : user.roles.includes(roleFilter as UserRole));
+    return matchesSearch && matchesRole;
+  });
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <h1 className="text-3xl font-bold text-foreground">User Management</h1>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name or email"
+              aria-label="Search users"
+              className="w-64 pl-8"
+            />
+          </div>
+          <Select value={roleFilter} onValueChange={setRoleFilter}>
+            <SelectTrigger className="w-44" aria-label="Filter by role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All users</SelectItem>
+              {USER_ROLES.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {USER_ROLE_LABELS[role]}s
+                </SelectItem>
+              ))}
+              <SelectItem value={NO_ROLE}>No role yet</SelectItem>
+              <SelectItem value={INACTIVE}>Deactivated</SelectItem>
+            </SelectContent>
+          </Select>
+          <InviteUserDialog organizationId={organizationId} onInvited={refetchInvitations} />
+        </div>
+      </div>
+
+      {roleRequests.length > 0 && (
+        <div className="bg-card p-6 rounded-lg shadow-card border mb-6">
+          <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Role Requests
+            <Badge variant="secondary">{roleRequests.length}</Badge>
+          </h2>
+          <div className="space-y-3">
+            {roleRequests.map((request) => {
+              const name = getUserDisplayName(request);
+              const roleLabel = USER_ROLE_LABELS[request.requested_role];
+
+              return (
+                <div
+                  key={request.id}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-md border border-border"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium text-foreground">
+                      {name} <span className="font-normal text-muted-foreground">wants</span> {roleLabel.toLowerCase()} access
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {request.full_name && `${request.email} · `}
+                      Requested {new Date(request.created_at).toLocaleString()}
+                    </p>
+                    {request.note && (
+                      <p className="text-sm text-foreground whitespace-pre-wrap">{request.note}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <RejectRoleRequestDialog
+                      requestId={request.id}
+                      userName={name}
+                      roleLabel={roleLabel}
+                      disabled={approvingId === request.id}
+                      onRejected={handleRoleRequestReviewed}
+                    />
+                    <Button size="sm" onClick={() => handleApprove(request)} disabled={approvingId === request.id}>
+                      {approvingId === request.id ? 'Approving...' : 'Approve'}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {invitations.length > 0 && (
+        <div className="bg-card p-6 rounded-lg shadow-card border mb-6">
+          <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Pending Invitations
+            <Badge variant="secondary">{invitations.length}</Badge>
+          </h2>
+          <div className="space-y-3">
+            {invitations.map((invitation) => {
+              const expired = isInvitationExpired(invitation);
+
+              return (
+                <div
+                  key={invitation.id}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-md border border-border"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium text-foreground">
+                      {getInvitationContact(invitation)}{' '}
+                      <span className="font-normal text-muted-foreground">invited as</span>{' '}
+                      {USER_ROLE_LABELS[invitation.role].toLowerCase()}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Sent {new Date(invitation.created_at).toLocaleString()} · {expired ? 'Expired' : 'Expires'}{' '}
+                      {new Date(invitation.expires_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {!expired && (
+                      <Button variant="outline" size="sm" onClick={() => handleCopyInvitation(invitation)}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        Copy Link
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevokeInvitation(invitation)}
+                      disabled={revokingId === invitation.id}
+                    >
+                      {revokingId === invitation.id ? 'Revoking...' : 'Revoke'}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-card p-6 rounded-lg shadow-card border">
+        {visibleUsers.length === 0 ? (
+          <p className="text-muted-foreground">No users found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-2 text-muted-foreground">User</th>
+                  <th className="text-left p-2 text-muted-foreground">Roles</th>
+                  <th className="text-left p-2 text-muted-foreground">Status</th>
+                  <th className="text-right p-2 text-muted-foreground">Shipments</th>
+                  <th className="text-left p-2 text-muted-foreground">Last sign-in</th>
+                  <th className="text-left p-2 text-muted-foreground">Joined</th>
+                  <th className="text-right p-2 text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleUsers.map((user) => {
+                  const isSelf = user.id === userId;
+                  const name = getUserDisplayName(user);
+                  const roleSummary = user.roles.map((role) => USER_ROLE_LABELS[role]).join(', ');
+
+                  return (
+                    <tr key={user.id} className="border-b border-border hover:bg-muted/50">
+                      <td className="p-2">
+                        <span className="block font-medium text-foreground">
+                          {name}
+                          {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                        </span>
+                        {user.full_name && <span className="block text-xs text-muted-foreground">{user.email}</span>}
+                      </td>
+                      <td className="p-2">
+                        {isSelf ? (
+                          <Badge variant="secondary">{roleSummary || 'No role'}</Badge>
+                        ) : (
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <Button
+                                variant="outline"
+                                className="w-48 justify-between font-normal"
+                                aria-label={`Roles for ${name}`}
+                                disabled={savingId === user.id}
+                              >
+                                <span className="truncate">{roleSummary || 'Assign roles'}</span>
+                                <ChevronDown className="h-4 w-4 opacity-50" />
+                              </Button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-48" align="start">
+                              <div className="space-y-2">
+                                {USER_ROLES.map((role) => (
+                                  <div key={role} className="flex items-center gap-2">
+                                    <Checkbox
+                                      id={`user-role-${user.id}-${role}`}
+                                      checked={user.roles.includes(role)}
+                                      disabled={savingId === user.id}
+                                      onCheckedChange={(checked) => handleRoleToggle(user, role, checked === true)}
+                                    />
+                                    <Label htmlFor={`user-role-${user.id}-${role}`} className="font-normal">
+                                      {USER_ROLE_LABELS[role]}
+                                    </Label>
+                                  </div>
+                                ))}
+                              </div>
+                            </PopoverContent>
+                          </Popover>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <Badge variant={user.is_active ? 'outline' : 'destructive'}>
+                          {user.is_active ? 'Active' : 'Deactivated'}
+                        </Badge>
+                      </td>
+                      <td className="p-2 text-right text-foreground">{user.shipment_count}</td>
+                      <td className="p-2 text-muted-foreground">
+                        {user.last_sign_in_at ? new Date(user.last_sign_in_at).toLocaleString() : 'Never'}
+                      </td>
+                      <td className="p-2 text-muted-foreground">{new Date(user.created_at).toLocaleDateString()}</td>
+                      <td className="p-2 text-right">
+                        {!isSelf && (
+                          <div className="flex justify-end gap-2">
+                            {user.is_active && (
+                              <ForceSignOutDialog userId={user.id} userName={name} />
+                            )}
+                            <UserStatusDialog
+                              userId={user.id}
+                              userName={name}
+                              isActive={user.is_active}
+                              onChanged={fetchUsers}
+                            />
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserManagement;
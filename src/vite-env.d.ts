@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Map provider to try first, 'google' or 'leaflet'; the other takes over if it cannot load
+  readonly VITE_MAP_PROVIDER?: string;
+  // OpenStreetMap tiles for the Leaflet provider, for example from a locally hosted tile server
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+  // OSRM-compatible server for road routes on Leaflet maps; straight lines are drawn without one
+  readonly VITE_MAP_ROUTING_URL?: string;
+  // Address lookups: 'google', 'nominatim' or 'gazetteer' (a built-in list of places for offline use)
+  readonly VITE_GEOCODER?: string;
+  // Nominatim server, for example a self-hosted one; addresses are only suggested while typing when this is set,
+  // since the public server does not allow autocomplete
+  readonly VITE_GEOCODER_URL?: string;
+  // ISO country code suggestions are limited to; defaults to 'in'
+  readonly VITE_GEOCODER_COUNTRY?: string;
+}
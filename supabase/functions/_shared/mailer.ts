@@ -0,0 +1,66 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailProvider {
+  send(message: MailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = 'Seed Track Flow <no-reply@seedtrackflow.local>'
+
+// Defaults to the Inbucket SMTP server that `supabase start` runs, so local invitations land in its web inbox
+const smtpProvider = (): MailProvider => ({
+  async send(message) {
+    const tls = Deno.env.get('SMTP_TLS') === 'true'
+    const username = Deno.env.get('SMTP_USER')
+    const client = new SMTPClient({
+      connection: {
+        hostname: Deno.env.get('SMTP_HOST') ?? 'inbucket',
+        port: Number(Deno.env.get('SMTP_PORT') ?? 2500),
+        tls,
+        auth: username ? { username, password: Deno.env.get('SMTP_PASSWORD') ?? '' } : undefined,
+      },
+    })
+
+    try {
+      await client.send({
+        from: Deno.env.get('SMTP_FROM') ?? DEFAULT_FROM,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      })
+    } finally {
+      await client.close()
+    }
+  },
+})
+
+// Writes messages to the function log instead of sending them
+const consoleProvider = (): MailProvider => ({
+  async send(message) {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`)
+  },
+})
+
+const PROVIDERS: Record<string, () => MailProvider> = {
+  smtp: smtpProvider,
+  console: consoleProvider,
+}
+
+// Chosen with the MAIL_PROVIDER secret; another service plugs in by adding an entry above
+export const getMailProvider = (): MailProvider => {
+  const name = Deno.env.get('MAIL_PROVIDER') ?? 'smtp'
+  const provider = PROVIDERS[name]
+
+  if (!provider) {
+    throw new Error(`Unknown mail provider: ${name}`)
+  }
+
+  return provider()
+}
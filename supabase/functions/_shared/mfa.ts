@@ -0,0 +1,27 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// The assurance level of the caller's session. getUser has already verified the token but does not report it.
+export const sessionAal = (token: string): string => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    return JSON.parse(atob(payload)).aal ?? 'aal1'
+  } catch {
+    return 'aal1'
+  }
+}
+
+// Mirrors meets_admin_mfa for functions that act with the service role, where the database cannot see the
+// caller's session: false when any of the organizations requires two-factor authentication and this is not an
+// aal2 session
+export const meetsAdminMfa = async (admin: SupabaseClient, token: string, organizationIds: string[]) => {
+  if (sessionAal(token) === 'aal2' || organizationIds.length === 0) return true
+
+  const { count, error } = await admin
+    .from('organizations')
+    .select('id', { count: 'exact', head: true })
+    .in('id', organizationIds)
+    .eq('require_admin_mfa', true)
+
+  if (error) throw error
+  return count === 0
+}
@@ -0,0 +1,6 @@
+export const secondsUntil = (timestamp: string | null) =>
+  timestamp ? Math.max(0, Math.ceil((new Date(timestamp).getTime() - Date.now()) / 1000)) : 0
+
+// The platform proxy appends the address it received the request from; anything before that came from the client
+export const clientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || 'unknown'
@@ -0,0 +1,102 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { meetsAdminMfa } from '../_shared/mfa.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Long enough to act as permanent until an administrator reactivates the account
+const DEACTIVATED_BAN_DURATION = '876000h'
+
+type AdminUserAction = 'deactivate' | 'reactivate' | 'sign_out'
+
+const ACTIONS: AdminUserAction[] = ['deactivate', 'reactivate', 'sign_out']
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    // Identify the caller from their own token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user: caller }, error: callerError } = await admin.auth.getUser(token)
+
+    if (callerError || !caller) {
+      return jsonResponse({ error: 'Not signed in' }, 401)
+    }
+
+    const { action, user_id: userId } = await req.json()
+
+    if (!ACTIONS.includes(action) || typeof userId !== 'string') {
+      return jsonResponse({ error: 'Unknown action or user' }, 400)
+    }
+
+    // Bans and sign-outs apply across organizations, so administrators may only act on
+    // users whose every organization they administer
+    const { data: canManage, error: roleError } = await admin.rpc('can_manage_user', {
+      _admin_id: caller.id,
+      _user_id: userId,
+    })
+
+    if (roleError) throw roleError
+    if (!canManage) {
+      return jsonResponse({ error: 'Only administrators of every organization this user belongs to can manage them' }, 403)
+    }
+
+    const { data: memberships, error: membershipsError } = await admin
+      .from('user_roles')
+      .select('organization_id')
+      .eq('user_id', userId)
+
+    if (membershipsError) throw membershipsError
+    if (!(await meetsAdminMfa(admin, token ?? '', memberships.map((membership) => membership.organization_id)))) {
+      return jsonResponse({ error: 'Verify with your authenticator app to manage users' }, 403)
+    }
+
+    if (userId === caller.id && action !== 'sign_out') {
+      return jsonResponse({ error: 'You cannot change the status of your own account' }, 400)
+    }
+
+    if (action === 'deactivate' || action === 'reactivate') {
+      const deactivate = action === 'deactivate'
+      const { error: banError } = await admin.auth.admin.updateUserById(userId, {
+        ban_duration: deactivate ? DEACTIVATED_BAN_DURATION : 'none',
+      })
+
+      if (banError) throw banError
+
+      const { error: profileError } = await admin
+        .from('profiles')
+        .update({ is_active: !deactivate, deactivated_at: deactivate ? new Date().toISOString() : null })
+        .eq('id', userId)
+
+      if (profileError) throw profileError
+    }
+
+    if (action === 'deactivate' || action === 'sign_out') {
+      const { error: sessionError } = await admin.rpc('revoke_user_sessions', { _user_id: userId })
+
+      if (sessionError) throw sessionError
+    }
+
+    return jsonResponse({ success: true })
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
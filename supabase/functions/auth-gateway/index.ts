@@ -0,0 +1,301 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getMailProvider } from '../_shared/mailer.ts'
+import { clientIp, secondsUntil } from '../_shared/rateLimit.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface Limit {
+  maxAttempts: number
+  windowSeconds: number
+  blockSeconds: number
+  label: string
+}
+
+// Lockouts after the first double the block time, so these are the shortest blocks
+const LIMITS: Record<string, Limit> = {
+  signIn: { maxAttempts: 5, windowSeconds: 15 * 60, blockSeconds: 15 * 60, label: 'sign in' },
+  signUp: { maxAttempts: 3, windowSeconds: 60 * 60, blockSeconds: 60 * 60, label: 'sign up' },
+  magicLink: { maxAttempts: 3, windowSeconds: 60 * 60, blockSeconds: 60 * 60, label: 'sign-in link' },
+  passwordReset: { maxAttempts: 3, windowSeconds: 60 * 60, blockSeconds: 60 * 60, label: 'password reset' },
+  resendVerification: { maxAttempts: 3, windowSeconds: 60 * 60, blockSeconds: 60 * 60, label: 'verification email' },
+  mfaVerify: { maxAttempts: 5, windowSeconds: 15 * 60, blockSeconds: 15 * 60, label: 'verification' },
+  updatePassword: { maxAttempts: 5, windowSeconds: 15 * 60, blockSeconds: 15 * 60, label: 'password change' },
+}
+
+// Offices and mobile networks put many people behind one address, so an IP gets more room than an account
+const IP_ALLOWANCE = 4
+
+// These act on the signed-in user and are counted against them rather than an email address
+const SESSION_ACTIONS = ['mfaVerify', 'updatePassword']
+
+// Only failures count towards these. The auth hooks in Postgres count them per account and clear the counter
+// on success inside the auth server, so the limit also holds for direct calls to the auth API; here only the
+// IP address is counted for them.
+const HOOKED_ACTIONS = ['signIn', 'mfaVerify']
+
+// Account owners hear about lockouts on these, since they suggest someone is guessing
+const NOTIFY_ACTIONS = ['signIn', 'mfaVerify']
+
+interface ActionResult {
+  ok: boolean
+  status: number
+  body: Record<string, unknown>
+}
+
+// Whose attempts are counted, and how to find their profile for lockout notices
+interface Account {
+  key: string
+  column: 'id' | 'email'
+  value: string
+}
+
+interface RateLimitState {
+  remaining: number
+  retry_after: number
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const success = (body: Record<string, unknown> = {}): ActionResult => ({ ok: true, status: 200, body })
+const failure = (message: string, status = 400): ActionResult => ({ ok: false, status, body: { error: message } })
+
+// Reads back a counter the auth hooks keep, in the shape record_auth_attempt returns
+const readAttemptState = async (admin: SupabaseClient, action: string, identifier: string, maxAttempts: number) => {
+  const { data, error } = await admin
+    .from('auth_rate_limits')
+    .select('attempts, blocked_until')
+    .eq('action', action)
+    .eq('identifier', identifier)
+    .maybeSingle()
+
+  if (error) throw error
+
+  const lockedOut = secondsUntil(data?.blocked_until ?? null) > 0
+  return {
+    remaining: lockedOut ? 0 : Math.max(maxAttempts - (data?.attempts ?? 0), 0),
+    retry_at: lockedOut ? data?.blocked_until ?? null : null,
+    locked_out: lockedOut,
+  }
+}
+
+// Calls the auth API as the signed-in user, for the session actions supabase-js only offers with stored sessions
+const authRequest = async (path: string, token: string, body: unknown, method = 'POST') => {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/auth/v1${path}`, {
+    method,
+    headers: {
+      apikey: Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  return response.ok
+    ? { data, error: null }
+    : { data: null, error: (data.msg ?? data.message ?? data.error_description ?? 'Request failed') as string }
+}
+
+const performAction = async (
+  action: string,
+  params: Record<string, unknown>,
+  context: { auth: SupabaseClient['auth']; email: string; token: string }
+): Promise<ActionResult> => {
+  const { auth, email, token } = context
+  const redirectTo = typeof params.redirect_to === 'string' ? params.redirect_to : undefined
+
+  switch (action) {
+    case 'signIn': {
+      const { data, error } = await auth.signInWithPassword({ email, password: String(params.password ?? '') })
+      return error ? failure(error.message, error.status ?? 400) : success({ session: data.session })
+    }
+    case 'signUp': {
+      const { data, error } = await auth.signUp({
+        email,
+        password: String(params.password ?? ''),
+        options: { emailRedirectTo: redirectTo, data: (params.data ?? {}) as Record<string, unknown> },
+      })
+      return error ? failure(error.message, error.status ?? 400) : success({ session: data.session })
+    }
+    case 'magicLink': {
+      // Only existing accounts get a link; new users still sign up with a password. An unknown address
+      // succeeds like a known one so the reply does not tell which emails have accounts.
+      const { error } = await auth.signInWithOtp({ email, options: { shouldCreateUser: false, emailRedirectTo: redirectTo } })
+      if (error && (error.code === 'otp_disabled' || /signups not allowed/i.test(error.message))) return success()
+      return error ? failure(error.message, error.status ?? 400) : success()
+    }
+    case 'passwordReset': {
+      const { error } = await auth.resetPasswordForEmail(email, { redirectTo })
+      return error ? failure(error.message, error.status ?? 400) : success()
+    }
+    case 'resendVerification': {
+      const { error } = await auth.resend({ type: 'signup', email, options: { emailRedirectTo: redirectTo } })
+      return error ? failure(error.message, error.status ?? 400) : success()
+    }
+    case 'mfaVerify': {
+      const factorId = String(params.factor_id ?? '')
+      const challenge = await authRequest(`/factors/${factorId}/challenge`, token, {})
+      if (challenge.error) return failure(challenge.error)
+
+      // A correct code returns a new aal2 session for the browser to adopt
+      const verify = await authRequest(`/factors/${factorId}/verify`, token, {
+        challenge_id: challenge.data.id,
+        code: String(params.code ?? ''),
+      })
+      return verify.error ? failure(verify.error) : success({ session: verify.data })
+    }
+    case 'updatePassword': {
+      const { error } = await authRequest('/user', token, { password: String(params.password ?? '') }, 'PUT')
+      return error ? failure(error) : success()
+    }
+    default:
+      return failure('Unknown action')
+  }
+}
+
+const notifyLockout = async (admin: SupabaseClient, account: Account, limit: Limit, retryAt: string) => {
+  const { data: profile } = await admin
+    .from('profiles')
+    .select('email')
+    .eq(account.column, account.value)
+    .maybeSingle()
+
+  // Unknown addresses have no owner to tell
+  if (!profile?.email) return
+
+  await getMailProvider().send({
+    to: profile.email,
+    subject: 'Repeated failed attempts on your Seed Track Flow account',
+    text: [
+      `There were repeated failed ${limit.label} attempts on your Seed Track Flow account.`,
+      `Further attempts are blocked until ${new Date(retryAt).toUTCString()}.`,
+      '',
+      'If this was not you, reset your password from the sign in page and turn on two-factor authentication.',
+    ].join('\n'),
+  })
+}
+
+// Rate-limited front door for authentication. Attempts are counted per email address or user and per IP
+// address in Postgres, with longer blocks for repeat lockouts, and the browser only mirrors what this reports.
+// Sign-in and two-factor limits per account are also enforced by auth hooks for callers that skip this function.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    const { action, ...params } = await req.json()
+    const limit = LIMITS[action]
+
+    if (!limit) {
+      return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    const ip = clientIp(req)
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+    let email = ''
+    let account: Account
+
+    if (SESSION_ACTIONS.includes(action)) {
+      const { data: { user: caller }, error: callerError } = await admin.auth.getUser(token)
+
+      if (callerError || !caller) {
+        return jsonResponse({ error: 'Not signed in' }, 401)
+      }
+      account = { key: `user:${caller.id}`, column: 'id', value: caller.id }
+    } else {
+      email = typeof params.email === 'string' ? params.email.trim().toLowerCase() : ''
+
+      if (!email || email.length > 254) {
+        return jsonResponse({ error: 'Enter a valid email address' }, 400)
+      }
+      account = { key: `email:${email}`, column: 'email', value: email }
+    }
+
+    const ipKey = `ip:${ip}`
+    const { data: blocks, error: blocksError } = await admin
+      .from('auth_rate_limits')
+      .select('blocked_until')
+      .eq('action', action)
+      .in('identifier', [account.key, ipKey])
+      .gt('blocked_until', new Date().toISOString())
+
+    if (blocksError) throw blocksError
+
+    if (blocks.length > 0) {
+      const retryAfter = Math.max(...blocks.map((block) => secondsUntil(block.blocked_until)))
+      const minutes = Math.ceil(retryAfter / 60)
+      return jsonResponse({
+        error: `Too many ${limit.label} attempts. Please try again in ${minutes} minutes.`,
+        rate_limit: { remaining: 0, retry_after: retryAfter } satisfies RateLimitState,
+      }, 429)
+    }
+
+    // Passes the caller's address on so the auth server's own limits see them rather than this function
+    const { auth } = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { auth: { persistSession: false, autoRefreshToken: false }, global: { headers: { 'X-Forwarded-For': ip } } }
+    )
+    const result = await performAction(action, params, { auth, email, token })
+    let rateLimit: RateLimitState = { remaining: limit.maxAttempts, retry_after: 0 }
+
+    // One good password must not reset an address that is guessing at others, so successes count nothing here
+    if (!(result.ok && HOOKED_ACTIONS.includes(action))) {
+      const hooked = HOOKED_ACTIONS.includes(action)
+      const counted: [string, number][] = hooked
+        ? [[ipKey, limit.maxAttempts * IP_ALLOWANCE]]
+        : [[account.key, limit.maxAttempts], [ipKey, limit.maxAttempts * IP_ALLOWANCE]]
+      const states = []
+      for (const [identifier, maxAttempts] of counted) {
+        const { data, error: recordError } = await admin.rpc('record_auth_attempt', {
+          _action: action,
+          _identifier: identifier,
+          _max_attempts: maxAttempts,
+          _window_seconds: limit.windowSeconds,
+          _block_seconds: limit.blockSeconds,
+        })
+
+        if (recordError) throw recordError
+        states.push({ identifier, ...data[0] })
+      }
+
+      if (hooked) {
+        // The account was not blocked before the attempt, so a block now means this attempt caused it
+        states.push({ identifier: account.key, ...(await readAttemptState(admin, action, account.key, limit.maxAttempts)) })
+      }
+
+      rateLimit = {
+        remaining: Math.min(...states.map((state) => state.remaining)),
+        retry_after: Math.max(...states.map((state) => secondsUntil(state.retry_at))),
+      }
+
+      const accountLockout = states.find((state) => state.identifier === account.key && state.locked_out)
+      if (accountLockout && NOTIFY_ACTIONS.includes(action)) {
+        // A failed notification must not hide the lockout from the caller
+        await notifyLockout(admin, account, limit, accountLockout.retry_at).catch((error) =>
+          console.error('Error sending lockout notification:', error)
+        )
+      }
+    }
+
+    return jsonResponse({ ...result.body, rate_limit: rateLimit }, result.status)
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
@@ -0,0 +1,117 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { clientIp, secondsUntil } from '../_shared/rateLimit.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Backup codes are short, so failed guesses are limited like two-factor codes in auth-gateway
+const RECOVERY_ACTION = 'mfaRecovery'
+const MAX_ATTEMPTS = 5
+const WINDOW_SECONDS = 15 * 60
+const BLOCK_SECONDS = 15 * 60
+const IP_ALLOWANCE = 4
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// A backup code stands in for a lost authenticator: it removes the user's factors so they
+// can finish signing in with their password and enroll a new device
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    // Identify the caller from their own token; a password-only (aal1) session is enough here
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user: caller }, error: callerError } = await admin.auth.getUser(token)
+
+    if (callerError || !caller) {
+      return jsonResponse({ error: 'Not signed in' }, 401)
+    }
+
+    const { code } = await req.json()
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return jsonResponse({ error: 'Enter a backup code' }, 400)
+    }
+
+    const userKey = `user:${caller.id}`
+    const ipKey = `ip:${clientIp(req)}`
+    const { data: blocks, error: blocksError } = await admin
+      .from('auth_rate_limits')
+      .select('blocked_until')
+      .eq('action', RECOVERY_ACTION)
+      .in('identifier', [userKey, ipKey])
+      .gt('blocked_until', new Date().toISOString())
+
+    if (blocksError) throw blocksError
+
+    if (blocks.length > 0) {
+      const minutes = Math.ceil(Math.max(...blocks.map((block) => secondsUntil(block.blocked_until))) / 60)
+      return jsonResponse({ error: `Too many backup code attempts. Please try again in ${minutes} minutes.` }, 429)
+    }
+
+    const { data: redeemed, error: redeemError } = await admin.rpc('redeem_mfa_backup_code', {
+      _user_id: caller.id,
+      _code: code,
+    })
+
+    if (redeemError) throw redeemError
+    if (!redeemed) {
+      let lockedOut = false
+      for (const [identifier, maxAttempts] of [[userKey, MAX_ATTEMPTS], [ipKey, MAX_ATTEMPTS * IP_ALLOWANCE]] as const) {
+        const { data, error: recordError } = await admin.rpc('record_auth_attempt', {
+          _action: RECOVERY_ACTION,
+          _identifier: identifier,
+          _max_attempts: maxAttempts,
+          _window_seconds: WINDOW_SECONDS,
+          _block_seconds: BLOCK_SECONDS,
+        })
+
+        if (recordError) throw recordError
+        lockedOut ||= data[0].locked_out
+      }
+
+      return lockedOut
+        ? jsonResponse({ error: 'Too many backup code attempts. Please try again later.' }, 429)
+        : jsonResponse({ error: 'That backup code is not valid or was already used' }, 400)
+    }
+
+    // Only the user is cleared; one good code must not reset an address that is guessing at others
+    const { error: clearError } = await admin
+      .from('auth_rate_limits')
+      .delete()
+      .eq('action', RECOVERY_ACTION)
+      .eq('identifier', userKey)
+
+    if (clearError) throw clearError
+
+    const { data: factors, error: factorsError } = await admin.auth.admin.mfa.listFactors({ userId: caller.id })
+
+    if (factorsError) throw factorsError
+
+    for (const factor of factors.factors) {
+      const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({ userId: caller.id, id: factor.id })
+
+      if (deleteError) throw deleteError
+    }
+
+    return jsonResponse({ success: true })
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
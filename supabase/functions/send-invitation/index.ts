@@ -0,0 +1,130 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getMailProvider } from '../_shared/mailer.ts'
+import { meetsAdminMfa } from '../_shared/mfa.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const INVITABLE_ROLES = ['farmer', 'transporter']
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+?[0-9]{7,15}$/
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    // Identify the caller from their own token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user: caller }, error: callerError } = await admin.auth.getUser(token)
+
+    if (callerError || !caller) {
+      return jsonResponse({ error: 'Not signed in' }, 401)
+    }
+
+    const { organization_id: organizationId, role, email: rawEmail, phone: rawPhone } = await req.json()
+    const email = typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : ''
+    // Phone numbers are stored as digits with an optional leading +
+    const phone = typeof rawPhone === 'string' ? rawPhone.replace(/[\s()-]/g, '') : ''
+
+    if (typeof organizationId !== 'string' || !INVITABLE_ROLES.includes(role)) {
+      return jsonResponse({ error: 'Unknown organization or role' }, 400)
+    }
+    if (!!email === !!phone) {
+      return jsonResponse({ error: 'Invite either an email address or a phone number' }, 400)
+    }
+    if (email && (email.length > 254 || !EMAIL_PATTERN.test(email))) {
+      return jsonResponse({ error: 'Enter a valid email address' }, 400)
+    }
+    if (phone && !PHONE_PATTERN.test(phone)) {
+      return jsonResponse({ error: 'Enter a valid phone number' }, 400)
+    }
+
+    const { data: isAdmin, error: roleError } = await admin.rpc('is_org_admin', {
+      _user_id: caller.id,
+      _organization_id: organizationId,
+    })
+
+    if (roleError) throw roleError
+    if (!isAdmin) {
+      return jsonResponse({ error: 'Only administrators of this organization can invite members' }, 403)
+    }
+
+    // Invitations grant roles, so they follow the organization's two-factor requirement like other role changes
+    if (!(await meetsAdminMfa(admin, token ?? '', [organizationId]))) {
+      return jsonResponse({ error: 'Verify with your authenticator app to invite members' }, 403)
+    }
+
+    // Inviting the same contact again replaces the earlier link
+    const { error: revokeError } = await admin
+      .from('invitations')
+      .update({ status: 'revoked' })
+      .eq('organization_id', organizationId)
+      .eq('status', 'pending')
+      .eq(email ? 'email' : 'phone', email || phone)
+
+    if (revokeError) throw revokeError
+
+    const { data: invitation, error: insertError } = await admin
+      .from('invitations')
+      .insert({
+        organization_id: organizationId,
+        email: email || null,
+        phone: phone || null,
+        role,
+        invited_by: caller.id,
+      })
+      .select('id, token, expires_at, organizations(name)')
+      .single()
+
+    if (insertError) throw insertError
+
+    const siteUrl = Deno.env.get('SITE_URL') ?? req.headers.get('origin') ?? ''
+    const inviteUrl = `${siteUrl}/invite/${invitation.token}`
+    const organizationName = invitation.organizations?.name ?? 'Seed Track Flow'
+
+    // Phone invitations have no delivery channel yet, and the invitation already exists when an email cannot be
+    // sent; either way the administrator gets the link to share themselves
+    let delivered = false
+    if (email) {
+      try {
+        await getMailProvider().send({
+          to: email,
+          subject: `You're invited to join ${organizationName}`,
+          text: [
+            `You have been invited to join ${organizationName} on Seed Track Flow as a ${role}.`,
+            '',
+            `Accept the invitation: ${inviteUrl}`,
+            '',
+            `This link expires on ${new Date(invitation.expires_at).toUTCString()}.`,
+          ].join('\n'),
+        })
+        delivered = true
+      } catch (error) {
+        console.error('Error sending invitation email:', error)
+      }
+    }
+
+    return jsonResponse({ invitation_id: invitation.id, invite_url: inviteUrl, delivered })
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
@@ -0,0 +1,138 @@
+-- Create enum for the shipment lifecycle
+CREATE TYPE public.shipment_status AS ENUM (
+  'draft',
+  'pending',
+  'assigned',
+  'picked-up',
+  'in-transit',
+  'delivered',
+  'completed',
+  'cancelled',
+  'rejected'
+);
+
+-- Normalize legacy free-text statuses before converting the column
+UPDATE public.shipments
+SET status = CASE
+  WHEN lower(trim(status)) IN ('in transit', 'in_transit', 'intransit') THEN 'in-transit'
+  WHEN lower(trim(status)) IN ('picked up', 'picked_up', 'pickedup') THEN 'picked-up'
+  WHEN lower(trim(status)) IN ('complete', 'done') THEN 'completed'
+  WHEN lower(trim(status)) IN ('canceled') THEN 'cancelled'
+  WHEN lower(trim(status)) IN (
+    'draft', 'pending', 'assigned', 'picked-up', 'in-transit',
+    'delivered', 'completed', 'cancelled', 'rejected'
+  ) THEN lower(trim(status))
+  ELSE 'pending'
+END;
+
+ALTER TABLE public.shipments ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.shipments
+  ALTER COLUMN status TYPE public.shipment_status USING status::public.shipment_status;
+ALTER TABLE public.shipments ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE public.shipments ALTER COLUMN status SET NOT NULL;
+
+-- Allowed status transitions per role
+CREATE TABLE public.shipment_status_transitions (
+    from_status public.shipment_status NOT NULL,
+    to_status public.shipment_status NOT NULL,
+    role app_role NOT NULL,
+    PRIMARY KEY (from_status, to_status, role)
+);
+
+ALTER TABLE public.shipment_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view status transitions"
+ON public.shipment_status_transitions
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Keep in sync with SHIPMENT_TRANSITIONS in src/lib/shipmentStatus.ts
+INSERT INTO public.shipment_status_transitions (from_status, to_status, role) VALUES
+  -- Farmers prepare, submit, hand over and close their own shipments
+  ('draft', 'pending', 'farmer'),
+  ('draft', 'cancelled', 'farmer'),
+  ('pending', 'draft', 'farmer'),
+  ('pending', 'assigned', 'farmer'),
+  ('pending', 'cancelled', 'farmer'),
+  ('assigned', 'pending', 'farmer'),
+  ('assigned', 'cancelled', 'farmer'),
+  ('delivered', 'completed', 'farmer'),
+  ('rejected', 'draft', 'farmer'),
+  -- Transporters move the load once it has been assigned to them
+  ('assigned', 'picked-up', 'transporter'),
+  ('picked-up', 'in-transit', 'transporter'),
+  ('in-transit', 'delivered', 'transporter'),
+  -- Administrators can drive every step and reject submissions
+  ('draft', 'pending', 'administrator'),
+  ('draft', 'cancelled', 'administrator'),
+  ('pending', 'draft', 'administrator'),
+  ('pending', 'assigned', 'administrator'),
+  ('pending', 'cancelled', 'administrator'),
+  ('pending', 'rejected', 'administrator'),
+  ('assigned', 'pending', 'administrator'),
+  ('assigned', 'picked-up', 'administrator'),
+  ('assigned', 'cancelled', 'administrator'),
+  ('picked-up', 'in-transit', 'administrator'),
+  ('picked-up', 'cancelled', 'administrator'),
+  ('in-transit', 'delivered', 'administrator'),
+  ('delivered', 'completed', 'administrator'),
+  ('rejected', 'draft', 'administrator');
+
+-- Check whether a user holds a role that allows the given transition
+CREATE OR REPLACE FUNCTION public.can_transition_shipment(
+  _user_id uuid,
+  _from public.shipment_status,
+  _to public.shipment_status
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.shipment_status_transitions t
+    JOIN public.user_roles ur ON ur.role = t.role
+    WHERE ur.user_id = _user_id
+      AND t.from_status = _from
+      AND t.to_status = _to
+  )
+$$;
+
+-- Enforce the lifecycle on every insert and status change
+CREATE OR REPLACE FUNCTION public.enforce_shipment_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role and migrations run without an end user
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'pending') THEN
+      RAISE EXCEPTION 'New shipments must start as draft or pending, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT public.can_transition_shipment(auth.uid(), OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transition from % to % is not allowed for your role', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_shipment_status_transition
+BEFORE INSERT OR UPDATE OF status ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_shipment_status_transition();
@@ -0,0 +1,233 @@
+-- Create enum for a transporter's response to an assignment
+CREATE TYPE public.assignment_status AS ENUM ('offered', 'accepted');
+
+-- Add transporter assignment columns to shipments
+ALTER TABLE public.shipments
+  ADD COLUMN assigned_transporter_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN assignment_status public.assignment_status,
+  ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_shipments_assigned_transporter_id
+  ON public.shipments (assigned_transporter_id);
+
+-- Assigned and later statuses always need a transporter
+ALTER TABLE public.shipments
+  ADD CONSTRAINT shipments_assigned_requires_transporter
+  CHECK (
+    status NOT IN ('assigned', 'picked-up', 'in-transit', 'delivered')
+    OR assigned_transporter_id IS NOT NULL
+  );
+
+-- Transporters may hand an offered load back to the pool
+INSERT INTO public.shipment_status_transitions (from_status, to_status, role) VALUES
+  ('assigned', 'pending', 'transporter');
+
+-- Clear the assignment whenever a shipment returns to the pool
+CREATE OR REPLACE FUNCTION public.sync_shipment_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('draft', 'pending') THEN
+    NEW.assigned_transporter_id := NULL;
+    NEW.assignment_status := NULL;
+    NEW.assigned_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_shipment_assignment
+BEFORE UPDATE OF status ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_shipment_assignment();
+
+-- The assignment only changes through assign_shipment_transporter and
+-- respond_to_shipment_assignment, which run as their owner, so owners cannot
+-- pick a transporter or accept on their behalf with a direct update
+CREATE OR REPLACE FUNCTION public.protect_shipment_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _old public.shipments%ROWTYPE;
+  _returning_to_pool boolean := NEW.status IN ('draft', 'pending');
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _old := OLD;
+  END IF;
+
+  -- Clearing the assignment is allowed on the way back to the pool, as sync_shipment_assignment does
+  IF current_user = 'authenticated' AND (
+    (NEW.assigned_transporter_id IS DISTINCT FROM _old.assigned_transporter_id
+      AND (NEW.assigned_transporter_id IS NOT NULL OR NOT _returning_to_pool)) OR
+    (NEW.assignment_status IS DISTINCT FROM _old.assignment_status
+      AND (NEW.assignment_status IS NOT NULL OR NOT _returning_to_pool)) OR
+    (NEW.assigned_at IS DISTINCT FROM _old.assigned_at
+      AND (NEW.assigned_at IS NOT NULL OR NOT _returning_to_pool))
+  ) THEN
+    RAISE EXCEPTION 'Transporters are assigned and accept loads through the assignment actions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_shipment_assignment
+BEFORE INSERT OR UPDATE ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_shipment_assignment();
+
+-- Transporters may only move the status of loads they have accepted.
+-- Runs as the invoker so the assignment functions below, which execute
+-- as their owner, can still update the assignment columns.
+CREATE OR REPLACE FUNCTION public.restrict_transporter_shipment_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user <> 'authenticated'
+     OR auth.uid() IS NULL
+     OR auth.uid() = OLD.user_id
+     OR public.has_role(auth.uid(), 'administrator') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'status' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'updated_at') THEN
+    RAISE EXCEPTION 'Transporters can only update the status of assigned shipments'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.status = 'assigned' AND NEW.status = 'picked-up'
+     AND OLD.assignment_status IS DISTINCT FROM 'accepted' THEN
+    RAISE EXCEPTION 'Accept the assignment before marking the shipment as picked up'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_transporter_shipment_updates
+BEFORE UPDATE ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.restrict_transporter_shipment_updates();
+
+-- Assigned transporters can see and progress their shipments
+DROP POLICY IF EXISTS "Farmers and transporters can view their own shipments" ON public.shipments;
+
+CREATE POLICY "Farmers and transporters can view their own shipments"
+ON public.shipments
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = user_id OR
+  auth.uid() = assigned_transporter_id OR
+  public.has_role(auth.uid(), 'administrator')
+);
+
+CREATE POLICY "Transporters can update assigned shipments"
+ON public.shipments
+FOR UPDATE
+TO authenticated
+USING (
+  auth.uid() = assigned_transporter_id AND
+  public.has_role(auth.uid(), 'transporter')
+);
+
+-- List transporters that farmers and administrators can assign loads to
+CREATE OR REPLACE FUNCTION public.list_transporters()
+RETURNS TABLE (id uuid, full_name text, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.full_name, p.email
+  FROM public.profiles p
+  JOIN public.user_roles ur ON ur.user_id = p.id
+  WHERE ur.role = 'transporter'
+    AND (public.has_role(auth.uid(), 'farmer') OR public.has_role(auth.uid(), 'administrator'))
+  ORDER BY p.full_name
+$$;
+
+-- Offer a pending shipment to a transporter
+CREATE OR REPLACE FUNCTION public.assign_shipment_transporter(_shipment_id uuid, _transporter_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shipment public.shipments%ROWTYPE;
+BEGIN
+  SELECT * INTO _shipment FROM public.shipments WHERE id = _shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT (
+    (_shipment.user_id = auth.uid() AND public.has_role(auth.uid(), 'farmer')) OR
+    public.has_role(auth.uid(), 'administrator')
+  ) THEN
+    RAISE EXCEPTION 'You cannot assign this shipment' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- A load already accepted by its transporter is not silently offered to someone else
+  IF NOT (
+    _shipment.status = 'pending' OR
+    (_shipment.status = 'assigned' AND _shipment.assignment_status IS DISTINCT FROM 'accepted')
+  ) THEN
+    RAISE EXCEPTION 'Only pending shipments or unaccepted offers can be assigned' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.has_role(_transporter_id, 'transporter') THEN
+    RAISE EXCEPTION 'Selected user is not a transporter' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.shipments
+  SET status = 'assigned',
+      assigned_transporter_id = _transporter_id,
+      assignment_status = 'offered',
+      assigned_at = now()
+  WHERE id = _shipment_id;
+END;
+$$;
+
+-- Let the assigned transporter accept or decline an offered shipment
+CREATE OR REPLACE FUNCTION public.respond_to_shipment_assignment(_shipment_id uuid, _accept boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shipment public.shipments%ROWTYPE;
+BEGIN
+  SELECT * INTO _shipment FROM public.shipments WHERE id = _shipment_id;
+
+  IF NOT FOUND OR _shipment.assigned_transporter_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Shipment is not assigned to you' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _shipment.status <> 'assigned' OR _shipment.assignment_status <> 'offered' THEN
+    RAISE EXCEPTION 'This assignment is no longer awaiting a response' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.shipments
+    SET assignment_status = 'accepted'
+    WHERE id = _shipment_id;
+  ELSE
+    UPDATE public.shipments
+    SET status = 'pending'
+    WHERE id = _shipment_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,164 @@
+-- Create enum for shipment event types
+CREATE TYPE public.shipment_event_type AS ENUM (
+  'created',
+  'status_changed',
+  'assignment_changed',
+  'location_changed'
+);
+
+-- Create append-only shipment event history
+CREATE TABLE public.shipment_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+    event_type public.shipment_event_type NOT NULL,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_name TEXT,
+    old_value JSONB,
+    new_value JSONB,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shipment_events_shipment_id_created_at
+  ON public.shipment_events (shipment_id, created_at DESC);
+
+CREATE INDEX idx_shipment_events_created_at
+  ON public.shipment_events (created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.shipment_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are visible to anyone who can see the shipment
+CREATE POLICY "Users can view events of visible shipments"
+ON public.shipment_events
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.shipments s
+    WHERE s.id = shipment_id
+  )
+);
+
+-- No insert, update or delete policies: rows are only written by the trigger below
+REVOKE INSERT, UPDATE, DELETE ON public.shipment_events FROM anon, authenticated;
+
+-- Record shipment changes as events
+CREATE OR REPLACE FUNCTION public.log_shipment_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_name TEXT;
+  _note TEXT := NULLIF(current_setting('app.shipment_event_note', true), '');
+BEGIN
+  SELECT COALESCE(NULLIF(full_name, ''), email) INTO _actor_name
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.shipment_events (shipment_id, event_type, actor_id, actor_name, new_value, note)
+    VALUES (NEW.id, 'created', auth.uid(), _actor_name, jsonb_build_object('status', NEW.status), _note);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.shipment_events (shipment_id, event_type, actor_id, actor_name, old_value, new_value, note)
+    VALUES (
+      NEW.id, 'status_changed', auth.uid(), _actor_name,
+      jsonb_build_object('status', OLD.status),
+      jsonb_build_object('status', NEW.status),
+      _note
+    );
+  END IF;
+
+  IF NEW.assigned_transporter_id IS DISTINCT FROM OLD.assigned_transporter_id
+     OR NEW.assignment_status IS DISTINCT FROM OLD.assignment_status THEN
+    INSERT INTO public.shipment_events (shipment_id, event_type, actor_id, actor_name, old_value, new_value, note)
+    VALUES (
+      NEW.id, 'assignment_changed', auth.uid(), _actor_name,
+      jsonb_build_object(
+        'transporter_id', OLD.assigned_transporter_id,
+        'transporter_name', (SELECT COALESCE(NULLIF(full_name, ''), email) FROM public.profiles WHERE id = OLD.assigned_transporter_id),
+        'assignment_status', OLD.assignment_status
+      ),
+      jsonb_build_object(
+        'transporter_id', NEW.assigned_transporter_id,
+        'transporter_name', (SELECT COALESCE(NULLIF(full_name, ''), email) FROM public.profiles WHERE id = NEW.assigned_transporter_id),
+        'assignment_status', NEW.assignment_status
+      ),
+      _note
+    );
+  END IF;
+
+  IF NEW.origin_address IS DISTINCT FROM OLD.origin_address
+     OR NEW.origin_lat IS DISTINCT FROM OLD.origin_lat
+     OR NEW.origin_lng IS DISTINCT FROM OLD.origin_lng
+     OR NEW.destination_address IS DISTINCT FROM OLD.destination_address
+     OR NEW.destination_lat IS DISTINCT FROM OLD.destination_lat
+     OR NEW.destination_lng IS DISTINCT FROM OLD.destination_lng THEN
+    INSERT INTO public.shipment_events (shipment_id, event_type, actor_id, actor_name, old_value, new_value, note)
+    VALUES (
+      NEW.id, 'location_changed', auth.uid(), _actor_name,
+      jsonb_build_object(
+        'origin_address', OLD.origin_address,
+        'origin_lat', OLD.origin_lat,
+        'origin_lng', OLD.origin_lng,
+        'destination_address', OLD.destination_address,
+        'destination_lat', OLD.destination_lat,
+        'destination_lng', OLD.destination_lng
+      ),
+      jsonb_build_object(
+        'origin_address', NEW.origin_address,
+        'origin_lat', NEW.origin_lat,
+        'origin_lng', NEW.origin_lng,
+        'destination_address', NEW.destination_address,
+        'destination_lat', NEW.destination_lat,
+        'destination_lng', NEW.destination_lng
+      ),
+      _note
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_shipment_event
+AFTER INSERT OR UPDATE ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.log_shipment_event();
+
+-- Change a shipment's status with an optional note recorded on the event
+CREATE OR REPLACE FUNCTION public.update_shipment_status(
+  _shipment_id uuid,
+  _status public.shipment_status,
+  _note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.shipment_event_note', COALESCE(_note, ''), true);
+
+  UPDATE public.shipments
+  SET status = _status
+  WHERE id = _shipment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found or not editable' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.shipment_event_note', '', true);
+END;
+$$;
+
+-- Backfill a creation event for existing shipments
+INSERT INTO public.shipment_events (shipment_id, event_type, actor_id, actor_name, new_value, created_at)
+SELECT s.id, 'created', s.user_id, COALESCE(NULLIF(p.full_name, ''), p.email), jsonb_build_object('status', s.status), s.created_at
+FROM public.shipments s
+LEFT JOIN public.profiles p ON p.id = s.user_id;
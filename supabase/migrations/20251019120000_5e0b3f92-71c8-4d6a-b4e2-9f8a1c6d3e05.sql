@@ -0,0 +1,32 @@
+-- Resolve the people involved in a shipment the caller can see
+CREATE OR REPLACE FUNCTION public.get_shipment_parties(_shipment_id uuid)
+RETURNS TABLE (
+  owner_id uuid,
+  owner_name text,
+  owner_email text,
+  transporter_id uuid,
+  transporter_name text,
+  transporter_email text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.user_id,
+    owner.full_name,
+    owner.email,
+    s.assigned_transporter_id,
+    transporter.full_name,
+    transporter.email
+  FROM public.shipments s
+  LEFT JOIN public.profiles owner ON owner.id = s.user_id
+  LEFT JOIN public.profiles transporter ON transporter.id = s.assigned_transporter_id
+  WHERE s.id = _shipment_id
+    AND (
+      auth.uid() = s.user_id OR
+      auth.uid() = s.assigned_transporter_id OR
+      public.has_role(auth.uid(), 'administrator')
+    )
+$$;
@@ -0,0 +1,57 @@
+-- Keep the reason a shipment was cancelled alongside the row
+ALTER TABLE public.shipments ADD COLUMN cancellation_reason TEXT;
+
+-- Shipment details are frozen once it has left the pending status
+CREATE OR REPLACE FUNCTION public.prevent_locked_shipment_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status NOT IN ('draft', 'pending') AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.origin_address IS DISTINCT FROM OLD.origin_address OR
+    NEW.origin_lat IS DISTINCT FROM OLD.origin_lat OR
+    NEW.origin_lng IS DISTINCT FROM OLD.origin_lng OR
+    NEW.destination_address IS DISTINCT FROM OLD.destination_address OR
+    NEW.destination_lat IS DISTINCT FROM OLD.destination_lat OR
+    NEW.destination_lng IS DISTINCT FROM OLD.destination_lng
+  ) THEN
+    RAISE EXCEPTION 'Shipments can only be edited while draft or pending'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_locked_shipment_edits
+BEFORE UPDATE ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_locked_shipment_edits();
+
+-- Cancel a shipment, recording the reason on the row and in its history
+CREATE OR REPLACE FUNCTION public.cancel_shipment(_shipment_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.shipment_event_note', trim(_reason), true);
+
+  UPDATE public.shipments
+  SET status = 'cancelled',
+      cancellation_reason = trim(_reason)
+  WHERE id = _shipment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found or not editable' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.shipment_event_note', '', true);
+END;
+$$;
@@ -0,0 +1,109 @@
+-- Create managed list of commodities (oil seed types)
+CREATE TABLE public.commodities (
+    code TEXT PRIMARY KEY CHECK (code ~ '^[a-z][a-z0-9-]*$'),
+    name TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.commodities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view commodities"
+ON public.commodities
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Administrators can insert commodities"
+ON public.commodities
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'administrator'));
+
+CREATE POLICY "Administrators can update commodities"
+ON public.commodities
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'administrator'));
+
+CREATE POLICY "Administrators can delete commodities"
+ON public.commodities
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'administrator'));
+
+CREATE TRIGGER update_commodities_updated_at
+BEFORE UPDATE ON public.commodities
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.commodities (code, name) VALUES
+  ('groundnut', 'Groundnut'),
+  ('mustard', 'Mustard / Rapeseed'),
+  ('soybean', 'Soybean'),
+  ('sunflower', 'Sunflower'),
+  ('sesame', 'Sesame'),
+  ('castor', 'Castor'),
+  ('linseed', 'Linseed'),
+  ('safflower', 'Safflower'),
+  ('niger', 'Niger Seed');
+
+-- Create enum for weight units
+CREATE TYPE public.weight_unit AS ENUM ('kg', 'quintal', 'tonne');
+
+-- Convert a weight to kilograms
+CREATE OR REPLACE FUNCTION public.weight_to_kg(_weight numeric, _unit public.weight_unit)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _unit::text
+    WHEN 'kg' THEN _weight
+    WHEN 'quintal' THEN _weight * 100
+    WHEN 'tonne' THEN _weight * 1000
+  END
+$$;
+
+-- Add structured cargo details to shipments
+ALTER TABLE public.shipments
+  ADD COLUMN commodity_code TEXT REFERENCES public.commodities(code),
+  ADD COLUMN net_weight NUMERIC(12, 3) CHECK (net_weight > 0),
+  ADD COLUMN weight_unit public.weight_unit NOT NULL DEFAULT 'kg',
+  ADD COLUMN net_weight_kg NUMERIC(15, 3) GENERATED ALWAYS AS (public.weight_to_kg(net_weight, weight_unit)) STORED,
+  ADD COLUMN bag_count INTEGER CHECK (bag_count >= 0),
+  ADD COLUMN moisture_pct NUMERIC(5, 2) CHECK (moisture_pct >= 0 AND moisture_pct <= 100),
+  ADD COLUMN oil_content_pct NUMERIC(5, 2) CHECK (oil_content_pct >= 0 AND oil_content_pct <= 100);
+
+CREATE INDEX idx_shipments_commodity_code ON public.shipments (commodity_code);
+
+-- Cargo details are frozen together with the rest of the shipment
+CREATE OR REPLACE FUNCTION public.prevent_locked_shipment_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status NOT IN ('draft', 'pending') AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.origin_address IS DISTINCT FROM OLD.origin_address OR
+    NEW.origin_lat IS DISTINCT FROM OLD.origin_lat OR
+    NEW.origin_lng IS DISTINCT FROM OLD.origin_lng OR
+    NEW.destination_address IS DISTINCT FROM OLD.destination_address OR
+    NEW.destination_lat IS DISTINCT FROM OLD.destination_lat OR
+    NEW.destination_lng IS DISTINCT FROM OLD.destination_lng OR
+    NEW.commodity_code IS DISTINCT FROM OLD.commodity_code OR
+    NEW.net_weight IS DISTINCT FROM OLD.net_weight OR
+    NEW.weight_unit IS DISTINCT FROM OLD.weight_unit OR
+    NEW.bag_count IS DISTINCT FROM OLD.bag_count OR
+    NEW.moisture_pct IS DISTINCT FROM OLD.moisture_pct OR
+    NEW.oil_content_pct IS DISTINCT FROM OLD.oil_content_pct
+  ) THEN
+    RAISE EXCEPTION 'Shipments can only be edited while draft or pending'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
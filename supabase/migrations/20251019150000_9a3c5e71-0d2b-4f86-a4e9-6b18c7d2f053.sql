@@ -0,0 +1,272 @@
+-- Create warehouses that hold seed stock
+CREATE TABLE public.warehouses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    location TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.warehouses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Administrators can view warehouses"
+ON public.warehouses
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'administrator'));
+
+CREATE POLICY "Administrators can insert warehouses"
+ON public.warehouses
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'administrator'));
+
+CREATE POLICY "Administrators can update warehouses"
+ON public.warehouses
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'administrator'));
+
+CREATE TRIGGER update_warehouses_updated_at
+BEFORE UPDATE ON public.warehouses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stock balance per warehouse and seed type, maintained from the movement ledger
+CREATE TABLE public.inventory_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+    commodity_code TEXT NOT NULL REFERENCES public.commodities(code),
+    quantity_kg NUMERIC(15, 3) NOT NULL DEFAULT 0 CHECK (quantity_kg >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (warehouse_id, commodity_code)
+);
+
+ALTER TABLE public.inventory_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Administrators can view inventory items"
+ON public.inventory_items
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'administrator'));
+
+CREATE TRIGGER update_inventory_items_updated_at
+BEFORE UPDATE ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create enum for stock movement types
+CREATE TYPE public.stock_movement_type AS ENUM (
+  'receipt',
+  'adjustment',
+  'transfer_in',
+  'transfer_out'
+);
+
+-- Append-only stock ledger; quantities are signed (negative leaves the warehouse)
+CREATE TABLE public.stock_movements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    inventory_item_id UUID NOT NULL REFERENCES public.inventory_items(id),
+    movement_type public.stock_movement_type NOT NULL,
+    quantity NUMERIC(12, 3) NOT NULL CHECK (quantity <> 0),
+    unit public.weight_unit NOT NULL,
+    quantity_kg NUMERIC(15, 3) GENERATED ALWAYS AS (public.weight_to_kg(quantity, unit)) STORED,
+    transfer_id UUID,
+    note TEXT,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_movements_inventory_item_id_created_at
+  ON public.stock_movements (inventory_item_id, created_at DESC);
+
+CREATE INDEX idx_stock_movements_created_at
+  ON public.stock_movements (created_at DESC);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Administrators can view stock movements"
+ON public.stock_movements
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'administrator'));
+
+-- Balances and movements are only written by the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.inventory_items FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.stock_movements FROM anon, authenticated;
+
+-- Post each movement onto its item balance
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance NUMERIC;
+BEGIN
+  UPDATE public.inventory_items
+  SET quantity_kg = quantity_kg + NEW.quantity_kg
+  WHERE id = NEW.inventory_item_id
+  RETURNING quantity_kg INTO _balance;
+
+  IF _balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for this movement' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_stock_movement
+AFTER INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_stock_movement();
+
+-- Find or create the balance row for a warehouse and seed type
+CREATE OR REPLACE FUNCTION public.ensure_inventory_item(_warehouse_id uuid, _commodity_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item_id uuid;
+BEGIN
+  INSERT INTO public.inventory_items (warehouse_id, commodity_code)
+  VALUES (_warehouse_id, _commodity_code)
+  ON CONFLICT (warehouse_id, commodity_code) DO NOTHING;
+
+  SELECT id INTO _item_id
+  FROM public.inventory_items
+  WHERE warehouse_id = _warehouse_id AND commodity_code = _commodity_code;
+
+  RETURN _item_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_inventory_item(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Receive stock into a warehouse
+CREATE OR REPLACE FUNCTION public.receive_stock(
+  _warehouse_id uuid,
+  _commodity_code text,
+  _quantity numeric,
+  _unit public.weight_unit,
+  _note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'administrator') THEN
+    RAISE EXCEPTION 'Only administrators can manage inventory' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.warehouses WHERE id = _warehouse_id AND is_active) THEN
+    RAISE EXCEPTION 'Warehouse not found or inactive' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  _item_id := public.ensure_inventory_item(_warehouse_id, _commodity_code);
+
+  INSERT INTO public.stock_movements (inventory_item_id, movement_type, quantity, unit, note, actor_id)
+  VALUES (_item_id, 'receipt', _quantity, _unit, NULLIF(trim(_note), ''), auth.uid());
+
+  RETURN _item_id;
+END;
+$$;
+
+-- Correct a balance after a stock count; a negative quantity removes stock
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  _inventory_item_id uuid,
+  _quantity numeric,
+  _unit public.weight_unit,
+  _note text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'administrator') THEN
+    RAISE EXCEPTION 'Only administrators can manage inventory' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NULLIF(trim(_note), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE id = _inventory_item_id) THEN
+    RAISE EXCEPTION 'Inventory item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.stock_movements (inventory_item_id, movement_type, quantity, unit, note, actor_id)
+  VALUES (_inventory_item_id, 'adjustment', _quantity, _unit, trim(_note), auth.uid());
+END;
+$$;
+
+-- Move stock between warehouses as a linked pair of movements
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _inventory_item_id uuid,
+  _to_warehouse_id uuid,
+  _quantity numeric,
+  _unit public.weight_unit,
+  _note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.inventory_items%ROWTYPE;
+  _to_item_id uuid;
+  _transfer_id uuid := gen_random_uuid();
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'administrator') THEN
+    RAISE EXCEPTION 'Only administrators can manage inventory' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _inventory_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _item.warehouse_id = _to_warehouse_id THEN
+    RAISE EXCEPTION 'Choose a different destination warehouse' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.warehouses WHERE id = _to_warehouse_id AND is_active) THEN
+    RAISE EXCEPTION 'Destination warehouse not found or inactive' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  _to_item_id := public.ensure_inventory_item(_to_warehouse_id, _item.commodity_code);
+
+  INSERT INTO public.stock_movements (inventory_item_id, movement_type, quantity, unit, transfer_id, note, actor_id)
+  VALUES
+    (_inventory_item_id, 'transfer_out', -_quantity, _unit, _transfer_id, NULLIF(trim(_note), ''), auth.uid()),
+    (_to_item_id, 'transfer_in', _quantity, _unit, _transfer_id, NULLIF(trim(_note), ''), auth.uid());
+
+  RETURN _transfer_id;
+END;
+$$;
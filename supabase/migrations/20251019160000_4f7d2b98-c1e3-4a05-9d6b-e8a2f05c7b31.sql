@@ -0,0 +1,586 @@
+-- Create enum for the lifecycle of a seed lot
+CREATE TYPE public.seed_lot_status AS ENUM ('active', 'split', 'merged');
+
+-- Create seed lots: a traceable quantity of seed from a farm and harvest
+CREATE TABLE public.seed_lots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lot_code TEXT NOT NULL UNIQUE CHECK (char_length(lot_code) BETWEEN 1 AND 64),
+    farmer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    commodity_code TEXT NOT NULL REFERENCES public.commodities(code),
+    variety TEXT,
+    harvest_date DATE,
+    origin_address TEXT,
+    origin_lat DECIMAL(10, 8),
+    origin_lng DECIMAL(11, 8),
+    quantity NUMERIC(12, 3) NOT NULL CHECK (quantity > 0),
+    unit public.weight_unit NOT NULL DEFAULT 'kg',
+    quantity_kg NUMERIC(15, 3) GENERATED ALWAYS AS (public.weight_to_kg(quantity, unit)) STORED,
+    status public.seed_lot_status NOT NULL DEFAULT 'active',
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_seed_lots_farmer_id ON public.seed_lots (farmer_id);
+
+ALTER TABLE public.seed_lots ENABLE ROW LEVEL SECURITY;
+
+
+CREATE POLICY "Farmers can register their own seed lots"
+ON public.seed_lots
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  status = 'active' AND (
+    (auth.uid() = farmer_id AND public.has_role(auth.uid(), 'farmer')) OR
+    public.has_role(auth.uid(), 'administrator')
+  )
+);
+
+CREATE POLICY "Farmers can update their own seed lots"
+ON public.seed_lots
+FOR UPDATE
+TO authenticated
+USING (
+  (auth.uid() = farmer_id AND public.has_role(auth.uid(), 'farmer')) OR
+  public.has_role(auth.uid(), 'administrator')
+);
+
+CREATE TRIGGER update_seed_lots_updated_at
+BEFORE UPDATE ON public.seed_lots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Quantity and status only change through splitting and merging
+CREATE OR REPLACE FUNCTION public.protect_seed_lot_genealogy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    NEW.quantity IS DISTINCT FROM OLD.quantity OR
+    NEW.unit IS DISTINCT FROM OLD.unit OR
+    NEW.status IS DISTINCT FROM OLD.status OR
+    NEW.commodity_code IS DISTINCT FROM OLD.commodity_code OR
+    NEW.lot_code IS DISTINCT FROM OLD.lot_code
+  ) THEN
+    RAISE EXCEPTION 'Lot code, seed type, quantity and status cannot be edited directly'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_seed_lot_genealogy
+BEFORE UPDATE ON public.seed_lots
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_seed_lot_genealogy();
+
+-- Create enum for how lots were derived from one another
+CREATE TYPE public.seed_lot_link_type AS ENUM ('split', 'merge');
+
+-- Genealogy graph between parent and child lots
+CREATE TABLE public.seed_lot_links (
+    parent_lot_id UUID NOT NULL REFERENCES public.seed_lots(id),
+    child_lot_id UUID NOT NULL REFERENCES public.seed_lots(id),
+    link_type public.seed_lot_link_type NOT NULL,
+    quantity_kg NUMERIC(15, 3) NOT NULL CHECK (quantity_kg > 0),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (parent_lot_id, child_lot_id),
+    CHECK (parent_lot_id <> child_lot_id)
+);
+
+CREATE INDEX idx_seed_lot_links_child_lot_id ON public.seed_lot_links (child_lot_id);
+
+ALTER TABLE public.seed_lot_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view links of visible seed lots"
+ON public.seed_lot_links
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.seed_lots l WHERE l.id = parent_lot_id) OR
+  EXISTS (SELECT 1 FROM public.seed_lots l WHERE l.id = child_lot_id)
+);
+
+REVOKE INSERT, UPDATE, DELETE ON public.seed_lot_links FROM anon, authenticated;
+
+-- Link shipments and stock movements to the lot they carry
+ALTER TABLE public.shipments
+  ADD COLUMN lot_id UUID REFERENCES public.seed_lots(id);
+
+CREATE INDEX idx_shipments_lot_id ON public.shipments (lot_id);
+
+-- Lots are visible to their farmer and to anyone who can see a shipment carrying them
+CREATE POLICY "Users can view their own or shipped seed lots"
+ON public.seed_lots
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = farmer_id OR
+  auth.uid() = created_by OR
+  public.has_role(auth.uid(), 'administrator') OR
+  EXISTS (SELECT 1 FROM public.shipments s WHERE s.lot_id = seed_lots.id)
+);
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN lot_id UUID REFERENCES public.seed_lots(id);
+
+CREATE INDEX idx_stock_movements_lot_id ON public.stock_movements (lot_id);
+
+-- A shipment may only carry an active lot of the same seed type owned by its sender
+CREATE OR REPLACE FUNCTION public.validate_shipment_lot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lot public.seed_lots%ROWTYPE;
+BEGIN
+  IF NEW.lot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _lot FROM public.seed_lots WHERE id = NEW.lot_id;
+
+  IF TG_OP = 'INSERT' OR NEW.lot_id IS DISTINCT FROM OLD.lot_id THEN
+    IF _lot.status <> 'active' THEN
+      RAISE EXCEPTION 'Lot % has been split or merged and can no longer be shipped', _lot.lot_code
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT (
+      _lot.farmer_id = NEW.user_id OR
+      _lot.created_by = NEW.user_id OR
+      public.has_role(auth.uid(), 'administrator')
+    ) THEN
+      RAISE EXCEPTION 'Lot % does not belong to this shipment''s sender', _lot.lot_code
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF NEW.commodity_code IS DISTINCT FROM _lot.commodity_code THEN
+    RAISE EXCEPTION 'Shipment seed type must match lot %', _lot.lot_code
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_shipment_lot
+BEFORE INSERT OR UPDATE OF lot_id, commodity_code ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_shipment_lot();
+
+-- The lot is frozen together with the rest of the cargo details
+CREATE OR REPLACE FUNCTION public.prevent_locked_shipment_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status NOT IN ('draft', 'pending') AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.origin_address IS DISTINCT FROM OLD.origin_address OR
+    NEW.origin_lat IS DISTINCT FROM OLD.origin_lat OR
+    NEW.origin_lng IS DISTINCT FROM OLD.origin_lng OR
+    NEW.destination_address IS DISTINCT FROM OLD.destination_address OR
+    NEW.destination_lat IS DISTINCT FROM OLD.destination_lat OR
+    NEW.destination_lng IS DISTINCT FROM OLD.destination_lng OR
+    NEW.commodity_code IS DISTINCT FROM OLD.commodity_code OR
+    NEW.net_weight IS DISTINCT FROM OLD.net_weight OR
+    NEW.weight_unit IS DISTINCT FROM OLD.weight_unit OR
+    NEW.bag_count IS DISTINCT FROM OLD.bag_count OR
+    NEW.moisture_pct IS DISTINCT FROM OLD.moisture_pct OR
+    NEW.oil_content_pct IS DISTINCT FROM OLD.oil_content_pct OR
+    NEW.lot_id IS DISTINCT FROM OLD.lot_id
+  ) THEN
+    RAISE EXCEPTION 'Shipments can only be edited while draft or pending'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Check that a lot exists and holds the given seed type
+CREATE OR REPLACE FUNCTION public.assert_lot_commodity(_lot_id uuid, _commodity_code text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _lot_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.seed_lots WHERE id = _lot_id AND commodity_code = _commodity_code
+  ) THEN
+    RAISE EXCEPTION 'Lot not found or holds a different seed type' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+-- Receiving and transferring stock can now record the lot being moved
+DROP FUNCTION public.receive_stock(uuid, text, numeric, public.weight_unit, text);
+DROP FUNCTION public.transfer_stock(uuid, uuid, numeric, public.weight_unit, text);
+
+CREATE OR REPLACE FUNCTION public.receive_stock(
+  _warehouse_id uuid,
+  _commodity_code text,
+  _quantity numeric,
+  _unit public.weight_unit,
+  _note text DEFAULT NULL,
+  _lot_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'administrator') THEN
+    RAISE EXCEPTION 'Only administrators can manage inventory' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.warehouses WHERE id = _warehouse_id AND is_active) THEN
+    RAISE EXCEPTION 'Warehouse not found or inactive' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.assert_lot_commodity(_lot_id, _commodity_code);
+
+  _item_id := public.ensure_inventory_item(_warehouse_id, _commodity_code);
+
+  INSERT INTO public.stock_movements (inventory_item_id, movement_type, quantity, unit, lot_id, note, actor_id)
+  VALUES (_item_id, 'receipt', _quantity, _unit, _lot_id, NULLIF(trim(_note), ''), auth.uid());
+
+  RETURN _item_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _inventory_item_id uuid,
+  _to_warehouse_id uuid,
+  _quantity numeric,
+  _unit public.weight_unit,
+  _note text DEFAULT NULL,
+  _lot_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.inventory_items%ROWTYPE;
+  _to_item_id uuid;
+  _transfer_id uuid := gen_random_uuid();
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'administrator') THEN
+    RAISE EXCEPTION 'Only administrators can manage inventory' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _inventory_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _item.warehouse_id = _to_warehouse_id THEN
+    RAISE EXCEPTION 'Choose a different destination warehouse' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.warehouses WHERE id = _to_warehouse_id AND is_active) THEN
+    RAISE EXCEPTION 'Destination warehouse not found or inactive' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.assert_lot_commodity(_lot_id, _item.commodity_code);
+
+  _to_item_id := public.ensure_inventory_item(_to_warehouse_id, _item.commodity_code);
+
+  INSERT INTO public.stock_movements (inventory_item_id, movement_type, quantity, unit, transfer_id, lot_id, note, actor_id)
+  VALUES
+    (_inventory_item_id, 'transfer_out', -_quantity, _unit, _transfer_id, _lot_id, NULLIF(trim(_note), ''), auth.uid()),
+    (_to_item_id, 'transfer_in', _quantity, _unit, _transfer_id, _lot_id, NULLIF(trim(_note), ''), auth.uid());
+
+  RETURN _transfer_id;
+END;
+$$;
+
+-- Lots can be split or merged by their farmer or an administrator
+CREATE OR REPLACE FUNCTION public.can_manage_seed_lot(_lot public.seed_lots)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (_lot.farmer_id = auth.uid() AND public.has_role(auth.uid(), 'farmer'))
+      OR public.has_role(auth.uid(), 'administrator')
+$$;
+
+-- Split an active lot into child lots of the given weights in kilograms
+CREATE OR REPLACE FUNCTION public.split_seed_lot(_lot_id uuid, _quantities_kg numeric[])
+RETURNS uuid[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lot public.seed_lots%ROWTYPE;
+  _child_ids uuid[] := '{}';
+  _child_id uuid;
+  _quantity numeric;
+  _remainder numeric;
+  _suffix int := 0;
+  _code text;
+BEGIN
+  SELECT * INTO _lot FROM public.seed_lots WHERE id = _lot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_seed_lot(_lot) THEN
+    RAISE EXCEPTION 'Lot not found or not yours to split' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _lot.status <> 'active' THEN
+    RAISE EXCEPTION 'Lot % has already been split or merged', _lot.lot_code USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(array_length(_quantities_kg, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A split needs at least two parts' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_quantities_kg) q WHERE q IS NULL OR q <= 0) THEN
+    RAISE EXCEPTION 'Every part must weigh more than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  _remainder := _lot.quantity_kg - (SELECT sum(q) FROM unnest(_quantities_kg) q);
+
+  IF _remainder < 0 THEN
+    RAISE EXCEPTION 'Parts weigh more than lot % holds', _lot.lot_code USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Whatever the parts leave over becomes one more lot, so no weight drops out of the trace
+  IF _remainder > 0 THEN
+    _quantities_kg := _quantities_kg || _remainder;
+  END IF;
+
+  FOREACH _quantity IN ARRAY _quantities_kg LOOP
+    -- Suffixes already taken, such as by a lot someone named after this one, are skipped
+    LOOP
+      _suffix := _suffix + 1;
+      _code := _lot.lot_code || '-' || _suffix;
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM public.seed_lots WHERE lot_code = _code);
+    END LOOP;
+
+    INSERT INTO public.seed_lots (
+      lot_code, farmer_id, commodity_code, variety, harvest_date,
+      origin_address, origin_lat, origin_lng, quantity, unit, created_by
+    )
+    VALUES (
+      _code, _lot.farmer_id, _lot.commodity_code, _lot.variety, _lot.harvest_date,
+      _lot.origin_address, _lot.origin_lat, _lot.origin_lng, _quantity, 'kg', auth.uid()
+    )
+    RETURNING id INTO _child_id;
+
+    INSERT INTO public.seed_lot_links (parent_lot_id, child_lot_id, link_type, quantity_kg, created_by)
+    VALUES (_lot.id, _child_id, 'split', _quantity, auth.uid());
+
+    _child_ids := _child_ids || _child_id;
+  END LOOP;
+
+  UPDATE public.seed_lots SET status = 'split' WHERE id = _lot.id;
+
+  RETURN _child_ids;
+END;
+$$;
+
+-- Merge active lots of one seed type into a new lot
+CREATE OR REPLACE FUNCTION public.merge_seed_lots(_lot_ids uuid[], _lot_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lot public.seed_lots%ROWTYPE;
+  _child_id uuid;
+  _count int;
+BEGIN
+  IF COALESCE(array_length(_lot_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'Select at least two lots to merge' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT count(*) INTO _count FROM public.seed_lots WHERE id = ANY(_lot_ids);
+  IF _count <> array_length(_lot_ids, 1) THEN
+    RAISE EXCEPTION 'One or more lots were not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR _lot IN SELECT * FROM public.seed_lots WHERE id = ANY(_lot_ids) FOR UPDATE LOOP
+    IF NOT public.can_manage_seed_lot(_lot) THEN
+      RAISE EXCEPTION 'Lot % is not yours to merge', _lot.lot_code USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _lot.status <> 'active' THEN
+      RAISE EXCEPTION 'Lot % has already been split or merged', _lot.lot_code USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  IF (SELECT count(DISTINCT commodity_code) FROM public.seed_lots WHERE id = ANY(_lot_ids)) > 1 THEN
+    RAISE EXCEPTION 'Only lots of the same seed type can be merged' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Farm details are kept only when every parent shares them
+  INSERT INTO public.seed_lots (
+    lot_code, farmer_id, commodity_code, variety, harvest_date, quantity, unit, created_by
+  )
+  SELECT
+    trim(_lot_code),
+    CASE WHEN count(DISTINCT farmer_id) = 1 AND count(farmer_id) = count(*) THEN min(farmer_id::text)::uuid END,
+    min(commodity_code),
+    CASE WHEN count(DISTINCT variety) = 1 AND count(variety) = count(*) THEN min(variety) END,
+    CASE WHEN count(DISTINCT harvest_date) = 1 AND count(harvest_date) = count(*) THEN min(harvest_date) END,
+    sum(quantity_kg),
+    'kg',
+    auth.uid()
+  FROM public.seed_lots
+  WHERE id = ANY(_lot_ids)
+  RETURNING id INTO _child_id;
+
+  INSERT INTO public.seed_lot_links (parent_lot_id, child_lot_id, link_type, quantity_kg, created_by)
+  SELECT id, _child_id, 'merge', quantity_kg, auth.uid()
+  FROM public.seed_lots
+  WHERE id = ANY(_lot_ids);
+
+  UPDATE public.seed_lots SET status = 'merged' WHERE id = ANY(_lot_ids);
+
+  RETURN _child_id;
+END;
+$$;
+
+-- Walk a lot's genealogy backward to its source farms and forward to every lot derived from it
+CREATE OR REPLACE FUNCTION public.trace_seed_lot(_lot_code text)
+RETURNS TABLE (
+  lot_id uuid,
+  lot_code text,
+  direction text,
+  depth int,
+  link_type public.seed_lot_link_type,
+  related_lot_id uuid,
+  is_source boolean,
+  status public.seed_lot_status,
+  commodity_code text,
+  variety text,
+  harvest_date date,
+  farmer_id uuid,
+  farmer_name text,
+  origin_address text,
+  origin_lat numeric,
+  origin_lng numeric,
+  quantity_kg numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _root public.seed_lots%ROWTYPE;
+BEGIN
+  SELECT * INTO _root FROM public.seed_lots l WHERE l.lot_code = trim(_lot_code);
+
+  IF NOT FOUND OR NOT (
+    _root.farmer_id = auth.uid() OR
+    _root.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'administrator')
+  ) THEN
+    RAISE EXCEPTION 'Lot % not found', trim(_lot_code) USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE
+    ancestors AS (
+      SELECT k.parent_lot_id AS id, k.child_lot_id AS via, k.link_type, 1 AS depth
+      FROM public.seed_lot_links k
+      WHERE k.child_lot_id = _root.id
+      UNION
+      SELECT k.parent_lot_id, k.child_lot_id, k.link_type, a.depth + 1
+      FROM public.seed_lot_links k
+      JOIN ancestors a ON k.child_lot_id = a.id
+    ),
+    descendants AS (
+      SELECT k.child_lot_id AS id, k.parent_lot_id AS via, k.link_type, 1 AS depth
+      FROM public.seed_lot_links k
+      WHERE k.parent_lot_id = _root.id
+      UNION
+      SELECT k.child_lot_id, k.parent_lot_id, k.link_type, d.depth + 1
+      FROM public.seed_lot_links k
+      JOIN descendants d ON k.parent_lot_id = d.id
+    ),
+    lineage AS (
+      SELECT _root.id AS id, 'self'::text AS direction, 0 AS depth, NULL::public.seed_lot_link_type AS link_type, NULL::uuid AS via
+      UNION ALL
+      (
+        SELECT DISTINCT ON (a.id, a.via) a.id, 'backward', a.depth, a.link_type, a.via
+        FROM ancestors a
+        ORDER BY a.id, a.via, a.depth
+      )
+      UNION ALL
+      (
+        SELECT DISTINCT ON (d.id, d.via) d.id, 'forward', d.depth, d.link_type, d.via
+        FROM descendants d
+        ORDER BY d.id, d.via, d.depth
+      )
+    )
+  SELECT
+    l.id,
+    l.lot_code,
+    g.direction,
+    g.depth,
+    g.link_type,
+    g.via,
+    NOT EXISTS (SELECT 1 FROM public.seed_lot_links k WHERE k.child_lot_id = l.id),
+    l.status,
+    l.commodity_code,
+    l.variety,
+    l.harvest_date,
+    l.farmer_id,
+    COALESCE(NULLIF(p.full_name, ''), p.email),
+    l.origin_address,
+    l.origin_lat,
+    l.origin_lng,
+    l.quantity_kg
+  FROM lineage g
+  JOIN public.seed_lots l ON l.id = g.id
+  LEFT JOIN public.profiles p ON p.id = l.farmer_id
+  ORDER BY g.direction, g.depth, l.lot_code;
+END;
+$$;
+
+-- List farmers that administrators can register lots for
+CREATE OR REPLACE FUNCTION public.list_farmers()
+RETURNS TABLE (id uuid, full_name text, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.full_name, p.email
+  FROM public.profiles p
+  JOIN public.user_roles ur ON ur.user_id = p.id
+  WHERE ur.role = 'farmer'
+    AND public.has_role(auth.uid(), 'administrator')
+  ORDER BY p.full_name
+$$;
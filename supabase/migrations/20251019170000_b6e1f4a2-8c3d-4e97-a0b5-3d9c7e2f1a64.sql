@@ -0,0 +1,187 @@
+-- Record the agreed rate so delivered value can be reported
+ALTER TABLE public.shipments
+  ADD COLUMN rate_per_quintal NUMERIC(12, 2) CHECK (rate_per_quintal >= 0),
+  ADD COLUMN cargo_value NUMERIC(16, 2) GENERATED ALWAYS AS (
+    public.weight_to_kg(net_weight, weight_unit) / 100 * rate_per_quintal
+  ) STORED,
+  ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_shipments_created_at ON public.shipments (created_at);
+CREATE INDEX idx_shipments_delivered_at ON public.shipments (delivered_at);
+
+-- Stamp the delivery time the first time a shipment is delivered
+CREATE OR REPLACE FUNCTION public.stamp_shipment_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered' AND NEW.delivered_at IS NULL THEN
+    NEW.delivered_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_shipment_delivery
+BEFORE UPDATE OF status ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_shipment_delivery();
+
+-- Backfill delivery times from the event history, falling back to the last update
+UPDATE public.shipments s
+SET delivered_at = COALESCE(
+  (
+    SELECT min(e.created_at)
+    FROM public.shipment_events e
+    WHERE e.shipment_id = s.id
+      AND e.event_type = 'status_changed'
+      AND e.new_value ->> 'status' = 'delivered'
+  ),
+  s.updated_at
+)
+WHERE s.status IN ('delivered', 'completed');
+
+-- Shipments cancelled with a plain status update have no reason; the reason is now required
+UPDATE public.shipments
+SET cancellation_reason = CASE WHEN status = 'cancelled' THEN 'Not recorded' END
+WHERE (status = 'cancelled') <> (COALESCE(btrim(cancellation_reason), '') <> '');
+
+-- The rate is frozen together with the rest of the cargo details
+CREATE OR REPLACE FUNCTION public.prevent_locked_shipment_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status NOT IN ('draft', 'pending') AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.origin_address IS DISTINCT FROM OLD.origin_address OR
+    NEW.origin_lat IS DISTINCT FROM OLD.origin_lat OR
+    NEW.origin_lng IS DISTINCT FROM OLD.origin_lng OR
+    NEW.destination_address IS DISTINCT FROM OLD.destination_address OR
+    NEW.destination_lat IS DISTINCT FROM OLD.destination_lat OR
+    NEW.destination_lng IS DISTINCT FROM OLD.destination_lng OR
+    NEW.commodity_code IS DISTINCT FROM OLD.commodity_code OR
+    NEW.net_weight IS DISTINCT FROM OLD.net_weight OR
+    NEW.weight_unit IS DISTINCT FROM OLD.weight_unit OR
+    NEW.bag_count IS DISTINCT FROM OLD.bag_count OR
+    NEW.moisture_pct IS DISTINCT FROM OLD.moisture_pct OR
+    NEW.oil_content_pct IS DISTINCT FROM OLD.oil_content_pct OR
+    NEW.lot_id IS DISTINCT FROM OLD.lot_id OR
+    NEW.rate_per_quintal IS DISTINCT FROM OLD.rate_per_quintal
+  ) THEN
+    RAISE EXCEPTION 'Shipments can only be edited while draft or pending'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Cancelled shipments always say why, and nothing else carries a reason
+  IF (NEW.status = 'cancelled') <> (COALESCE(btrim(NEW.cancellation_reason), '') <> '') THEN
+    RAISE EXCEPTION 'A cancellation reason is required exactly when a shipment is cancelled'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status = 'cancelled' AND NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason THEN
+    RAISE EXCEPTION 'The cancellation reason cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- New shipments cannot arrive with a cancellation reason either
+DROP TRIGGER prevent_locked_shipment_edits ON public.shipments;
+
+CREATE TRIGGER prevent_locked_shipment_edits
+BEFORE INSERT OR UPDATE ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_locked_shipment_edits();
+
+-- Shipment counts, weight and value by status and seed type.
+-- Runs as the caller so row level security limits it to visible shipments.
+CREATE OR REPLACE FUNCTION public.get_shipment_report_summary()
+RETURNS TABLE (
+  status public.shipment_status,
+  commodity_code text,
+  shipments bigint,
+  net_weight_kg numeric,
+  cargo_value numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.status,
+    s.commodity_code,
+    count(*),
+    COALESCE(sum(s.net_weight_kg), 0),
+    COALESCE(sum(s.cargo_value), 0)
+  FROM public.shipments s
+  GROUP BY s.status, s.commodity_code
+$$;
+
+-- Shipments created and delivered per week or month, including empty periods.
+-- Runs as the caller so row level security limits it to visible shipments.
+CREATE OR REPLACE FUNCTION public.get_shipment_period_stats(_period text DEFAULT 'month', _periods integer DEFAULT 6)
+RETURNS TABLE (
+  period_start date,
+  shipments bigint,
+  delivered bigint,
+  delivered_kg numeric,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _step interval;
+  _first timestamp with time zone;
+BEGIN
+  IF _period NOT IN ('week', 'month') THEN
+    RAISE EXCEPTION 'Period must be week or month' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _periods IS NULL OR _periods < 1 OR _periods > 104 THEN
+    RAISE EXCEPTION 'Periods must be between 1 and 104' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  _step := ('1 ' || _period)::interval;
+  _first := date_trunc(_period, now()) - (_periods - 1) * _step;
+
+  RETURN QUERY
+  WITH
+    periods AS (
+      SELECT generate_series(_first, date_trunc(_period, now()), _step) AS start
+    ),
+    created AS (
+      SELECT date_trunc(_period, s.created_at) AS start, count(*) AS total
+      FROM public.shipments s
+      WHERE s.created_at >= _first
+      GROUP BY 1
+    ),
+    completed AS (
+      SELECT
+        date_trunc(_period, s.delivered_at) AS start,
+        count(*) AS total,
+        COALESCE(sum(s.net_weight_kg), 0) AS weight_kg,
+        COALESCE(sum(s.cargo_value), 0) AS value
+      FROM public.shipments s
+      WHERE s.delivered_at >= _first
+        AND s.status IN ('delivered', 'completed')
+      GROUP BY 1
+    )
+  SELECT
+    p.start::date,
+    COALESCE(c.total, 0),
+    COALESCE(d.total, 0),
+    COALESCE(d.weight_kg, 0),
+    COALESCE(d.value, 0)
+  FROM periods p
+  LEFT JOIN created c ON c.start = p.start
+  LEFT JOIN completed d ON d.start = p.start
+  ORDER BY p.start;
+END;
+$$;
@@ -0,0 +1,84 @@
+-- Track whether an administrator has deactivated the account
+ALTER TABLE public.profiles
+  ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Account status is only changed by the admin-users edge function
+CREATE OR REPLACE FUNCTION public.protect_profile_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    NEW.is_active IS DISTINCT FROM OLD.is_active OR
+    NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at
+  ) THEN
+    RAISE EXCEPTION 'Account status can only be changed by an administrator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_status
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_status();
+
+-- Every account with its role, status and shipment count, for the user management console
+CREATE OR REPLACE FUNCTION public.list_users()
+RETURNS TABLE (
+  id uuid,
+  email text,
+  full_name text,
+  role public.app_role,
+  is_active boolean,
+  created_at timestamp with time zone,
+  last_sign_in_at timestamp with time zone,
+  shipment_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'administrator') THEN
+    RAISE EXCEPTION 'Only administrators can list users' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.email,
+    p.full_name,
+    (SELECT ur.role FROM public.user_roles ur WHERE ur.user_id = p.id ORDER BY ur.created_at LIMIT 1),
+    p.is_active,
+    p.created_at,
+    u.last_sign_in_at,
+    (
+      SELECT count(*)
+      FROM public.shipments s
+      WHERE s.user_id = p.id OR s.assigned_transporter_id = p.id
+    )
+  FROM public.profiles p
+  LEFT JOIN auth.users u ON u.id = p.id
+  ORDER BY p.full_name NULLS LAST, p.email;
+END;
+$$;
+
+-- Revoke every refresh token so the user is signed out once their access token expires.
+-- Only the admin-users edge function may call this.
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM auth.sessions WHERE user_id = _user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_user_sessions(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(uuid) TO service_role;
@@ -0,0 +1,192 @@
+-- New accounts request a role and an administrator approves it.
+-- The administrator role is never requested; it is granted from the user management console.
+CREATE TYPE public.role_request_status AS ENUM ('pending', 'approved', 'rejected', 'withdrawn');
+
+CREATE TABLE public.role_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_role public.app_role NOT NULL CHECK (requested_role IN ('farmer', 'transporter')),
+  status public.role_request_status NOT NULL DEFAULT 'pending',
+  note TEXT CHECK (char_length(note) <= 500),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT CHECK (char_length(review_note) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one open request per user
+CREATE UNIQUE INDEX idx_role_requests_one_pending
+ON public.role_requests (user_id)
+WHERE status = 'pending';
+
+CREATE INDEX idx_role_requests_status ON public.role_requests (status, created_at);
+
+ALTER TABLE public.role_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own role requests"
+ON public.role_requests
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Administrators can view all role requests"
+ON public.role_requests
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'administrator'));
+
+-- Requests only change through the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.role_requests FROM anon, authenticated;
+
+CREATE TRIGGER update_role_requests_updated_at
+BEFORE UPDATE ON public.role_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Administrators are told about new requests as they arrive
+ALTER PUBLICATION supabase_realtime ADD TABLE public.role_requests;
+
+-- Ask for a role; only users without one may ask, and never for administrator
+CREATE OR REPLACE FUNCTION public.request_role(_role public.app_role, _note text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _role NOT IN ('farmer', 'transporter') THEN
+    RAISE EXCEPTION 'Only the farmer or transporter role can be requested' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You already have a role' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.role_requests WHERE user_id = auth.uid() AND status = 'pending') THEN
+    RAISE EXCEPTION 'You already have a request awaiting approval' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO public.role_requests (user_id, requested_role, note)
+  VALUES (auth.uid(), _role, NULLIF(btrim(_note), ''))
+  RETURNING id INTO _request_id;
+
+  RETURN _request_id;
+END;
+$$;
+
+-- Withdraw your own pending request, for example to ask for a different role
+CREATE OR REPLACE FUNCTION public.withdraw_role_request(_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.role_requests
+  SET status = 'withdrawn'
+  WHERE id = _request_id
+    AND user_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or no longer pending' USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+-- Approve or reject a pending request; approval grants the requested role
+CREATE OR REPLACE FUNCTION public.review_role_request(_request_id uuid, _approve boolean, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'administrator') THEN
+    RAISE EXCEPTION 'Only administrators can review role requests' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO _request FROM public.role_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request not found or no longer pending' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.role_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END::public.role_request_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(btrim(_note), '')
+  WHERE id = _request_id;
+
+  IF _approve THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_request.user_id, _request.requested_role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Pending requests with the requester's name for the review queue
+CREATE OR REPLACE FUNCTION public.list_role_requests()
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  full_name text,
+  email text,
+  requested_role public.app_role,
+  note text,
+  created_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'administrator') THEN
+    RAISE EXCEPTION 'Only administrators can list role requests' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id, r.user_id, p.full_name, p.email, r.requested_role, r.note, r.created_at
+  FROM public.role_requests r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.status = 'pending'
+  ORDER BY r.created_at;
+END;
+$$;
+
+-- A role granted directly from the console settles any request still open for that user
+CREATE OR REPLACE FUNCTION public.settle_role_requests()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.role_requests
+  SET status = CASE WHEN requested_role = NEW.role THEN 'approved' ELSE 'rejected' END::public.role_request_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = CASE WHEN requested_role = NEW.role THEN NULL ELSE 'Assigned a different role' END
+  WHERE user_id = NEW.user_id
+    AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_role_requests_on_role_change
+AFTER INSERT OR UPDATE OF role ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_role_requests();
@@ -0,0 +1,1492 @@
+-- Farmer producer organizations are separate workspaces. Memberships are the
+-- user_roles rows of an organization, so a user's role is held per organization.
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 120),
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Platform operators sit above every organization. Rows are added by hand, never from the app.
+CREATE TABLE public.super_admins (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.super_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own super admin grant"
+ON public.super_admins
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.super_admins FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.is_super_admin(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.super_admins WHERE user_id = _user_id)
+$$;
+
+-- Existing data moves into a default organization
+INSERT INTO public.organizations (name, slug, created_by)
+VALUES ('Default Organization', 'default', NULL);
+
+ALTER TABLE public.user_roles ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.shipments ADD COLUMN organization_id UUID REFERENCES public.organizations(id);
+ALTER TABLE public.warehouses ADD COLUMN organization_id UUID REFERENCES public.organizations(id);
+ALTER TABLE public.seed_lots ADD COLUMN organization_id UUID REFERENCES public.organizations(id);
+ALTER TABLE public.role_requests ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+-- Backfilling must not trip the edit locks and history triggers on shipments
+ALTER TABLE public.shipments DISABLE TRIGGER USER;
+UPDATE public.shipments SET organization_id = (SELECT id FROM public.organizations WHERE slug = 'default');
+ALTER TABLE public.shipments ENABLE TRIGGER USER;
+
+ALTER TABLE public.seed_lots DISABLE TRIGGER USER;
+UPDATE public.seed_lots SET organization_id = (SELECT id FROM public.organizations WHERE slug = 'default');
+ALTER TABLE public.seed_lots ENABLE TRIGGER USER;
+
+ALTER TABLE public.user_roles DISABLE TRIGGER USER;
+UPDATE public.user_roles SET organization_id = (SELECT id FROM public.organizations WHERE slug = 'default');
+ALTER TABLE public.user_roles ENABLE TRIGGER USER;
+
+UPDATE public.warehouses SET organization_id = (SELECT id FROM public.organizations WHERE slug = 'default');
+UPDATE public.role_requests SET organization_id = (SELECT id FROM public.organizations WHERE slug = 'default');
+
+ALTER TABLE public.user_roles ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.shipments ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.warehouses ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.seed_lots ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.role_requests ALTER COLUMN organization_id SET NOT NULL;
+
+-- Roles, warehouse names and open requests are unique within an organization
+ALTER TABLE public.user_roles DROP CONSTRAINT user_roles_user_id_role_key;
+ALTER TABLE public.user_roles ADD CONSTRAINT user_roles_user_id_organization_id_role_key UNIQUE (user_id, organization_id, role);
+
+ALTER TABLE public.warehouses DROP CONSTRAINT warehouses_name_key;
+ALTER TABLE public.warehouses ADD CONSTRAINT warehouses_organization_id_name_key UNIQUE (organization_id, name);
+
+DROP INDEX public.idx_role_requests_one_pending;
+CREATE UNIQUE INDEX idx_role_requests_one_pending
+ON public.role_requests (user_id, organization_id)
+WHERE status = 'pending';
+
+CREATE INDEX idx_user_roles_organization_id ON public.user_roles (organization_id);
+CREATE INDEX idx_shipments_organization_id ON public.shipments (organization_id, created_at DESC);
+CREATE INDEX idx_seed_lots_organization_id ON public.seed_lots (organization_id);
+CREATE INDEX idx_role_requests_organization_id ON public.role_requests (organization_id, status);
+
+-- Super admins count as administrators everywhere, so checks that only ask
+-- whether someone administers anything keep working for them
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role
+  ) OR (_role = 'administrator' AND public.is_super_admin(_user_id))
+$$;
+
+-- Check a role within one organization
+CREATE OR REPLACE FUNCTION public.has_org_role(_user_id uuid, _organization_id uuid, _role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND organization_id = _organization_id
+      AND role = _role
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_org_member(_user_id uuid, _organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND organization_id = _organization_id
+  ) OR public.is_super_admin(_user_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_org_admin(_user_id uuid, _organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_org_role(_user_id, _organization_id, 'administrator')
+      OR public.is_super_admin(_user_id)
+$$;
+
+-- Organizations
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (public.is_org_member(auth.uid(), id));
+
+REVOKE INSERT, UPDATE, DELETE ON public.organizations FROM anon, authenticated;
+
+-- Organization names for people choosing one to join
+CREATE OR REPLACE FUNCTION public.list_organizations()
+RETURNS TABLE (id uuid, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.id, o.name
+  FROM public.organizations o
+  WHERE auth.uid() IS NOT NULL
+  ORDER BY o.name
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_organization(_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _slug text;
+  _organization_id uuid;
+BEGIN
+  IF NOT public.is_super_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only platform operators can create organizations' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  _slug := trim(BOTH '-' FROM regexp_replace(lower(btrim(_name)), '[^a-z0-9]+', '-', 'g'));
+
+  IF _slug = '' THEN
+    RAISE EXCEPTION 'Organization name must contain letters or digits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.organizations WHERE slug = _slug) THEN
+    RAISE EXCEPTION 'An organization named % already exists', btrim(_name) USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO public.organizations (name, slug)
+  VALUES (btrim(_name), _slug)
+  RETURNING id INTO _organization_id;
+
+  RETURN _organization_id;
+END;
+$$;
+
+-- Roles: administrators manage memberships of their own organization
+DROP POLICY "Administrators can view all roles" ON public.user_roles;
+DROP POLICY "Administrators can insert roles" ON public.user_roles;
+DROP POLICY "Administrators can update roles" ON public.user_roles;
+DROP POLICY "Administrators can delete roles" ON public.user_roles;
+
+CREATE POLICY "Administrators can view roles in their organization"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Administrators can insert roles in their organization"
+ON public.user_roles
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Administrators can update roles in their organization"
+ON public.user_roles
+FOR UPDATE
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id))
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Administrators can delete roles in their organization"
+ON public.user_roles
+FOR DELETE
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- Shipments
+DROP POLICY "Farmers and transporters can view their own shipments" ON public.shipments;
+DROP POLICY "Farmers can create shipments" ON public.shipments;
+DROP POLICY "Farmers and administrators can update shipments" ON public.shipments;
+DROP POLICY "Administrators can delete shipments" ON public.shipments;
+DROP POLICY "Transporters can update assigned shipments" ON public.shipments;
+
+CREATE POLICY "Farmers and transporters can view their own shipments"
+ON public.shipments
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = user_id OR
+  auth.uid() = assigned_transporter_id OR
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+CREATE POLICY "Farmers can create shipments"
+ON public.shipments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id AND
+  (public.has_org_role(auth.uid(), organization_id, 'farmer') OR public.is_org_admin(auth.uid(), organization_id))
+);
+
+CREATE POLICY "Farmers and administrators can update shipments"
+ON public.shipments
+FOR UPDATE
+TO authenticated
+USING (
+  (auth.uid() = user_id AND public.has_org_role(auth.uid(), organization_id, 'farmer')) OR
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+CREATE POLICY "Administrators can delete shipments"
+ON public.shipments
+FOR DELETE
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Transporters can update assigned shipments"
+ON public.shipments
+FOR UPDATE
+TO authenticated
+USING (
+  auth.uid() = assigned_transporter_id AND
+  public.has_org_role(auth.uid(), organization_id, 'transporter')
+);
+
+-- A shipment never moves between organizations, and its lot and transporter come from the same one
+CREATE OR REPLACE FUNCTION public.validate_shipment_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    RAISE EXCEPTION 'Shipments cannot move between organizations' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.lot_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.seed_lots WHERE id = NEW.lot_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'The lot belongs to a different organization' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.assigned_transporter_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.assigned_transporter_id IS DISTINCT FROM OLD.assigned_transporter_id)
+     AND NOT public.has_org_role(NEW.assigned_transporter_id, NEW.organization_id, 'transporter') THEN
+    RAISE EXCEPTION 'Selected user is not a transporter in this organization' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_shipment_organization
+BEFORE INSERT OR UPDATE OF organization_id, lot_id, assigned_transporter_id ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_shipment_organization();
+
+-- Status transitions are allowed by the roles held in the shipment's organization
+CREATE OR REPLACE FUNCTION public.can_transition_shipment(
+  _user_id uuid,
+  _organization_id uuid,
+  _from public.shipment_status,
+  _to public.shipment_status
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.shipment_status_transitions t
+    JOIN public.user_roles ur ON ur.role = t.role
+    WHERE ur.user_id = _user_id
+      AND ur.organization_id = _organization_id
+      AND t.from_status = _from
+      AND t.to_status = _to
+  ) OR (
+    public.is_super_admin(_user_id) AND EXISTS (
+      SELECT 1
+      FROM public.shipment_status_transitions t
+      WHERE t.role = 'administrator'
+        AND t.from_status = _from
+        AND t.to_status = _to
+    )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_shipment_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role and migrations run without an end user
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'pending') THEN
+      RAISE EXCEPTION 'New shipments must start as draft or pending, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT public.can_transition_shipment(auth.uid(), NEW.organization_id, OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transition from % to % is not allowed for your role', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION public.can_transition_shipment(uuid, public.shipment_status, public.shipment_status);
+
+CREATE OR REPLACE FUNCTION public.restrict_transporter_shipment_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user <> 'authenticated'
+     OR auth.uid() IS NULL
+     OR auth.uid() = OLD.user_id
+     OR public.is_org_admin(auth.uid(), OLD.organization_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'status' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'updated_at') THEN
+    RAISE EXCEPTION 'Transporters can only update the status of assigned shipments'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.status = 'assigned' AND NEW.status = 'picked-up'
+     AND OLD.assignment_status IS DISTINCT FROM 'accepted' THEN
+    RAISE EXCEPTION 'Accept the assignment before marking the shipment as picked up'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Transporters are listed per organization
+DROP FUNCTION public.list_transporters();
+
+CREATE OR REPLACE FUNCTION public.list_transporters(_organization_id uuid)
+RETURNS TABLE (id uuid, full_name text, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.full_name, p.email
+  FROM public.profiles p
+  JOIN public.user_roles ur ON ur.user_id = p.id
+  WHERE ur.role = 'transporter'
+    AND ur.organization_id = _organization_id
+    AND (
+      public.has_org_role(auth.uid(), _organization_id, 'farmer') OR
+      public.is_org_admin(auth.uid(), _organization_id)
+    )
+  ORDER BY p.full_name
+$$;
+
+DROP FUNCTION public.list_farmers();
+
+CREATE OR REPLACE FUNCTION public.list_farmers(_organization_id uuid)
+RETURNS TABLE (id uuid, full_name text, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.full_name, p.email
+  FROM public.profiles p
+  JOIN public.user_roles ur ON ur.user_id = p.id
+  WHERE ur.role = 'farmer'
+    AND ur.organization_id = _organization_id
+    AND public.is_org_admin(auth.uid(), _organization_id)
+  ORDER BY p.full_name
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_shipment_transporter(_shipment_id uuid, _transporter_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shipment public.shipments%ROWTYPE;
+BEGIN
+  SELECT * INTO _shipment FROM public.shipments WHERE id = _shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT (
+    (_shipment.user_id = auth.uid() AND public.has_org_role(auth.uid(), _shipment.organization_id, 'farmer')) OR
+    public.is_org_admin(auth.uid(), _shipment.organization_id)
+  ) THEN
+    RAISE EXCEPTION 'You cannot assign this shipment' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- A load already accepted by its transporter is not silently offered to someone else
+  IF NOT (
+    _shipment.status = 'pending' OR
+    (_shipment.status = 'assigned' AND _shipment.assignment_status IS DISTINCT FROM 'accepted')
+  ) THEN
+    RAISE EXCEPTION 'Only pending shipments or unaccepted offers can be assigned' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.has_org_role(_transporter_id, _shipment.organization_id, 'transporter') THEN
+    RAISE EXCEPTION 'Selected user is not a transporter in this organization' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.shipments
+  SET status = 'assigned',
+      assigned_transporter_id = _transporter_id,
+      assignment_status = 'offered',
+      assigned_at = now()
+  WHERE id = _shipment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_shipment_parties(_shipment_id uuid)
+RETURNS TABLE (
+  owner_id uuid,
+  owner_name text,
+  owner_email text,
+  transporter_id uuid,
+  transporter_name text,
+  transporter_email text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.user_id,
+    owner.full_name,
+    owner.email,
+    s.assigned_transporter_id,
+    transporter.full_name,
+    transporter.email
+  FROM public.shipments s
+  LEFT JOIN public.profiles owner ON owner.id = s.user_id
+  LEFT JOIN public.profiles transporter ON transporter.id = s.assigned_transporter_id
+  WHERE s.id = _shipment_id
+    AND (
+      auth.uid() = s.user_id OR
+      auth.uid() = s.assigned_transporter_id OR
+      public.is_org_admin(auth.uid(), s.organization_id)
+    )
+$$;
+
+-- Seed type catalogue is shared by every organization and maintained by platform operators
+DROP POLICY "Administrators can insert commodities" ON public.commodities;
+DROP POLICY "Administrators can update commodities" ON public.commodities;
+DROP POLICY "Administrators can delete commodities" ON public.commodities;
+
+CREATE POLICY "Super admins can insert commodities"
+ON public.commodities
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_super_admin(auth.uid()));
+
+CREATE POLICY "Super admins can update commodities"
+ON public.commodities
+FOR UPDATE
+TO authenticated
+USING (public.is_super_admin(auth.uid()));
+
+CREATE POLICY "Super admins can delete commodities"
+ON public.commodities
+FOR DELETE
+TO authenticated
+USING (public.is_super_admin(auth.uid()));
+
+-- Warehouses and stock
+DROP POLICY "Administrators can view warehouses" ON public.warehouses;
+DROP POLICY "Administrators can insert warehouses" ON public.warehouses;
+DROP POLICY "Administrators can update warehouses" ON public.warehouses;
+DROP POLICY "Administrators can view inventory items" ON public.inventory_items;
+DROP POLICY "Administrators can view stock movements" ON public.stock_movements;
+
+CREATE POLICY "Administrators can view warehouses"
+ON public.warehouses
+FOR SELECT
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Administrators can insert warehouses"
+ON public.warehouses
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Administrators can update warehouses"
+ON public.warehouses
+FOR UPDATE
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id))
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Administrators can view inventory items"
+ON public.inventory_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.warehouses w
+    WHERE w.id = warehouse_id
+      AND public.is_org_admin(auth.uid(), w.organization_id)
+  )
+);
+
+CREATE POLICY "Administrators can view stock movements"
+ON public.stock_movements
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.inventory_items i
+    JOIN public.warehouses w ON w.id = i.warehouse_id
+    WHERE i.id = inventory_item_id
+      AND public.is_org_admin(auth.uid(), w.organization_id)
+  )
+);
+
+-- Stock is managed by administrators of the organization that owns the warehouse
+CREATE OR REPLACE FUNCTION public.receive_stock(
+  _warehouse_id uuid,
+  _commodity_code text,
+  _quantity numeric,
+  _unit public.weight_unit,
+  _note text DEFAULT NULL,
+  _lot_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item_id uuid;
+  _organization_id uuid;
+BEGIN
+  SELECT organization_id INTO _organization_id FROM public.warehouses WHERE id = _warehouse_id;
+
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only administrators can manage inventory' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.warehouses WHERE id = _warehouse_id AND is_active) THEN
+    RAISE EXCEPTION 'Warehouse not found or inactive' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.assert_lot_commodity(_lot_id, _commodity_code);
+
+  _item_id := public.ensure_inventory_item(_warehouse_id, _commodity_code);
+
+  INSERT INTO public.stock_movements (inventory_item_id, movement_type, quantity, unit, lot_id, note, actor_id)
+  VALUES (_item_id, 'receipt', _quantity, _unit, _lot_id, NULLIF(trim(_note), ''), auth.uid());
+
+  RETURN _item_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  _inventory_item_id uuid,
+  _quantity numeric,
+  _unit public.weight_unit,
+  _note text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id uuid;
+BEGIN
+  SELECT w.organization_id INTO _organization_id
+  FROM public.inventory_items i
+  JOIN public.warehouses w ON w.id = i.warehouse_id
+  WHERE i.id = _inventory_item_id;
+
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only administrators can manage inventory' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NULLIF(trim(_note), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _organization_id IS NULL THEN
+    RAISE EXCEPTION 'Inventory item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.stock_movements (inventory_item_id, movement_type, quantity, unit, note, actor_id)
+  VALUES (_inventory_item_id, 'adjustment', _quantity, _unit, trim(_note), auth.uid());
+END;
+$$;
+
+-- Transfers stay within the organization
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _inventory_item_id uuid,
+  _to_warehouse_id uuid,
+  _quantity numeric,
+  _unit public.weight_unit,
+  _note text DEFAULT NULL,
+  _lot_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.inventory_items%ROWTYPE;
+  _organization_id uuid;
+  _to_item_id uuid;
+  _transfer_id uuid := gen_random_uuid();
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _inventory_item_id;
+  SELECT organization_id INTO _organization_id FROM public.warehouses WHERE id = _item.warehouse_id;
+
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only administrators can manage inventory' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _item.id IS NULL THEN
+    RAISE EXCEPTION 'Inventory item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _item.warehouse_id = _to_warehouse_id THEN
+    RAISE EXCEPTION 'Choose a different destination warehouse' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.warehouses WHERE id = _to_warehouse_id AND is_active AND organization_id = _organization_id
+  ) THEN
+    RAISE EXCEPTION 'Destination warehouse not found or inactive' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM public.assert_lot_commodity(_lot_id, _item.commodity_code);
+
+  _to_item_id := public.ensure_inventory_item(_to_warehouse_id, _item.commodity_code);
+
+  INSERT INTO public.stock_movements (inventory_item_id, movement_type, quantity, unit, transfer_id, lot_id, note, actor_id)
+  VALUES
+    (_inventory_item_id, 'transfer_out', -_quantity, _unit, _transfer_id, _lot_id, NULLIF(trim(_note), ''), auth.uid()),
+    (_to_item_id, 'transfer_in', _quantity, _unit, _transfer_id, _lot_id, NULLIF(trim(_note), ''), auth.uid());
+
+  RETURN _transfer_id;
+END;
+$$;
+
+-- Every movement is also checked against the organization that owns its warehouse and lot
+CREATE OR REPLACE FUNCTION public.validate_stock_movement_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id uuid;
+BEGIN
+  SELECT w.organization_id INTO _organization_id
+  FROM public.inventory_items i
+  JOIN public.warehouses w ON w.id = i.warehouse_id
+  WHERE i.id = NEW.inventory_item_id;
+
+  IF auth.uid() IS NOT NULL AND NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Warehouse not found or inactive' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NEW.lot_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.seed_lots WHERE id = NEW.lot_id AND organization_id = _organization_id
+  ) THEN
+    RAISE EXCEPTION 'The lot belongs to a different organization' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_stock_movement_organization
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_stock_movement_organization();
+
+-- Seed lots
+DROP POLICY "Farmers can register their own seed lots" ON public.seed_lots;
+DROP POLICY "Farmers can update their own seed lots" ON public.seed_lots;
+DROP POLICY "Users can view their own or shipped seed lots" ON public.seed_lots;
+
+CREATE POLICY "Farmers can register their own seed lots"
+ON public.seed_lots
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  status = 'active' AND (
+    (auth.uid() = farmer_id AND public.has_org_role(auth.uid(), organization_id, 'farmer')) OR
+    (public.is_org_admin(auth.uid(), organization_id) AND (
+      farmer_id IS NULL OR public.has_org_role(farmer_id, organization_id, 'farmer')
+    ))
+  )
+);
+
+CREATE POLICY "Farmers can update their own seed lots"
+ON public.seed_lots
+FOR UPDATE
+TO authenticated
+USING (
+  (auth.uid() = farmer_id AND public.has_org_role(auth.uid(), organization_id, 'farmer')) OR
+  public.is_org_admin(auth.uid(), organization_id)
+);
+
+CREATE POLICY "Users can view their own or shipped seed lots"
+ON public.seed_lots
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = farmer_id OR
+  auth.uid() = created_by OR
+  public.is_org_admin(auth.uid(), organization_id) OR
+  EXISTS (SELECT 1 FROM public.shipments s WHERE s.lot_id = seed_lots.id)
+);
+
+CREATE OR REPLACE FUNCTION public.can_manage_seed_lot(_lot public.seed_lots)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (_lot.farmer_id = auth.uid() AND public.has_org_role(auth.uid(), _lot.organization_id, 'farmer'))
+      OR public.is_org_admin(auth.uid(), _lot.organization_id)
+$$;
+
+-- Lots stay in their organization
+-- Whether a lot has been split, merged or moved through inventory. Checked past row level security, which hides
+-- most stock movements from farmers.
+CREATE OR REPLACE FUNCTION public.seed_lot_has_history(_lot_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.seed_lot_links WHERE parent_lot_id = _lot_id OR child_lot_id = _lot_id)
+      OR EXISTS (SELECT 1 FROM public.stock_movements WHERE lot_id = _lot_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_seed_lot_genealogy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    NEW.quantity IS DISTINCT FROM OLD.quantity OR
+    NEW.unit IS DISTINCT FROM OLD.unit OR
+    NEW.status IS DISTINCT FROM OLD.status OR
+    NEW.commodity_code IS DISTINCT FROM OLD.commodity_code OR
+    NEW.lot_code IS DISTINCT FROM OLD.lot_code OR
+    NEW.organization_id IS DISTINCT FROM OLD.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Lot code, seed type, quantity, status and organization cannot be edited directly'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Provenance is carried into split and merged lots and inventory records, so it is fixed once the lot has any
+  IF current_user = 'authenticated' AND (
+    NEW.farmer_id IS DISTINCT FROM OLD.farmer_id OR
+    NEW.harvest_date IS DISTINCT FROM OLD.harvest_date OR
+    NEW.origin_address IS DISTINCT FROM OLD.origin_address OR
+    NEW.origin_lat IS DISTINCT FROM OLD.origin_lat OR
+    NEW.origin_lng IS DISTINCT FROM OLD.origin_lng
+  ) AND public.seed_lot_has_history(OLD.id) THEN
+    RAISE EXCEPTION 'Farmer, harvest date and origin cannot be changed once a lot has been split, merged or moved'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Split and merged lots inherit their parents' organization
+CREATE OR REPLACE FUNCTION public.split_seed_lot(_lot_id uuid, _quantities_kg numeric[])
+RETURNS uuid[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lot public.seed_lots%ROWTYPE;
+  _child_ids uuid[] := '{}';
+  _child_id uuid;
+  _quantity numeric;
+  _remainder numeric;
+  _suffix int := 0;
+  _code text;
+BEGIN
+  SELECT * INTO _lot FROM public.seed_lots WHERE id = _lot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_seed_lot(_lot) THEN
+    RAISE EXCEPTION 'Lot not found or not yours to split' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _lot.status <> 'active' THEN
+    RAISE EXCEPTION 'Lot % has already been split or merged', _lot.lot_code USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(array_length(_quantities_kg, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A split needs at least two parts' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_quantities_kg) q WHERE q IS NULL OR q <= 0) THEN
+    RAISE EXCEPTION 'Every part must weigh more than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  _remainder := _lot.quantity_kg - (SELECT sum(q) FROM unnest(_quantities_kg) q);
+
+  IF _remainder < 0 THEN
+    RAISE EXCEPTION 'Parts weigh more than lot % holds', _lot.lot_code USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Whatever the parts leave over becomes one more lot, so no weight drops out of the trace
+  IF _remainder > 0 THEN
+    _quantities_kg := _quantities_kg || _remainder;
+  END IF;
+
+  FOREACH _quantity IN ARRAY _quantities_kg LOOP
+    -- Suffixes already taken, such as by a lot someone named after this one, are skipped
+    LOOP
+      _suffix := _suffix + 1;
+      _code := _lot.lot_code || '-' || _suffix;
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM public.seed_lots WHERE lot_code = _code);
+    END LOOP;
+
+    INSERT INTO public.seed_lots (
+      lot_code, farmer_id, commodity_code, variety, harvest_date,
+      origin_address, origin_lat, origin_lng, quantity, unit, created_by, organization_id
+    )
+    VALUES (
+      _code, _lot.farmer_id, _lot.commodity_code, _lot.variety, _lot.harvest_date,
+      _lot.origin_address, _lot.origin_lat, _lot.origin_lng, _quantity, 'kg', auth.uid(), _lot.organization_id
+    )
+    RETURNING id INTO _child_id;
+
+    INSERT INTO public.seed_lot_links (parent_lot_id, child_lot_id, link_type, quantity_kg, created_by)
+    VALUES (_lot.id, _child_id, 'split', _quantity, auth.uid());
+
+    _child_ids := _child_ids || _child_id;
+  END LOOP;
+
+  UPDATE public.seed_lots SET status = 'split' WHERE id = _lot.id;
+
+  RETURN _child_ids;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_seed_lots(_lot_ids uuid[], _lot_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lot public.seed_lots%ROWTYPE;
+  _child_id uuid;
+  _count int;
+BEGIN
+  IF COALESCE(array_length(_lot_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'Select at least two lots to merge' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT count(*) INTO _count FROM public.seed_lots WHERE id = ANY(_lot_ids);
+  IF _count <> array_length(_lot_ids, 1) THEN
+    RAISE EXCEPTION 'One or more lots were not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR _lot IN SELECT * FROM public.seed_lots WHERE id = ANY(_lot_ids) FOR UPDATE LOOP
+    IF NOT public.can_manage_seed_lot(_lot) THEN
+      RAISE EXCEPTION 'Lot % is not yours to merge', _lot.lot_code USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _lot.status <> 'active' THEN
+      RAISE EXCEPTION 'Lot % has already been split or merged', _lot.lot_code USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  IF (SELECT count(DISTINCT organization_id) FROM public.seed_lots WHERE id = ANY(_lot_ids)) > 1 THEN
+    RAISE EXCEPTION 'Only lots of the same organization can be merged' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (SELECT count(DISTINCT commodity_code) FROM public.seed_lots WHERE id = ANY(_lot_ids)) > 1 THEN
+    RAISE EXCEPTION 'Only lots of the same seed type can be merged' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Farm details are kept only when every parent shares them
+  INSERT INTO public.seed_lots (
+    lot_code, farmer_id, commodity_code, variety, harvest_date, quantity, unit, created_by, organization_id
+  )
+  SELECT
+    trim(_lot_code),
+    CASE WHEN count(DISTINCT farmer_id) = 1 AND count(farmer_id) = count(*) THEN min(farmer_id::text)::uuid END,
+    min(commodity_code),
+    CASE WHEN count(DISTINCT variety) = 1 AND count(variety) = count(*) THEN min(variety) END,
+    CASE WHEN count(DISTINCT harvest_date) = 1 AND count(harvest_date) = count(*) THEN min(harvest_date) END,
+    sum(quantity_kg),
+    'kg',
+    auth.uid(),
+    min(organization_id::text)::uuid
+  FROM public.seed_lots
+  WHERE id = ANY(_lot_ids)
+  RETURNING id INTO _child_id;
+
+  INSERT INTO public.seed_lot_links (parent_lot_id, child_lot_id, link_type, quantity_kg, created_by)
+  SELECT id, _child_id, 'merge', quantity_kg, auth.uid()
+  FROM public.seed_lots
+  WHERE id = ANY(_lot_ids);
+
+  UPDATE public.seed_lots SET status = 'merged' WHERE id = ANY(_lot_ids);
+
+  RETURN _child_id;
+END;
+$$;
+
+-- Administrators trace only their own organization's lots
+CREATE OR REPLACE FUNCTION public.trace_seed_lot(_lot_code text)
+RETURNS TABLE (
+  lot_id uuid,
+  lot_code text,
+  direction text,
+  depth int,
+  link_type public.seed_lot_link_type,
+  related_lot_id uuid,
+  is_source boolean,
+  status public.seed_lot_status,
+  commodity_code text,
+  variety text,
+  harvest_date date,
+  farmer_id uuid,
+  farmer_name text,
+  origin_address text,
+  origin_lat numeric,
+  origin_lng numeric,
+  quantity_kg numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _root public.seed_lots%ROWTYPE;
+BEGIN
+  SELECT * INTO _root FROM public.seed_lots l WHERE l.lot_code = trim(_lot_code);
+
+  IF NOT FOUND OR NOT (
+    _root.farmer_id = auth.uid() OR
+    _root.created_by = auth.uid() OR
+    public.is_org_admin(auth.uid(), _root.organization_id)
+  ) THEN
+    RAISE EXCEPTION 'Lot % not found', trim(_lot_code) USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE
+    ancestors AS (
+      SELECT k.parent_lot_id AS id, k.child_lot_id AS via, k.link_type, 1 AS depth
+      FROM public.seed_lot_links k
+      WHERE k.child_lot_id = _root.id
+      UNION
+      SELECT k.parent_lot_id, k.child_lot_id, k.link_type, a.depth + 1
+      FROM public.seed_lot_links k
+      JOIN ancestors a ON k.child_lot_id = a.id
+    ),
+    descendants AS (
+      SELECT k.child_lot_id AS id, k.parent_lot_id AS via, k.link_type, 1 AS depth
+      FROM public.seed_lot_links k
+      WHERE k.parent_lot_id = _root.id
+      UNION
+      SELECT k.child_lot_id, k.parent_lot_id, k.link_type, d.depth + 1
+      FROM public.seed_lot_links k
+      JOIN descendants d ON k.parent_lot_id = d.id
+    ),
+    lineage AS (
+      SELECT _root.id AS id, 'self'::text AS direction, 0 AS depth, NULL::public.seed_lot_link_type AS link_type, NULL::uuid AS via
+      UNION ALL
+      (
+        SELECT DISTINCT ON (a.id, a.via) a.id, 'backward', a.depth, a.link_type, a.via
+        FROM ancestors a
+        ORDER BY a.id, a.via, a.depth
+      )
+      UNION ALL
+      (
+        SELECT DISTINCT ON (d.id, d.via) d.id, 'forward', d.depth, d.link_type, d.via
+        FROM descendants d
+        ORDER BY d.id, d.via, d.depth
+      )
+    )
+  SELECT
+    l.id,
+    l.lot_code,
+    g.direction,
+    g.depth,
+    g.link_type,
+    g.via,
+    NOT EXISTS (SELECT 1 FROM public.seed_lot_links k WHERE k.child_lot_id = l.id),
+    l.status,
+    l.commodity_code,
+    l.variety,
+    l.harvest_date,
+    l.farmer_id,
+    COALESCE(NULLIF(p.full_name, ''), p.email),
+    l.origin_address,
+    l.origin_lat,
+    l.origin_lng,
+    l.quantity_kg
+  FROM lineage g
+  JOIN public.seed_lots l ON l.id = g.id
+  LEFT JOIN public.profiles p ON p.id = l.farmer_id
+  ORDER BY g.direction, g.depth, l.lot_code;
+END;
+$$;
+
+-- Reports are run for one organization at a time
+DROP FUNCTION public.get_shipment_report_summary(date, date, public.shipment_status[], text, uuid, uuid, text);
+DROP FUNCTION public.get_shipment_period_stats(text, integer, date, date, public.shipment_status[], text, uuid, uuid, text);
+DROP FUNCTION public.filter_report_shipments(date, date, public.shipment_status[], text, uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.filter_report_shipments(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _statuses public.shipment_status[] DEFAULT NULL,
+  _commodity_code text DEFAULT NULL,
+  _farmer_id uuid DEFAULT NULL,
+  _transporter_id uuid DEFAULT NULL,
+  _region text DEFAULT NULL,
+  _organization_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.shipments
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.shipments s
+  WHERE (_organization_id IS NULL OR s.organization_id = _organization_id)
+    AND (_from IS NULL OR s.created_at >= _from)
+    AND (_to IS NULL OR s.created_at < _to + 1)
+    AND (_statuses IS NULL OR cardinality(_statuses) = 0 OR s.status = ANY (_statuses))
+    AND (_commodity_code IS NULL OR s.commodity_code = _commodity_code)
+    AND (_farmer_id IS NULL OR s.user_id = _farmer_id)
+    AND (_transporter_id IS NULL OR s.assigned_transporter_id = _transporter_id)
+    AND (
+      NULLIF(btrim(_region), '') IS NULL
+      OR strpos(lower(s.origin_address), lower(btrim(_region))) > 0
+      OR strpos(lower(s.destination_address), lower(btrim(_region))) > 0
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_shipment_report_summary(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _statuses public.shipment_status[] DEFAULT NULL,
+  _commodity_code text DEFAULT NULL,
+  _farmer_id uuid DEFAULT NULL,
+  _transporter_id uuid DEFAULT NULL,
+  _region text DEFAULT NULL,
+  _organization_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  status public.shipment_status,
+  commodity_code text,
+  shipments bigint,
+  net_weight_kg numeric,
+  cargo_value numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.status,
+    s.commodity_code,
+    count(*),
+    COALESCE(sum(s.net_weight_kg), 0),
+    COALESCE(sum(s.cargo_value), 0)
+  FROM public.filter_report_shipments(
+    _from, _to, _statuses, _commodity_code, _farmer_id, _transporter_id, _region, _organization_id
+  ) s
+  GROUP BY s.status, s.commodity_code
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_shipment_period_stats(
+  _period text DEFAULT 'month',
+  _periods integer DEFAULT 6,
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _statuses public.shipment_status[] DEFAULT NULL,
+  _commodity_code text DEFAULT NULL,
+  _farmer_id uuid DEFAULT NULL,
+  _transporter_id uuid DEFAULT NULL,
+  _region text DEFAULT NULL,
+  _organization_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  period_start date,
+  shipments bigint,
+  delivered bigint,
+  delivered_kg numeric,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _step interval;
+  _first timestamp with time zone;
+  _last timestamp with time zone;
+BEGIN
+  IF _period NOT IN ('week', 'month') THEN
+    RAISE EXCEPTION 'Period must be week or month' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _periods IS NULL OR _periods < 1 OR _periods > 104 THEN
+    RAISE EXCEPTION 'Periods must be between 1 and 104' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _from IS NOT NULL AND _to IS NOT NULL AND _from > _to THEN
+    RAISE EXCEPTION 'The start date must be on or before the end date' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  _step := ('1 ' || _period)::interval;
+  _last := date_trunc(_period, COALESCE(_to::timestamp with time zone, now()));
+  _first := CASE
+    WHEN _from IS NULL THEN _last - (_periods - 1) * _step
+    ELSE greatest(date_trunc(_period, _from::timestamp with time zone), _last - 103 * _step)
+  END;
+
+  RETURN QUERY
+  WITH
+    matching AS (
+      SELECT *
+      FROM public.filter_report_shipments(
+        _from, _to, _statuses, _commodity_code, _farmer_id, _transporter_id, _region, _organization_id
+      )
+    ),
+    periods AS (
+      SELECT generate_series(_first, _last, _step) AS start
+    ),
+    created AS (
+      SELECT date_trunc(_period, s.created_at) AS start, count(*) AS total
+      FROM matching s
+      WHERE s.created_at >= _first
+      GROUP BY 1
+    ),
+    completed AS (
+      SELECT
+        date_trunc(_period, s.delivered_at) AS start,
+        count(*) AS total,
+        COALESCE(sum(s.net_weight_kg), 0) AS weight_kg,
+        COALESCE(sum(s.cargo_value), 0) AS value
+      FROM matching s
+      WHERE s.delivered_at >= _first
+        AND s.status IN ('delivered', 'completed')
+      GROUP BY 1
+    )
+  SELECT
+    p.start::date,
+    COALESCE(c.total, 0),
+    COALESCE(d.total, 0),
+    COALESCE(d.weight_kg, 0),
+    COALESCE(d.value, 0)
+  FROM periods p
+  LEFT JOIN created c ON c.start = p.start
+  LEFT JOIN completed d ON d.start = p.start
+  ORDER BY p.start;
+END;
+$$;
+
+-- Role requests are made to one organization and reviewed by its administrators
+DROP POLICY "Administrators can view all role requests" ON public.role_requests;
+
+CREATE POLICY "Administrators can view role requests for their organization"
+ON public.role_requests
+FOR SELECT
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+DROP FUNCTION public.request_role(public.app_role, text);
+
+CREATE OR REPLACE FUNCTION public.request_role(_organization_id uuid, _role public.app_role, _note text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _role NOT IN ('farmer', 'transporter') THEN
+    RAISE EXCEPTION 'Only the farmer or transporter role can be requested' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = _organization_id) THEN
+    RAISE EXCEPTION 'Organization not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = auth.uid() AND organization_id = _organization_id) THEN
+    RAISE EXCEPTION 'You already have a role in this organization' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.role_requests
+    WHERE user_id = auth.uid() AND organization_id = _organization_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have a request awaiting approval' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO public.role_requests (user_id, organization_id, requested_role, note)
+  VALUES (auth.uid(), _organization_id, _role, NULLIF(btrim(_note), ''))
+  RETURNING id INTO _request_id;
+
+  RETURN _request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_role_request(_request_id uuid, _approve boolean, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO _request FROM public.role_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_org_admin(auth.uid(), _request.organization_id) THEN
+    RAISE EXCEPTION 'Only administrators of the organization can review this request' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request not found or no longer pending' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.role_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END::public.role_request_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(btrim(_note), '')
+  WHERE id = _request_id;
+
+  IF _approve THEN
+    INSERT INTO public.user_roles (user_id, organization_id, role)
+    VALUES (_request.user_id, _request.organization_id, _request.requested_role)
+    ON CONFLICT (user_id, organization_id, role) DO NOTHING;
+  END IF;
+END;
+$$;
+
+DROP FUNCTION public.list_role_requests();
+
+CREATE OR REPLACE FUNCTION public.list_role_requests(_organization_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  full_name text,
+  email text,
+  requested_role public.app_role,
+  note text,
+  created_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only administrators can list role requests' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id, r.user_id, p.full_name, p.email, r.requested_role, r.note, r.created_at
+  FROM public.role_requests r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.status = 'pending'
+    AND r.organization_id = _organization_id
+  ORDER BY r.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.settle_role_requests()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.role_requests
+  SET status = CASE WHEN requested_role = NEW.role THEN 'approved' ELSE 'rejected' END::public.role_request_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = CASE WHEN requested_role = NEW.role THEN NULL ELSE 'Assigned a different role' END
+  WHERE user_id = NEW.user_id
+    AND organization_id = NEW.organization_id
+    AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$;
+
+-- The console lists an organization's members; super admins also see everyone
+-- else so they can appoint the first administrator of a new organization
+DROP FUNCTION public.list_users();
+
+CREATE OR REPLACE FUNCTION public.list_users(_organization_id uuid)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  full_name text,
+  role public.app_role,
+  is_active boolean,
+  created_at timestamp with time zone,
+  last_sign_in_at timestamp with time zone,
+  shipment_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only administrators can list users' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.email,
+    p.full_name,
+    (
+      SELECT ur.role
+      FROM public.user_roles ur
+      WHERE ur.user_id = p.id AND ur.organization_id = _organization_id
+      ORDER BY ur.created_at
+      LIMIT 1
+    ),
+    p.is_active,
+    p.created_at,
+    u.last_sign_in_at,
+    (
+      SELECT count(*)
+      FROM public.shipments s
+      WHERE s.organization_id = _organization_id
+        AND (s.user_id = p.id OR s.assigned_transporter_id = p.id)
+    )
+  FROM public.profiles p
+  LEFT JOIN auth.users u ON u.id = p.id
+  WHERE public.is_super_admin(auth.uid())
+     OR EXISTS (SELECT 1 FROM public.user_roles ur WHERE ur.user_id = p.id AND ur.organization_id = _organization_id)
+  ORDER BY p.full_name NULLS LAST, p.email;
+END;
+$$;
+
+-- Deactivating bans the account and signing out ends every session, which
+-- reaches past any one organization. Administrators may therefore only act on
+-- users whose every organization they administer, so adding someone to an
+-- organization does not hand its administrators control over them elsewhere.
+-- Only super admins may act on another super admin.
+CREATE OR REPLACE FUNCTION public.can_manage_user(_admin_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_super_admin(_admin_id) OR (
+    NOT public.is_super_admin(_user_id)
+    AND EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.user_roles target
+      WHERE target.user_id = _user_id
+        AND NOT public.has_org_role(_admin_id, target.organization_id, 'administrator')
+    )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_manage_user(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_manage_user(uuid, uuid) TO service_role;
@@ -0,0 +1,232 @@
+-- Members may hold several roles in an organization and choose which one to act as.
+-- Row level security already accepts any held role; these functions stop picking just one.
+DROP FUNCTION public.get_current_user_role();
+
+CREATE OR REPLACE FUNCTION public.get_current_user_roles(_organization_id uuid)
+RETURNS public.app_role[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(role ORDER BY created_at), '{}')
+  FROM public.user_roles
+  WHERE user_id = auth.uid()
+    AND organization_id = _organization_id
+$$;
+
+DROP FUNCTION public.list_users(uuid);
+
+CREATE OR REPLACE FUNCTION public.list_users(_organization_id uuid)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  full_name text,
+  roles public.app_role[],
+  is_active boolean,
+  created_at timestamp with time zone,
+  last_sign_in_at timestamp with time zone,
+  shipment_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only administrators can list users' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.email,
+    p.full_name,
+    (
+      SELECT COALESCE(array_agg(ur.role ORDER BY ur.created_at), '{}')
+      FROM public.user_roles ur
+      WHERE ur.user_id = p.id AND ur.organization_id = _organization_id
+    ),
+    p.is_active,
+    p.created_at,
+    u.last_sign_in_at,
+    (
+      SELECT count(*)
+      FROM public.shipments s
+      WHERE s.organization_id = _organization_id
+        AND (s.user_id = p.id OR s.assigned_transporter_id = p.id)
+    )
+  FROM public.profiles p
+  LEFT JOIN auth.users u ON u.id = p.id
+  WHERE public.is_super_admin(auth.uid())
+     OR EXISTS (SELECT 1 FROM public.user_roles ur WHERE ur.user_id = p.id AND ur.organization_id = _organization_id)
+  ORDER BY p.full_name NULLS LAST, p.email;
+END;
+$$;
+
+-- Reports follow the active role too: someone acting as a farmer or transporter sees totals for their own
+-- shipments, even when row level security would also let them see the rest as an administrator
+DROP FUNCTION public.get_shipment_report_summary(date, date, public.shipment_status[], text, uuid, uuid, text, uuid);
+DROP FUNCTION public.get_shipment_period_stats(text, integer, date, date, public.shipment_status[], text, uuid, uuid, text, uuid);
+DROP FUNCTION public.filter_report_shipments(date, date, public.shipment_status[], text, uuid, uuid, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.filter_report_shipments(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _statuses public.shipment_status[] DEFAULT NULL,
+  _commodity_code text DEFAULT NULL,
+  _farmer_id uuid DEFAULT NULL,
+  _transporter_id uuid DEFAULT NULL,
+  _region text DEFAULT NULL,
+  _organization_id uuid DEFAULT NULL,
+  _role public.app_role DEFAULT NULL
+)
+RETURNS SETOF public.shipments
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.shipments s
+  WHERE (_organization_id IS NULL OR s.organization_id = _organization_id)
+    AND (
+      _role IS NULL OR _role = 'administrator'
+      OR (_role = 'farmer' AND s.user_id = auth.uid())
+      OR (_role = 'transporter' AND s.assigned_transporter_id = auth.uid())
+    )
+    AND (_from IS NULL OR s.created_at >= _from)
+    AND (_to IS NULL OR s.created_at < _to + 1)
+    AND (_statuses IS NULL OR cardinality(_statuses) = 0 OR s.status = ANY (_statuses))
+    AND (_commodity_code IS NULL OR s.commodity_code = _commodity_code)
+    AND (_farmer_id IS NULL OR s.user_id = _farmer_id)
+    AND (_transporter_id IS NULL OR s.assigned_transporter_id = _transporter_id)
+    AND (
+      NULLIF(btrim(_region), '') IS NULL
+      OR strpos(lower(s.origin_address), lower(btrim(_region))) > 0
+      OR strpos(lower(s.destination_address), lower(btrim(_region))) > 0
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_shipment_report_summary(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _statuses public.shipment_status[] DEFAULT NULL,
+  _commodity_code text DEFAULT NULL,
+  _farmer_id uuid DEFAULT NULL,
+  _transporter_id uuid DEFAULT NULL,
+  _region text DEFAULT NULL,
+  _organization_id uuid DEFAULT NULL,
+  _role public.app_role DEFAULT NULL
+)
+RETURNS TABLE (
+  status public.shipment_status,
+  commodity_code text,
+  shipments bigint,
+  net_weight_kg numeric,
+  cargo_value numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.status,
+    s.commodity_code,
+    count(*),
+    COALESCE(sum(s.net_weight_kg), 0),
+    COALESCE(sum(s.cargo_value), 0)
+  FROM public.filter_report_shipments(
+    _from, _to, _statuses, _commodity_code, _farmer_id, _transporter_id, _region, _organization_id, _role
+  ) s
+  GROUP BY s.status, s.commodity_code
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_shipment_period_stats(
+  _period text DEFAULT 'month',
+  _periods integer DEFAULT 6,
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _statuses public.shipment_status[] DEFAULT NULL,
+  _commodity_code text DEFAULT NULL,
+  _farmer_id uuid DEFAULT NULL,
+  _transporter_id uuid DEFAULT NULL,
+  _region text DEFAULT NULL,
+  _organization_id uuid DEFAULT NULL,
+  _role public.app_role DEFAULT NULL
+)
+RETURNS TABLE (
+  period_start date,
+  shipments bigint,
+  delivered bigint,
+  delivered_kg numeric,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _step interval;
+  _first timestamp with time zone;
+  _last timestamp with time zone;
+BEGIN
+  IF _period NOT IN ('week', 'month') THEN
+    RAISE EXCEPTION 'Period must be week or month' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _periods IS NULL OR _periods < 1 OR _periods > 104 THEN
+    RAISE EXCEPTION 'Periods must be between 1 and 104' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _from IS NOT NULL AND _to IS NOT NULL AND _from > _to THEN
+    RAISE EXCEPTION 'The start date must be on or before the end date' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  _step := ('1 ' || _period)::interval;
+  _last := date_trunc(_period, COALESCE(_to::timestamp with time zone, now()));
+  _first := CASE
+    WHEN _from IS NULL THEN _last - (_periods - 1) * _step
+    ELSE greatest(date_trunc(_period, _from::timestamp with time zone), _last - 103 * _step)
+  END;
+
+  RETURN QUERY
+  WITH
+    matching AS (
+      SELECT *
+      FROM public.filter_report_shipments(
+        _from, _to, _statuses, _commodity_code, _farmer_id, _transporter_id, _region, _organization_id, _role
+      )
+    ),
+    periods AS (
+      SELECT generate_series(_first, _last, _step) AS start
+    ),
+    created AS (
+      SELECT date_trunc(_period, s.created_at) AS start, count(*) AS total
+      FROM matching s
+      WHERE s.created_at >= _first
+      GROUP BY 1
+    ),
+    completed AS (
+      SELECT
+        date_trunc(_period, s.delivered_at) AS start,
+        count(*) AS total,
+        COALESCE(sum(s.net_weight_kg), 0) AS weight_kg,
+        COALESCE(sum(s.cargo_value), 0) AS value
+      FROM matching s
+      WHERE s.delivered_at >= _first
+        AND s.status IN ('delivered', 'completed')
+      GROUP BY 1
+    )
+  SELECT
+    p.start::date,
+    COALESCE(c.total, 0),
+    COALESCE(d.total, 0),
+    COALESCE(d.weight_kg, 0),
+    COALESCE(d.value, 0)
+  FROM periods p
+  LEFT JOIN created c ON c.start = p.start
+  LEFT JOIN completed d ON d.start = p.start
+  ORDER BY p.start;
+END;
+$$;
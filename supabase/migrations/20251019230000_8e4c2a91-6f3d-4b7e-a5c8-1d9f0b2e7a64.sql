@@ -0,0 +1,175 @@
+-- Administrators invite farmers and transporters by email or phone with their role already chosen.
+-- The send-invitation edge function creates invitations and delivers the link; accepting one grants the role.
+CREATE TYPE public.invitation_status AS ENUM ('pending', 'accepted', 'revoked');
+
+CREATE TABLE public.invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT CHECK (char_length(email) <= 254),
+  phone TEXT CHECK (phone ~ '^\+?[0-9]{7,15}$'),
+  role public.app_role NOT NULL CHECK (role IN ('farmer', 'transporter')),
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  status public.invitation_status NOT NULL DEFAULT 'pending',
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Each invitation goes to exactly one contact
+  CHECK ((email IS NULL) <> (phone IS NULL))
+);
+
+CREATE INDEX idx_invitations_organization_id ON public.invitations (organization_id, status, created_at DESC);
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Administrators can view invitations in their organization"
+ON public.invitations
+FOR SELECT
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- Invitations are created by the edge function and only change through the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.invitations FROM anon, authenticated;
+
+CREATE TRIGGER update_invitations_updated_at
+BEFORE UPDATE ON public.invitations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Grant the invited role and close the invitation; callers check the invitation is still open
+CREATE OR REPLACE FUNCTION public.apply_invitation(_invitation_id uuid, _user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.invitations%ROWTYPE;
+BEGIN
+  UPDATE public.invitations
+  SET status = 'accepted',
+      accepted_by = _user_id,
+      accepted_at = now()
+  WHERE id = _invitation_id
+  RETURNING * INTO _invitation;
+
+  INSERT INTO public.user_roles (user_id, organization_id, role)
+  VALUES (_user_id, _invitation.organization_id, _invitation.role)
+  ON CONFLICT (user_id, organization_id, role) DO NOTHING;
+
+  RETURN _invitation.organization_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_invitation(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- What the accept page shows before the invitee signs in
+CREATE OR REPLACE FUNCTION public.get_invitation(_token uuid)
+RETURNS TABLE (
+  organization_id uuid,
+  organization_name text,
+  role public.app_role,
+  email text,
+  phone text,
+  status public.invitation_status,
+  expires_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.organization_id, o.name, i.role, i.email, i.phone, i.status, i.expires_at
+  FROM public.invitations i
+  JOIN public.organizations o ON o.id = i.organization_id
+  WHERE i.token = _token
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invitation(uuid) TO anon, authenticated;
+
+-- Accept as an existing account; email invitations must be accepted by that address
+CREATE OR REPLACE FUNCTION public.accept_invitation(_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO _invitation FROM public.invitations WHERE token = _token FOR UPDATE;
+
+  IF NOT FOUND OR _invitation.status <> 'pending' OR _invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation is no longer valid' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _invitation.email IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM auth.users WHERE id = auth.uid() AND lower(email) = lower(_invitation.email)
+  ) THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN public.apply_invitation(_invitation.id, auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_invitation(_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.invitations
+  SET status = 'revoked'
+  WHERE id = _invitation_id
+    AND status = 'pending'
+    AND public.is_org_admin(auth.uid(), organization_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or no longer pending' USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+-- Accounts created from an invitation link join the organization straight away.
+-- An unusable token is ignored so that sign up itself never fails.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _invitation_id uuid;
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'full_name', '')
+  );
+
+  IF NEW.raw_user_meta_data ? 'invite_token' THEN
+    SELECT id INTO _invitation_id
+    FROM public.invitations
+    WHERE token::text = NEW.raw_user_meta_data ->> 'invite_token'
+      AND status = 'pending'
+      AND expires_at > now()
+      AND (email IS NULL OR lower(email) = lower(NEW.email))
+    FOR UPDATE;
+
+    IF _invitation_id IS NOT NULL THEN
+      PERFORM public.apply_invitation(_invitation_id, NEW.id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,231 @@
+-- Two-factor authentication. Supabase Auth stores the TOTP factors and raises a verified session to aal2;
+-- this adds single-use backup codes and lets an organization require aal2 for its administrators.
+ALTER TABLE public.organizations
+ADD COLUMN require_admin_mfa BOOLEAN NOT NULL DEFAULT false;
+
+-- Whether the caller's session passed a second factor
+CREATE OR REPLACE FUNCTION public.is_aal2()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+$$;
+
+-- Policies for sensitive administrator actions add this so organizations that require
+-- two-factor authentication only accept those actions from an aal2 session
+CREATE OR REPLACE FUNCTION public.meets_admin_mfa(_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_aal2() OR NOT COALESCE(
+    (SELECT require_admin_mfa FROM public.organizations WHERE id = _organization_id),
+    false
+  )
+$$;
+
+DROP POLICY "Administrators can insert roles in their organization" ON public.user_roles;
+DROP POLICY "Administrators can update roles in their organization" ON public.user_roles;
+DROP POLICY "Administrators can delete roles in their organization" ON public.user_roles;
+DROP POLICY "Administrators can delete shipments" ON public.shipments;
+
+CREATE POLICY "Administrators can insert roles in their organization"
+ON public.user_roles
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id) AND public.meets_admin_mfa(organization_id));
+
+CREATE POLICY "Administrators can update roles in their organization"
+ON public.user_roles
+FOR UPDATE
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id) AND public.meets_admin_mfa(organization_id))
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id) AND public.meets_admin_mfa(organization_id));
+
+CREATE POLICY "Administrators can delete roles in their organization"
+ON public.user_roles
+FOR DELETE
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id) AND public.meets_admin_mfa(organization_id));
+
+CREATE POLICY "Administrators can delete shipments"
+ON public.shipments
+FOR DELETE
+TO authenticated
+USING (public.is_org_admin(auth.uid(), organization_id) AND public.meets_admin_mfa(organization_id));
+
+-- Role requests and invitations grant roles too, so reviewing and revoking them follows the same rule
+CREATE OR REPLACE FUNCTION public.review_role_request(_request_id uuid, _approve boolean, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO _request FROM public.role_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_org_admin(auth.uid(), _request.organization_id) THEN
+    RAISE EXCEPTION 'Only administrators of the organization can review this request' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT public.meets_admin_mfa(_request.organization_id) THEN
+    RAISE EXCEPTION 'Verify with your authenticator app to review role requests' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request not found or no longer pending' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.role_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END::public.role_request_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(btrim(_note), '')
+  WHERE id = _request_id;
+
+  IF _approve THEN
+    INSERT INTO public.user_roles (user_id, organization_id, role)
+    VALUES (_request.user_id, _request.organization_id, _request.requested_role)
+    ON CONFLICT (user_id, organization_id, role) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Sending invitations is checked the same way by the send-invitation edge function
+CREATE OR REPLACE FUNCTION public.revoke_invitation(_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id uuid;
+BEGIN
+  SELECT organization_id INTO _organization_id
+  FROM public.invitations
+  WHERE id = _invitation_id
+    AND status = 'pending'
+    AND public.is_org_admin(auth.uid(), organization_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or no longer pending' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.meets_admin_mfa(_organization_id) THEN
+    RAISE EXCEPTION 'Verify with your authenticator app to manage invitations' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.invitations
+  SET status = 'revoked'
+  WHERE id = _invitation_id;
+END;
+$$;
+
+-- Turning the requirement on or off is itself done from a verified session
+CREATE OR REPLACE FUNCTION public.set_admin_mfa_requirement(_organization_id uuid, _required boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_org_admin(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Only administrators can change security settings' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT public.is_aal2() THEN
+    RAISE EXCEPTION 'Set up two-factor authentication before changing this setting' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.organizations
+  SET require_admin_mfa = _required
+  WHERE id = _organization_id;
+END;
+$$;
+
+-- Backup codes recover an account when the authenticator is lost. Only hashes are kept.
+CREATE TABLE public.mfa_backup_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mfa_backup_codes_user_id ON public.mfa_backup_codes (user_id);
+
+ALTER TABLE public.mfa_backup_codes ENABLE ROW LEVEL SECURITY;
+
+-- Nobody reads the hashes directly; the functions below are the only way in
+REVOKE ALL ON public.mfa_backup_codes FROM anon, authenticated;
+
+-- Replaces the caller's backup codes and returns the new ones; they are never shown again
+CREATE OR REPLACE FUNCTION public.generate_mfa_backup_codes()
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _codes text[] := '{}';
+  _code text;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.is_aal2() THEN
+    RAISE EXCEPTION 'Verify with your authenticator app first' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM public.mfa_backup_codes WHERE user_id = auth.uid();
+
+  FOR _i IN 1..10 LOOP
+    _code := substr(encode(sha256(convert_to(gen_random_uuid()::text, 'UTF8')), 'hex'), 1, 10);
+    _code := substr(_code, 1, 5) || '-' || substr(_code, 6, 5);
+    _codes := array_append(_codes, _code);
+
+    INSERT INTO public.mfa_backup_codes (user_id, code_hash)
+    VALUES (auth.uid(), encode(sha256(convert_to(_code, 'UTF8')), 'hex'));
+  END LOOP;
+
+  RETURN _codes;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_mfa_backup_codes()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.mfa_backup_codes
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL
+$$;
+
+-- Used by the mfa-recovery edge function, which removes the user's factors when a code matches
+CREATE OR REPLACE FUNCTION public.redeem_mfa_backup_code(_user_id uuid, _code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.mfa_backup_codes
+  SET used_at = now()
+  WHERE user_id = _user_id
+    AND used_at IS NULL
+    AND code_hash = encode(sha256(convert_to(lower(btrim(_code)), 'UTF8')), 'hex');
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_mfa_backup_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_mfa_backup_code(uuid, text) TO service_role;
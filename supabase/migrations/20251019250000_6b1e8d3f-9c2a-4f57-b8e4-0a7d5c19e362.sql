@@ -0,0 +1,88 @@
+-- Attempt counters for the auth-gateway edge function. Each row counts one action for one email address,
+-- IP address or user, so clearing browser storage or opening a private window no longer resets a limit.
+CREATE TABLE public.auth_rate_limits (
+  action TEXT NOT NULL,
+  identifier TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  window_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  lockouts INTEGER NOT NULL DEFAULT 0,
+  last_lockout_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (action, identifier)
+);
+
+ALTER TABLE public.auth_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Only the edge function, using the service role, reads or changes the counters
+REVOKE ALL ON public.auth_rate_limits FROM anon, authenticated;
+
+-- Counts one attempt and locks the key once it reaches the limit. Every lockout within a day of the
+-- previous one doubles the block, up to a day.
+CREATE OR REPLACE FUNCTION public.record_auth_attempt(
+  _action text,
+  _identifier text,
+  _max_attempts integer,
+  _window_seconds integer,
+  _block_seconds integer
+)
+RETURNS TABLE (remaining integer, retry_at timestamp with time zone, locked_out boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limit public.auth_rate_limits%ROWTYPE;
+BEGIN
+  INSERT INTO public.auth_rate_limits (action, identifier)
+  VALUES (_action, _identifier)
+  ON CONFLICT (action, identifier) DO NOTHING;
+
+  SELECT * INTO _limit
+  FROM public.auth_rate_limits
+  WHERE action = _action AND identifier = _identifier
+  FOR UPDATE;
+
+  -- Already locked; the gateway refuses these before counting, so this only covers a race
+  IF _limit.blocked_until > now() THEN
+    RETURN QUERY SELECT 0, _limit.blocked_until, false;
+    RETURN;
+  END IF;
+
+  -- A new window starts when the last one ran out or a lockout ended
+  IF _limit.blocked_until IS NOT NULL OR _limit.window_started_at <= now() - make_interval(secs => _window_seconds) THEN
+    _limit.attempts := 0;
+    _limit.window_started_at := now();
+    _limit.blocked_until := NULL;
+  END IF;
+
+  IF _limit.last_lockout_at <= now() - interval '1 day' THEN
+    _limit.lockouts := 0;
+  END IF;
+
+  _limit.attempts := _limit.attempts + 1;
+
+  IF _limit.attempts >= _max_attempts THEN
+    _limit.lockouts := _limit.lockouts + 1;
+    _limit.last_lockout_at := now();
+    _limit.blocked_until := now() + LEAST(
+      make_interval(secs => _block_seconds * power(2, LEAST(_limit.lockouts - 1, 10))),
+      interval '1 day'
+    );
+  END IF;
+
+  UPDATE public.auth_rate_limits
+  SET attempts = _limit.attempts,
+      window_started_at = _limit.window_started_at,
+      blocked_until = _limit.blocked_until,
+      lockouts = _limit.lockouts,
+      last_lockout_at = _limit.last_lockout_at,
+      updated_at = now()
+  WHERE action = _action AND identifier = _identifier;
+
+  RETURN QUERY SELECT GREATEST(_max_attempts - _limit.attempts, 0), _limit.blocked_until, _limit.blocked_until IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_auth_attempt(text, text, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_auth_attempt(text, text, integer, integer, integer) TO service_role;
@@ -0,0 +1,2 @@
+-- The operations map follows shipments as they are created, assigned and moved along
+ALTER PUBLICATION supabase_realtime ADD TABLE public.shipments;
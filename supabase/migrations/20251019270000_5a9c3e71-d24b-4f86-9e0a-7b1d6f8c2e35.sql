@@ -0,0 +1,122 @@
+-- GPS breadcrumbs posted from the transporter's browser while a load is on the way
+CREATE TABLE public.shipment_locations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+    transporter_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    lat DECIMAL(10, 8) NOT NULL CHECK (lat BETWEEN -90 AND 90),
+    lng DECIMAL(11, 8) NOT NULL CHECK (lng BETWEEN -180 AND 180),
+    accuracy_m REAL CHECK (accuracy_m >= 0),
+    speed_mps REAL CHECK (speed_mps >= 0),
+    heading REAL CHECK (heading >= 0 AND heading < 360),
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shipment_locations_shipment_id_recorded_at
+  ON public.shipment_locations (shipment_id, recorded_at);
+
+ALTER TABLE public.shipment_locations ENABLE ROW LEVEL SECURITY;
+
+-- Breadcrumbs are visible to anyone who can see the shipment
+CREATE POLICY "Users can view locations of visible shipments"
+ON public.shipment_locations
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.shipments s
+    WHERE s.id = shipment_id
+  )
+);
+
+-- No insert, update or delete policies: rows are only written by record_shipment_location
+REVOKE INSERT, UPDATE, DELETE ON public.shipment_locations FROM anon, authenticated;
+
+-- The latest fix is kept on the shipment so lists and the fleet map need not read the whole trail
+ALTER TABLE public.shipments
+  ADD COLUMN last_lat DECIMAL(10, 8),
+  ADD COLUMN last_lng DECIMAL(11, 8),
+  ADD COLUMN last_located_at TIMESTAMP WITH TIME ZONE;
+
+-- Only record_shipment_location moves the truck, even for those who may otherwise update the shipment
+CREATE OR REPLACE FUNCTION public.protect_shipment_last_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    CASE TG_OP
+      WHEN 'INSERT' THEN NEW.last_lat IS NOT NULL OR NEW.last_lng IS NOT NULL OR NEW.last_located_at IS NOT NULL
+      ELSE NEW.last_lat IS DISTINCT FROM OLD.last_lat OR
+        NEW.last_lng IS DISTINCT FROM OLD.last_lng OR
+        NEW.last_located_at IS DISTINCT FROM OLD.last_located_at
+    END
+  ) THEN
+    RAISE EXCEPTION 'The last known location is only set by location reports'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_shipment_last_location
+BEFORE INSERT OR UPDATE ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_shipment_last_location();
+
+-- Record a fix for a shipment the caller is carrying
+CREATE OR REPLACE FUNCTION public.record_shipment_location(
+  _shipment_id uuid,
+  _lat double precision,
+  _lng double precision,
+  _accuracy_m real DEFAULT NULL,
+  _speed_mps real DEFAULT NULL,
+  _heading real DEFAULT NULL,
+  _recorded_at timestamptz DEFAULT now()
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shipment public.shipments%ROWTYPE;
+  _recorded timestamptz := LEAST(COALESCE(_recorded_at, now()), now());
+BEGIN
+  SELECT * INTO _shipment FROM public.shipments WHERE id = _shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _shipment.assigned_transporter_id IS DISTINCT FROM auth.uid()
+     OR NOT public.has_org_role(auth.uid(), _shipment.organization_id, 'transporter') THEN
+    RAISE EXCEPTION 'Only the assigned transporter can report its location'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _shipment.status NOT IN ('picked-up', 'in-transit') THEN
+    RAISE EXCEPTION 'Locations are only recorded while a shipment is on the way'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Fixes queued while offline may arrive late; only a newer one moves the shipment
+  INSERT INTO public.shipment_locations (shipment_id, transporter_id, lat, lng, accuracy_m, speed_mps, heading, recorded_at)
+  VALUES (_shipment_id, auth.uid(), _lat, _lng, _accuracy_m, _speed_mps, _heading, _recorded);
+
+  IF _shipment.last_located_at IS NULL OR _recorded > _shipment.last_located_at THEN
+    UPDATE public.shipments
+    SET last_lat = _lat, last_lng = _lng, last_located_at = _recorded
+    WHERE id = _shipment_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_shipment_location(uuid, double precision, double precision, real, real, real, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_shipment_location(uuid, double precision, double precision, real, real, real, timestamptz) TO authenticated;
+
+-- Shipment pages draw the trail as it grows
+ALTER PUBLICATION supabase_realtime ADD TABLE public.shipment_locations;
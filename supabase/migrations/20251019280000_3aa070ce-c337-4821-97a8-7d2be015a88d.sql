@@ -0,0 +1,73 @@
+-- The auth-gateway edge function only sees requests that go through it, while the auth API stays reachable
+-- with the public anon key. These auth hooks apply the sign-in and two-factor limits inside the auth server
+-- itself, on the same counters the gateway uses, so calling the auth API directly no longer gets around them.
+-- Sign-up, sign-in link, password reset and verification emails sent directly are only held back by the
+-- auth server's own email rate limits.
+
+-- Refuses an attempt while its key is locked, otherwise clears the counter on success or counts the
+-- failure. The limits match signIn and mfaVerify in the auth-gateway function.
+CREATE OR REPLACE FUNCTION public.check_auth_attempt(_action text, _identifier text, _valid boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.auth_rate_limits
+    WHERE action = _action AND identifier = _identifier AND blocked_until > now()
+  ) THEN
+    RETURN jsonb_build_object('decision', 'reject', 'message', 'Too many attempts. Please try again later.');
+  END IF;
+
+  IF _valid THEN
+    DELETE FROM public.auth_rate_limits WHERE action = _action AND identifier = _identifier;
+  ELSE
+    PERFORM public.record_auth_attempt(_action, _identifier, 5, 15 * 60, 15 * 60);
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+-- Password sign-ins are counted per email address, as the gateway does
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email text;
+BEGIN
+  SELECT lower(email) INTO _email FROM auth.users WHERE id = (event->>'user_id')::uuid;
+
+  IF _email IS NULL THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  RETURN public.check_auth_attempt('signIn', 'email:' || _email, (event->>'valid')::boolean);
+END;
+$$;
+
+-- Two-factor codes are counted per user
+CREATE OR REPLACE FUNCTION public.hook_mfa_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.check_auth_attempt('mfaVerify', 'user:' || (event->>'user_id'), (event->>'valid')::boolean);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_auth_attempt(text, text, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.hook_mfa_verification_attempt(jsonb) FROM PUBLIC, anon, authenticated;
+
+-- The auth server calls the hooks as its own database role
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.hook_mfa_verification_attempt(jsonb) TO supabase_auth_admin;